@@ -7,7 +7,12 @@
 
 /* eslint-disable @typescript-eslint/ban-types */
 
-type ExtensionPreferences = {}
+type ExtensionPreferences = {
+  /** Color Limit - Maximum number of colors per palette. Leave empty or enter 0 for no limit. */
+  "maxColors": string,
+  /** Data Directory - Folder for colors.json and backups. Leave empty to use the default location for your platform. */
+  "dataDirectory"?: string
+}
 
 /** Preferences accessible in all the extension's commands */
 declare type Preferences = ExtensionPreferences
@@ -15,10 +20,14 @@ declare type Preferences = ExtensionPreferences
 declare namespace Preferences {
   /** Preferences accessible in the `list-colors` command */
   export type ListColors = ExtensionPreferences & {}
+  /** Preferences accessible in the `find-near-duplicates` command */
+  export type FindNearDuplicates = ExtensionPreferences & {}
 }
 
 declare namespace Arguments {
   /** Arguments passed to the `list-colors` command */
   export type ListColors = {}
+  /** Arguments passed to the `find-near-duplicates` command */
+  export type FindNearDuplicates = {}
 }
 
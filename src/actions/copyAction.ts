@@ -1,12 +1,7 @@
 import { Clipboard, showToast, Toast, closeMainWindow } from "@raycast/api";
 import { ColorEntry } from "../types";
-import {
-  formatHexString,
-  formatRgbString,
-  formatHslString,
-  formatCmykString,
-} from "../utils/colorFormatUtils";
-import { ColorFormat } from "../constants/appConstants";
+import { formatColorAs } from "../utils/colorFormatUtils";
+import { COLOR_FORMAT_LABELS, ColorFormat } from "../constants/appConstants";
 import { getUserPreferences } from "../utils/settingsUtils";
 
 // Re-export for backward compatibility
@@ -26,30 +21,9 @@ export async function copyColorToClipboard(
     const selectedFormat = format || preferences.defaultColorFormat;
 
     // Format the color string based on the specified format
-    let colorString: string;
-    let formatName: string;
-
-    switch (selectedFormat) {
-      case "hex":
-        colorString = formatHexString(color);
-        formatName = "Hex";
-        break;
-      case "rgb":
-        colorString = formatRgbString(color);
-        formatName = "RGB";
-        break;
-      case "hsl":
-        colorString = formatHslString(color);
-        formatName = "HSL";
-        break;
-      case "cmyk":
-        colorString = formatCmykString(color);
-        formatName = "CMYK";
-        break;
-      default:
-        colorString = formatHexString(color);
-        formatName = "Hex";
-    }
+    const colorString = formatColorAs(color.rgb, selectedFormat, color.precise);
+    const formatName =
+      COLOR_FORMAT_LABELS[selectedFormat] ?? COLOR_FORMAT_LABELS.hex;
 
     // Copy to clipboard using Raycast API
     await Clipboard.copy(colorString);
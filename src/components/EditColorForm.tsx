@@ -106,7 +106,7 @@ export default function EditColorForm({
       setIsLoading(true);
 
       // Edit the color
-      const updatedColors = await editColor(color.index, values.name.trim(), {
+      const updatedColors = await editColor(color.id, values.name.trim(), {
         r: parseInt(values.red, 10),
         g: parseInt(values.green, 10),
         b: parseInt(values.blue, 10),
@@ -4,48 +4,324 @@ import {
   Icon,
   ActionPanel,
   Action,
+  showInFinder,
   showToast,
   Toast,
 } from "@raycast/api";
 import { useNavigation } from "@raycast/api";
-import { ColorEntry } from "../../types";
-import { copyHexToClipboard, formatHexString } from "../../actions/copyAction";
+import { useEffect, useMemo, useState } from "react";
+import { ColorEntry, Palette, StoreLoadReport } from "../../types";
+import {
+  copyColorToClipboard,
+  copyHexToClipboard,
+  formatHexString,
+} from "../../actions/copyAction";
 import { AddColorForm, EditColorForm } from "../color-management";
+import { ImportSwatchesForm, PaletteForm } from "../palette-management";
+import { StoreRecoveryReport } from "../store-recovery";
+import { ContrastDetail, ContrastMatrix } from "../contrast";
+import { VisionSimulationList } from "../vision-simulation";
+import { TonalScaleList } from "../tonal-scale";
+import { HarmonyList } from "../harmony";
 import { useColors } from "../../hooks";
-import { UI_TEXT } from "../../constants/appConstants";
-import { showDeleteConfirmation } from "../shared";
+import {
+  COLOR_FORMAT_LABELS,
+  SUPPORTED_COLOR_FORMATS,
+  UI_TEXT,
+} from "../../constants/appConstants";
+import { showConfirmationModal, showDeleteConfirmation } from "../shared";
+import { backupManager } from "../../utils/backupUtils";
+import { rgbToRaycastColor } from "../../utils/colorPreviewUtils";
+import {
+  PRECISE_COLOR_SPACE_LABELS,
+  isOutOfSrgbGamut,
+} from "../../utils/gamutUtils";
+import {
+  formatAsColorFunction,
+  formatAsOklch,
+  formatAsRgb,
+} from "../../utils/colorFormatUtils";
+import {
+  NamedColorMatch,
+  findNearestNamedColor,
+  formatNamedColorMatch,
+} from "../../utils/namedColorUtils";
+import {
+  exportPalettesToASE,
+  exportPalettesToTailwind,
+  exportToACO,
+  exportToASE,
+  exportToDesignTokens,
+  exportToGPL,
+  exportToTailwind,
+} from "../../utils/importExportUtils";
+import {
+  TAILWIND_THEME_FILE_EXTENSIONS,
+  TAILWIND_THEME_FORMATS,
+  TAILWIND_THEME_FORMAT_LABELS,
+} from "../../utils/tailwindUtils";
+import { getFreeExportPath } from "../../utils/fileSystemUtils";
 
 /**
  * Main Raycast command component for listing and copying colors
+ * Shows one section per palette, with the active palette first
  * Requirements: 1.1, 1.2, 3.1, 3.2, 3.3
  */
 export default function ColorList() {
   const { push } = useNavigation();
-  const { colors, isLoading, error, refreshColors, removeColor, setColors } =
-    useColors();
+  const {
+    palettes,
+    activePaletteId,
+    isLoading,
+    error,
+    loadReport,
+    refreshColors,
+    removeColor,
+    setColors,
+    setPaletteColors,
+    createNewPalette,
+    renameExistingPalette,
+    duplicateExistingPalette,
+    removePalette,
+    switchPalette,
+    clearLoadReport,
+    restoreBackup,
+  } = useColors();
+  const [isShowingDetail, setIsShowingDetail] = useState(false);
+
+  // Active palette first, remaining palettes in stored order
+  const orderedPalettes = [
+    ...palettes.filter((palette) => palette.id === activePaletteId),
+    ...palettes.filter((palette) => palette.id !== activePaletteId),
+  ];
+  // Nearest named colors, only looked up while the detail pane is shown
+  const closestNames = useMemo(() => {
+    const matches = new Map<string, NamedColorMatch | undefined>();
+
+    if (isShowingDetail) {
+      palettes.forEach((palette) =>
+        palette.colors.forEach((color) =>
+          matches.set(color.id, findNearestNamedColor(color.rgb)),
+        ),
+      );
+    }
+
+    return matches;
+  }, [palettes, isShowingDetail]);
+
+  const totalColors = palettes.reduce(
+    (count, palette) => count + palette.colors.length,
+    0,
+  );
 
   // Handle color selection and copy action (requirements 2.1, 2.2, 2.3, 2.4)
   const handleColorCopy = async (color: ColorEntry) => {
     await copyHexToClipboard(color);
   };
 
-  // Handle adding new color
-  const handleAddColor = () => {
-    push(<AddColorForm onColorAdded={setColors} />);
+  // Handle adding new color to a palette (the active one by default)
+  const handleAddColor = (palette?: Palette) => {
+    push(
+      palette ? (
+        <AddColorForm
+          paletteId={palette.id}
+          onColorAdded={(colors) => setPaletteColors(palette.id, colors)}
+        />
+      ) : (
+        <AddColorForm onColorAdded={setColors} />
+      ),
+    );
   };
 
   // Handle editing existing color
-  const handleEditColor = (color: ColorEntry) => {
-    push(<EditColorForm color={color} onColorEdited={setColors} />);
+  const handleEditColor = (palette: Palette, color: ColorEntry) => {
+    push(
+      <EditColorForm
+        color={color}
+        paletteId={palette.id}
+        onColorEdited={(colors) => setPaletteColors(palette.id, colors)}
+      />,
+    );
+  };
+
+  // Handle checking contrast against white, black or any other color
+  const handleCheckContrast = (color: ColorEntry) => {
+    push(
+      <ContrastDetail
+        color={color}
+        colors={palettes.flatMap((palette) => palette.colors)}
+      />,
+    );
+  };
+
+  // Handle showing the contrast matrix of a palette
+  const handleShowAccessibilityReport = (palette: Palette) => {
+    push(<ContrastMatrix palette={palette} />);
+  };
+
+  // Handle simulating color vision deficiencies for a palette
+  const handleSimulateVision = (palette: Palette) => {
+    push(<VisionSimulationList palette={palette} />);
+  };
+
+  // Handle generating a tonal scale from a color
+  const handleGenerateScale = (palette: Palette, color: ColorEntry) => {
+    push(
+      <TonalScaleList
+        color={color}
+        palette={palette}
+        onScaleSaved={refreshColors}
+      />,
+    );
+  };
+
+  // Handle generating color harmonies from a color
+  const handleGenerateHarmonies = (palette: Palette, color: ColorEntry) => {
+    push(
+      <HarmonyList
+        color={color}
+        palette={palette}
+        onColorsAdded={refreshColors}
+      />,
+    );
+  };
+
+  // Handle creating a new palette
+  const handleCreatePalette = () => {
+    push(
+      <PaletteForm
+        title="New Palette"
+        submitTitle="Create Palette"
+        successTitle="Palette Created"
+        onSubmit={createNewPalette}
+      />,
+    );
+  };
+
+  // Handle importing palettes from a swatch file
+  const handleImportSwatches = () => {
+    push(<ImportSwatchesForm onImported={refreshColors} />);
+  };
+
+  // Handle saving a swatch file to the export directory, under a name no
+  // earlier export uses
+  const handleExportSwatches = async (
+    name: string,
+    extension: string,
+    exportSwatches: (filePath: string) => Promise<void>,
+  ) => {
+    try {
+      const filePath = await getFreeExportPath(name, extension);
+      await exportSwatches(filePath);
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Swatches Exported",
+        message: filePath,
+        primaryAction: {
+          title: "Show in Finder",
+          onAction: () => showInFinder(filePath),
+        },
+      });
+    } catch (error) {
+      console.error("Failed to export swatches:", error);
+
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to Export Swatches",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      });
+    }
+  };
+
+  // Handle renaming a palette
+  const handleRenamePalette = (palette: Palette) => {
+    push(
+      <PaletteForm
+        title="Rename Palette"
+        submitTitle="Rename Palette"
+        successTitle="Palette Renamed"
+        initialName={palette.name}
+        onSubmit={(name) => renameExistingPalette(palette.id, name)}
+      />,
+    );
+  };
+
+  // Handle duplicating a palette
+  const handleDuplicatePalette = (palette: Palette) => {
+    push(
+      <PaletteForm
+        title="Duplicate Palette"
+        submitTitle="Duplicate Palette"
+        successTitle="Palette Duplicated"
+        initialName={`${palette.name} Copy`}
+        onSubmit={(name) => duplicateExistingPalette(palette.id, name)}
+      />,
+    );
+  };
+
+  // Handle switching the active palette
+  const handleSwitchPalette = async (palette: Palette) => {
+    try {
+      await switchPalette(palette.id);
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Palette Activated",
+        message: `New colors will be added to "${palette.name}"`,
+      });
+    } catch (error) {
+      console.error("Failed to switch palette:", error);
+
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to Switch Palette",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      });
+    }
+  };
+
+  // Handle deleting a palette with confirmation
+  const handleDeletePalette = async (palette: Palette) => {
+    const confirmed = await showDeleteConfirmation(palette.name, "palette");
+
+    if (confirmed) {
+      try {
+        await removePalette(palette.id);
+
+        await showToast({
+          style: Toast.Style.Success,
+          title: "Palette Deleted",
+          message: `"${palette.name}" and its ${palette.colors.length} colors have been removed`,
+        });
+      } catch (error) {
+        console.error("Failed to delete palette:", error);
+
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Failed to Delete Palette",
+          message:
+            error instanceof Error
+              ? error.message
+              : "An unexpected error occurred",
+        });
+      }
+    }
   };
 
   // Handle deleting color with confirmation and proper state management
-  const handleDeleteColor = async (color: ColorEntry) => {
+  const handleDeleteColor = async (palette: Palette, color: ColorEntry) => {
     const confirmed = await showDeleteConfirmation(color.name, "color");
 
     if (confirmed) {
       try {
-        await removeColor(color.index);
+        await removeColor(color.id, palette.id);
 
         await showToast({
           style: Toast.Style.Success,
@@ -67,21 +343,331 @@ export default function ColorList() {
     }
   };
 
+  // Restore the newest backup that still contains colors
+  const handleRestoreLatestBackup = async () => {
+    try {
+      const backup = await backupManager.findNewestValidBackup();
+
+      if (!backup) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "No Backup Available",
+          message: "There is no backup with colors to restore",
+        });
+        return;
+      }
+
+      await restoreBackup(backup.filePath);
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Backup Restored",
+        message: `Restored colors from ${new Date(backup.metadata.timestamp).toLocaleString()}`,
+      });
+    } catch (error) {
+      console.error("Failed to restore backup:", error);
+
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to Restore Backup",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      });
+    }
+  };
+
+  // Show what was recovered while loading the colors file
+  const handleShowRecoveryReport = (report: StoreLoadReport) => {
+    push(
+      <StoreRecoveryReport
+        report={report}
+        onRestoreBackup={handleRestoreLatestBackup}
+      />,
+    );
+  };
+
+  // Offer to restore a backup when the colors file was corrupted, or report
+  // entries that were dropped because they failed validation
+  useEffect(() => {
+    if (!loadReport) {
+      return;
+    }
+
+    const report = loadReport;
+    clearLoadReport();
+
+    const offerRecovery = async () => {
+      if (!report.corruptionReason) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: `Removed ${report.droppedEntries.length} Invalid Colors`,
+          message: "The original file was kept as a copy",
+          primaryAction: {
+            title: "Show Details",
+            onAction: () => handleShowRecoveryReport(report),
+          },
+        });
+        return;
+      }
+
+      const backup = await backupManager.findNewestValidBackup();
+
+      if (!backup) {
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Colors File Was Corrupted",
+          message: "No backup was found, the damaged file was kept aside",
+          primaryAction: {
+            title: "Show Details",
+            onAction: () => handleShowRecoveryReport(report),
+          },
+        });
+        return;
+      }
+
+      const confirmed = await showConfirmationModal({
+        title: "Colors File Was Corrupted",
+        message: `${report.corruptionReason}. The damaged file was kept aside. Restore the backup from ${new Date(
+          backup.metadata.timestamp,
+        ).toLocaleString()} with ${backup.metadata.colorCount} colors?`,
+        confirmTitle: "Restore Backup",
+        cancelTitle: "Start Empty",
+      });
+
+      if (confirmed) {
+        await handleRestoreLatestBackup();
+      }
+    };
+
+    offerRecovery().catch((error) => {
+      console.error("Failed to offer store recovery:", error);
+    });
+  }, [loadReport]);
+
   // Convert RGB values to Raycast Color for preview (requirement 3.1, 3.3)
   const getRgbColor = (color: ColorEntry): Color => {
-    const { r, g, b } = color.rgb;
-    // Convert RGB values to hex format for Raycast Color
-    const toHex = (value: number) => {
-      const hex = Math.max(0, Math.min(255, Math.round(value))).toString(16);
-      return hex.length === 1 ? "0" + hex : hex;
-    };
+    const { r, g, b, a } = color.rgb;
+    // Translucent colors keep their alpha in the tint
+    return rgbToRaycastColor(r, g, b, a);
+  };
+
+  // Detail pane with the color's values and its closest named color
+  const renderColorDetail = (color: ColorEntry) => {
+    const closestName = closestNames.get(color.id);
 
-    return `#${toHex(r)}${toHex(g)}${toHex(b)}` as Color;
+    return (
+      <List.Item.Detail
+        metadata={
+          <List.Item.Detail.Metadata>
+            <List.Item.Detail.Metadata.TagList title="Color">
+              <List.Item.Detail.Metadata.TagList.Item
+                text={formatHexString(color)}
+                color={getRgbColor(color)}
+              />
+            </List.Item.Detail.Metadata.TagList>
+            <List.Item.Detail.Metadata.Label
+              title="RGB"
+              text={formatAsRgb(color.rgb)}
+            />
+            <List.Item.Detail.Metadata.Label
+              title="OKLCH"
+              text={formatAsOklch(color.rgb)}
+            />
+            {color.precise && isOutOfSrgbGamut(color.precise) && (
+              <List.Item.Detail.Metadata.Label
+                title={PRECISE_COLOR_SPACE_LABELS[color.precise.space]}
+                text={formatAsColorFunction(color.rgb, color.precise)}
+              />
+            )}
+            {closestName && (
+              <List.Item.Detail.Metadata.Label
+                title="Closest To"
+                text={formatNamedColorMatch(closestName)}
+              />
+            )}
+            {color.description && (
+              <List.Item.Detail.Metadata.Label
+                title="Description"
+                text={color.description}
+              />
+            )}
+          </List.Item.Detail.Metadata>
+        }
+      />
+    );
   };
 
+  // Palette-level actions shared by every item of a section
+  const renderPaletteActions = (palette: Palette) => (
+    <ActionPanel.Section title={`Palette: ${palette.name}`}>
+      {palette.id !== activePaletteId && (
+        <Action
+          title="Set as Active Palette"
+          icon={Icon.CheckCircle}
+          onAction={() => handleSwitchPalette(palette)}
+        />
+      )}
+      <Action
+        title="New Palette"
+        icon={Icon.NewFolder}
+        onAction={handleCreatePalette}
+      />
+      <Action
+        title="Import Swatches"
+        icon={Icon.Download}
+        onAction={handleImportSwatches}
+      />
+      {palette.colors.length > 0 && (
+        <Action
+          title="Export as Adobe Swatch Exchange"
+          icon={Icon.Upload}
+          onAction={() =>
+            handleExportSwatches(palette.name, "ase", (filePath) =>
+              exportToASE(palette.colors, filePath, palette.name),
+            )
+          }
+        />
+      )}
+      {palette.colors.length > 0 && (
+        <Action
+          title="Export as Photoshop Swatches"
+          icon={Icon.Upload}
+          onAction={() =>
+            handleExportSwatches(palette.name, "aco", (filePath) =>
+              exportToACO(palette.colors, filePath),
+            )
+          }
+        />
+      )}
+      {palette.colors.length > 0 && (
+        <Action
+          // GIMP is a product name, not a word to title-case
+          // eslint-disable-next-line @raycast/prefer-title-case
+          title="Export as GIMP Palette"
+          icon={Icon.Upload}
+          onAction={() =>
+            handleExportSwatches(palette.name, "gpl", (filePath) =>
+              exportToGPL(palette.colors, filePath, palette.name),
+            )
+          }
+        />
+      )}
+      {palette.colors.length > 0 && (
+        <Action
+          title="Export as Design Tokens"
+          icon={Icon.Upload}
+          onAction={() =>
+            handleExportSwatches(palette.name, "tokens.json", (filePath) =>
+              exportToDesignTokens([palette], filePath),
+            )
+          }
+        />
+      )}
+      {palette.colors.length > 0 && (
+        <ActionPanel.Submenu
+          title="Export as Tailwind Theme"
+          icon={Icon.Upload}
+        >
+          {TAILWIND_THEME_FORMATS.map((format) => (
+            <Action
+              key={format}
+              title={TAILWIND_THEME_FORMAT_LABELS[format]}
+              onAction={() =>
+                handleExportSwatches(
+                  palette.name,
+                  TAILWIND_THEME_FILE_EXTENSIONS[format],
+                  (filePath) =>
+                    exportToTailwind(palette.colors, filePath, format),
+                )
+              }
+            />
+          ))}
+        </ActionPanel.Submenu>
+      )}
+      {palettes.length > 1 && (
+        <Action
+          title="Export All Palettes as Adobe Swatch Exchange"
+          icon={Icon.Upload}
+          onAction={() =>
+            handleExportSwatches("MyColor Palettes", "ase", (filePath) =>
+              exportPalettesToASE(palettes, filePath),
+            )
+          }
+        />
+      )}
+      {palettes.length > 1 && (
+        <Action
+          title="Export All Palettes as Design Tokens"
+          icon={Icon.Upload}
+          onAction={() =>
+            handleExportSwatches(
+              "MyColor Palettes",
+              "tokens.json",
+              (filePath) => exportToDesignTokens(palettes, filePath),
+            )
+          }
+        />
+      )}
+      {palettes.length > 1 && (
+        <ActionPanel.Submenu
+          title="Export All Palettes as Tailwind Theme"
+          icon={Icon.Upload}
+        >
+          {TAILWIND_THEME_FORMATS.map((format) => (
+            <Action
+              key={format}
+              title={TAILWIND_THEME_FORMAT_LABELS[format]}
+              onAction={() =>
+                handleExportSwatches(
+                  "MyColor Palettes",
+                  TAILWIND_THEME_FILE_EXTENSIONS[format],
+                  (filePath) =>
+                    exportPalettesToTailwind(palettes, filePath, format),
+                )
+              }
+            />
+          ))}
+        </ActionPanel.Submenu>
+      )}
+      {palette.colors.length > 1 && (
+        <Action
+          title="Accessibility Report"
+          icon={Icon.Eye}
+          onAction={() => handleShowAccessibilityReport(palette)}
+        />
+      )}
+      {palette.colors.length > 0 && (
+        <Action
+          title="Simulate Color Blindness"
+          icon={Icon.EyeDisabled}
+          onAction={() => handleSimulateVision(palette)}
+        />
+      )}
+      <Action
+        title="Rename Palette"
+        icon={Icon.Pencil}
+        onAction={() => handleRenamePalette(palette)}
+      />
+      <Action
+        title="Duplicate Palette"
+        icon={Icon.CopyClipboard}
+        onAction={() => handleDuplicatePalette(palette)}
+      />
+      <Action
+        title="Delete Palette"
+        icon={Icon.Trash}
+        style={Action.Style.Destructive}
+        onAction={() => handleDeletePalette(palette)}
+      />
+    </ActionPanel.Section>
+  );
+
   return (
     <List
       isLoading={isLoading}
+      isShowingDetail={isShowingDetail}
       searchBarPlaceholder={UI_TEXT.SEARCH_PLACEHOLDER}
       navigationTitle={UI_TEXT.NAVIGATION_TITLE}
       actions={
@@ -89,7 +675,17 @@ export default function ColorList() {
           <Action
             title="Add New Color"
             icon={Icon.Plus}
-            onAction={handleAddColor}
+            onAction={() => handleAddColor()}
+          />
+          <Action
+            title="New Palette"
+            icon={Icon.NewFolder}
+            onAction={handleCreatePalette}
+          />
+          <Action
+            title="Import Swatches"
+            icon={Icon.Download}
+            onAction={handleImportSwatches}
           />
           <Action
             title="Refresh Colors"
@@ -114,12 +710,12 @@ export default function ColorList() {
               <Action
                 title="Add New Color"
                 icon={Icon.Plus}
-                onAction={handleAddColor}
+                onAction={() => handleAddColor()}
               />
             </ActionPanel>
           }
         />
-      ) : colors.length === 0 && !isLoading ? (
+      ) : totalColors === 0 && palettes.length <= 1 && !isLoading ? (
         <List.EmptyView
           icon={Icon.Circle}
           title={UI_TEXT.EMPTY_STATE_TITLE}
@@ -129,7 +725,12 @@ export default function ColorList() {
               <Action
                 title="Add New Color"
                 icon={Icon.Plus}
-                onAction={handleAddColor}
+                onAction={() => handleAddColor()}
+              />
+              <Action
+                title="New Palette"
+                icon={Icon.NewFolder}
+                onAction={handleCreatePalette}
               />
               <Action
                 title="Refresh"
@@ -140,63 +741,150 @@ export default function ColorList() {
           }
         />
       ) : (
-        colors.map((color) => (
-          <List.Item
-            key={color.index}
-            title={color.name}
-            subtitle={formatHexString(color)}
-            icon={{
-              source: Icon.Circle,
-              tintColor: getRgbColor(color),
-            }}
-            accessories={[
-              {
-                text: formatHexString(color),
-                icon: {
-                  source: Icon.Circle,
-                  tintColor: getRgbColor(color),
-                },
-              },
-            ]}
-            actions={
-              <ActionPanel>
-                <ActionPanel.Section>
-                  <Action
-                    title="Copy Hex Color to Clipboard"
-                    icon={Icon.Clipboard}
-                    onAction={() => handleColorCopy(color)}
-                  />
-                </ActionPanel.Section>
-
-                <ActionPanel.Section>
-                  <Action
-                    title="Add New Color"
-                    icon={Icon.Plus}
-                    onAction={handleAddColor}
-                  />
-                  <Action
-                    title="Edit Color"
-                    icon={Icon.Pencil}
-                    onAction={() => handleEditColor(color)}
-                  />
-                  <Action
-                    title="Delete Color"
-                    icon={Icon.Trash}
-                    style={Action.Style.Destructive}
-                    onAction={() => handleDeleteColor(color)}
-                  />
-                </ActionPanel.Section>
-
-                <ActionPanel.Section>
-                  <Action
-                    title="Refresh Colors"
-                    icon={Icon.ArrowClockwise}
-                    onAction={refreshColors}
-                  />
-                </ActionPanel.Section>
-              </ActionPanel>
+        orderedPalettes.map((palette) => (
+          <List.Section
+            key={palette.id}
+            title={palette.name}
+            subtitle={
+              palette.id === activePaletteId
+                ? `${palette.colors.length} colors • Active`
+                : `${palette.colors.length} colors`
             }
-          />
+          >
+            {palette.colors.length === 0 ? (
+              <List.Item
+                key={`${palette.id}-empty`}
+                title={UI_TEXT.EMPTY_PALETTE_TITLE}
+                icon={Icon.Circle}
+                actions={
+                  <ActionPanel>
+                    <Action
+                      title="Add New Color"
+                      icon={Icon.Plus}
+                      onAction={() => handleAddColor(palette)}
+                    />
+                    {renderPaletteActions(palette)}
+                  </ActionPanel>
+                }
+              />
+            ) : (
+              palette.colors.map((color) => (
+                <List.Item
+                  key={color.id}
+                  title={color.name}
+                  subtitle={formatHexString(color)}
+                  keywords={[palette.name]}
+                  icon={{
+                    source: Icon.Circle,
+                    tintColor: getRgbColor(color),
+                  }}
+                  detail={
+                    isShowingDetail ? renderColorDetail(color) : undefined
+                  }
+                  accessories={[
+                    ...(color.precise && isOutOfSrgbGamut(color.precise)
+                      ? [
+                          {
+                            tag: {
+                              value:
+                                PRECISE_COLOR_SPACE_LABELS[color.precise.space],
+                              color: Color.Purple,
+                            },
+                            tooltip:
+                              "Outside the sRGB gamut, shown with its sRGB fallback",
+                          },
+                        ]
+                      : []),
+                    {
+                      text: formatHexString(color),
+                      icon: {
+                        source: Icon.Circle,
+                        tintColor: getRgbColor(color),
+                      },
+                    },
+                  ]}
+                  actions={
+                    <ActionPanel>
+                      <ActionPanel.Section>
+                        <Action
+                          title="Copy Hex Color to Clipboard"
+                          icon={Icon.Clipboard}
+                          onAction={() => handleColorCopy(color)}
+                        />
+                        <ActionPanel.Submenu
+                          title="Copy As…"
+                          icon={Icon.CopyClipboard}
+                        >
+                          {SUPPORTED_COLOR_FORMATS.map((format) => (
+                            <Action
+                              key={format}
+                              title={COLOR_FORMAT_LABELS[format]}
+                              onAction={() =>
+                                copyColorToClipboard(color, format)
+                              }
+                            />
+                          ))}
+                        </ActionPanel.Submenu>
+                        <Action
+                          title="Check Contrast"
+                          icon={Icon.Eye}
+                          onAction={() => handleCheckContrast(color)}
+                        />
+                        <Action
+                          title={
+                            isShowingDetail ? "Hide Details" : "Show Details"
+                          }
+                          icon={Icon.Sidebar}
+                          onAction={() => setIsShowingDetail(!isShowingDetail)}
+                        />
+                      </ActionPanel.Section>
+
+                      <ActionPanel.Section>
+                        <Action
+                          title="Add New Color"
+                          icon={Icon.Plus}
+                          onAction={() => handleAddColor(palette)}
+                        />
+                        <Action
+                          title="Generate Tonal Scale"
+                          icon={Icon.BarChart}
+                          onAction={() => handleGenerateScale(palette, color)}
+                        />
+                        <Action
+                          title="Generate Harmonies"
+                          icon={Icon.Swatch}
+                          onAction={() =>
+                            handleGenerateHarmonies(palette, color)
+                          }
+                        />
+                        <Action
+                          title="Edit Color"
+                          icon={Icon.Pencil}
+                          onAction={() => handleEditColor(palette, color)}
+                        />
+                        <Action
+                          title="Delete Color"
+                          icon={Icon.Trash}
+                          style={Action.Style.Destructive}
+                          onAction={() => handleDeleteColor(palette, color)}
+                        />
+                      </ActionPanel.Section>
+
+                      {renderPaletteActions(palette)}
+
+                      <ActionPanel.Section>
+                        <Action
+                          title="Refresh Colors"
+                          icon={Icon.ArrowClockwise}
+                          onAction={refreshColors}
+                        />
+                      </ActionPanel.Section>
+                    </ActionPanel>
+                  }
+                />
+              ))
+            )}
+          </List.Section>
         ))
       )}
     </List>
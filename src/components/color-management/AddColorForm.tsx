@@ -8,14 +8,37 @@ import {
   Icon,
 } from "@raycast/api";
 import { useState } from "react";
-import { ColorEntry } from "../../types";
+import { ColorEntry, PreciseColor, RGB } from "../../types";
 import { useColors, useColorValidation } from "../../hooks";
 import { formatErrorMessage } from "../../utils/errorUtils";
-import { hexToRgb, formatAsHex } from "../../utils/colorFormatUtils";
-import { getCurrentPreviewColor } from "../../utils/colorPreviewUtils";
+import {
+  formatAsColorFunction,
+  formatAsHex,
+} from "../../utils/colorFormatUtils";
+import { tryParseColorValue } from "../../utils/colorParserUtils";
+import {
+  findNearDuplicates,
+  formatDeltaE,
+} from "../../utils/colorDifferenceUtils";
+import {
+  NamedColorMatch,
+  findNearestNamedColor,
+  formatNamedColorMatch,
+} from "../../utils/namedColorUtils";
+import { showConfirmationModal } from "../shared";
+import {
+  PRECISE_COLOR_SPACE_LABELS,
+  isOutOfSrgbGamut,
+} from "../../utils/gamutUtils";
+import {
+  getCurrentPreviewColor,
+  parseAlphaPercent,
+  formatAlphaPercent,
+} from "../../utils/colorPreviewUtils";
 
 interface AddColorFormProps {
   onColorAdded: (colors: ColorEntry[]) => void;
+  paletteId?: string;
 }
 
 interface FormValues {
@@ -23,49 +46,90 @@ interface FormValues {
   red: string;
   green: string;
   blue: string;
+  alpha: string;
   hex: string;
 }
 
 /**
  * Form component for adding new colors to the collection
+ * Colors are added to the given palette, or the active palette by default
  * Includes validation for color names and RGB values
  */
-export default function AddColorForm({ onColorAdded }: AddColorFormProps) {
+export default function AddColorForm({
+  onColorAdded,
+  paletteId,
+}: AddColorFormProps) {
   const [isLoading, setIsLoading] = useState(false);
-  const [rgbValues, setRgbValues] = useState({ r: "", g: "", b: "" });
+  const [rgbValues, setRgbValues] = useState({
+    r: "",
+    g: "",
+    b: "",
+    a: "100",
+  });
   const [hexValue, setHexValue] = useState("");
-  const { addNewColor } = useColors();
+  const [precise, setPrecise] = useState<PreciseColor>();
+  const [name, setName] = useState("");
+  const [nameSuggestion, setNameSuggestion] = useState<NamedColorMatch>();
+  const { addNewColor, palettes, activePaletteId } = useColors();
   const { errors, validateForm, clearError } = useColorValidation();
 
   /**
-   * Handles hex input change and updates RGB values
+   * Suggests the nearest named color and fills it in as the name, unless the
+   * user has typed a name of their own
+   */
+  const updateNameSuggestion = (rgb: RGB) => {
+    const match = findNearestNamedColor(rgb);
+
+    if (name.trim() === "" || name === nameSuggestion?.namedColor.name) {
+      setName(match?.namedColor.name ?? "");
+    }
+    setNameSuggestion(match);
+  };
+
+  /**
+   * Handles color input change (hex or any CSS color) and updates RGB values
    */
   const handleHexChange = (value: string) => {
     setHexValue(value);
     clearError("hex");
 
-    // Convert hex to RGB if valid
-    const rgb = hexToRgb(value);
-    if (rgb) {
+    // Convert the color string to RGB if valid, keeping wide-gamut values
+    const parsed = tryParseColorValue(value);
+    setPrecise(parsed?.precise);
+
+    if (parsed) {
+      const { rgb } = parsed;
       setRgbValues({
         r: rgb.r.toString(),
         g: rgb.g.toString(),
         b: rgb.b.toString(),
+        a: formatAlphaPercent(rgb.a),
       });
+      updateNameSuggestion(rgb);
       // Clear RGB errors since we have valid values
       clearError("red");
       clearError("green");
       clearError("blue");
+      clearError("alpha");
     }
   };
 
   /**
-   * Handles RGB input change and updates hex value
+   * Handles RGB or alpha input change and updates hex value
+   * Changing a channel replaces a precise color, changing alpha keeps it
    */
-  const handleRgbChange = (field: "r" | "g" | "b", value: string) => {
+  const handleRgbChange = (field: "r" | "g" | "b" | "a", value: string) => {
     const newRgbValues = { ...rgbValues, [field]: value };
     setRgbValues(newRgbValues);
-    clearError(field === "r" ? "red" : field === "g" ? "green" : "blue");
+    clearError(
+      field === "r"
+        ? "red"
+        : field === "g"
+          ? "green"
+          : field === "b"
+            ? "blue"
+            : "alpha",
+    );
 
     // Update hex value if all RGB values are valid
     const r = parseInt(newRgbValues.r, 10);
@@ -83,8 +147,18 @@ export default function AddColorForm({ onColorAdded }: AddColorFormProps) {
       b >= 0 &&
       b <= 255
     ) {
-      const newHex = formatAsHex({ r, g, b });
-      setHexValue(newHex);
+      const newRgb = { r, g, b, a: parseAlphaPercent(newRgbValues.a) };
+      const keepPrecise = field === "a" && precise !== undefined;
+
+      setHexValue(
+        keepPrecise
+          ? formatAsColorFunction(newRgb, precise)
+          : formatAsHex(newRgb),
+      );
+      if (!keepPrecise) {
+        setPrecise(undefined);
+      }
+      updateNameSuggestion(newRgb);
       clearError("hex");
     }
   };
@@ -112,6 +186,7 @@ export default function AddColorForm({ onColorAdded }: AddColorFormProps) {
       red: rgbValues.r,
       green: rgbValues.g,
       blue: rgbValues.b,
+      alpha: rgbValues.a,
       hex: hexValue,
     };
 
@@ -122,15 +197,42 @@ export default function AddColorForm({ onColorAdded }: AddColorFormProps) {
       return;
     }
 
+    const rgb: RGB = {
+      r: parseInt(rgbValues.r, 10),
+      g: parseInt(rgbValues.g, 10),
+      b: parseInt(rgbValues.b, 10),
+      a: parseAlphaPercent(rgbValues.a),
+    };
+
+    // Warn before storing a color that looks the same as an existing one
+    const targetId = paletteId ?? activePaletteId;
+    const [closest] = findNearDuplicates(
+      rgb,
+      palettes.find((palette) => palette.id === targetId)?.colors ?? [],
+    );
+
+    if (closest) {
+      const confirmed = await showConfirmationModal({
+        title: "Similar Color Exists",
+        message: `"${closest.color.name}" (${formatAsHex(closest.color.rgb)}) is nearly identical (${formatDeltaE(closest.deltaE)}). Add this color anyway?`,
+        confirmTitle: "Add Anyway",
+      });
+
+      if (!confirmed) {
+        return;
+      }
+    }
+
     try {
       setIsLoading(true);
 
       // Add the color using the hook
-      const updatedColors = await addNewColor(values.name.trim(), {
-        r: parseInt(rgbValues.r, 10),
-        g: parseInt(rgbValues.g, 10),
-        b: parseInt(rgbValues.b, 10),
-      });
+      const updatedColors = await addNewColor(
+        values.name.trim(),
+        rgb,
+        paletteId,
+        precise,
+      );
 
       // Show success message
       await showToast({
@@ -168,10 +270,21 @@ export default function AddColorForm({ onColorAdded }: AddColorFormProps) {
         id="name"
         title="Color Name"
         placeholder="Enter color name (e.g., Primary Blue)"
+        value={name}
         error={errors.name}
-        onChange={() => clearError("name")}
+        onChange={(value) => {
+          setName(value);
+          clearError("name");
+        }}
       />
 
+      {nameSuggestion && (
+        <Form.Description
+          title="Closest Name"
+          text={formatNamedColorMatch(nameSuggestion)}
+        />
+      )}
+
       <Form.Dropdown
         id="colorPreview"
         title="Color Preview"
@@ -192,13 +305,20 @@ export default function AddColorForm({ onColorAdded }: AddColorFormProps) {
 
       <Form.TextField
         id="hex"
-        title="Hex Color Code"
-        placeholder="#FF5A5A or #F5A"
+        title="Color Value"
+        placeholder="#FF5A5A80, rgb(255 90 90 / 50%), oklch(70% 0.18 25) or tomato"
         value={hexValue}
         error={errors.hex}
         onChange={handleHexChange}
       />
 
+      {precise && isOutOfSrgbGamut(precise) && (
+        <Form.Description
+          title="Wide Gamut"
+          text={`${PRECISE_COLOR_SPACE_LABELS[precise.space]} color outside sRGB. The RGB fields hold its gamut-mapped sRGB fallback.`}
+        />
+      )}
+
       <Form.Separator />
 
       <Form.TextField
@@ -227,6 +347,15 @@ export default function AddColorForm({ onColorAdded }: AddColorFormProps) {
         error={errors.blue}
         onChange={(value) => handleRgbChange("b", value)}
       />
+
+      <Form.TextField
+        id="alpha"
+        title="Alpha (0-100%)"
+        placeholder="100"
+        value={rgbValues.a}
+        error={errors.alpha}
+        onChange={(value) => handleRgbChange("a", value)}
+      />
     </Form>
   );
 }
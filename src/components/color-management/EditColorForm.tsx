@@ -8,15 +8,28 @@ import {
   Icon,
 } from "@raycast/api";
 import { useState } from "react";
-import { ColorEntry } from "../../types";
+import { ColorEntry, PreciseColor } from "../../types";
 import { useColors, useColorValidation } from "../../hooks";
 import { formatErrorMessage } from "../../utils/errorUtils";
-import { hexToRgb, formatAsHex } from "../../utils/colorFormatUtils";
-import { getCurrentPreviewColor } from "../../utils/colorPreviewUtils";
+import {
+  formatAsColorFunction,
+  formatAsHex,
+} from "../../utils/colorFormatUtils";
+import { tryParseColorValue } from "../../utils/colorParserUtils";
+import {
+  PRECISE_COLOR_SPACE_LABELS,
+  isOutOfSrgbGamut,
+} from "../../utils/gamutUtils";
+import {
+  getCurrentPreviewColor,
+  parseAlphaPercent,
+  formatAlphaPercent,
+} from "../../utils/colorPreviewUtils";
 
 interface EditColorFormProps {
   color: ColorEntry;
   onColorEdited: (colors: ColorEntry[]) => void;
+  paletteId?: string;
 }
 
 interface FormValues {
@@ -24,6 +37,7 @@ interface FormValues {
   red: string;
   green: string;
   blue: string;
+  alpha: string;
   hex: string;
 }
 
@@ -34,46 +48,70 @@ interface FormValues {
 export default function EditColorForm({
   color,
   onColorEdited,
+  paletteId,
 }: EditColorFormProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [rgbValues, setRgbValues] = useState({
     r: color.rgb.r.toString(),
     g: color.rgb.g.toString(),
     b: color.rgb.b.toString(),
+    a: formatAlphaPercent(color.rgb.a),
   });
-  const [hexValue, setHexValue] = useState(formatAsHex(color.rgb));
+  // Precise colors are edited in their own space so they survive a save
+  const [hexValue, setHexValue] = useState(
+    color.precise
+      ? formatAsColorFunction(color.rgb, color.precise)
+      : formatAsHex(color.rgb),
+  );
+  const [precise, setPrecise] = useState<PreciseColor | undefined>(
+    color.precise,
+  );
   const { updateColor } = useColors();
   const { errors, validateForm, clearError } = useColorValidation();
 
   /**
-   * Handles hex input change and updates RGB values
+   * Handles color input change (hex or any CSS color) and updates RGB values
    */
   const handleHexChange = (value: string) => {
     setHexValue(value);
     clearError("hex");
 
-    // Convert hex to RGB if valid
-    const rgb = hexToRgb(value);
-    if (rgb) {
+    // Convert the color string to RGB if valid, keeping wide-gamut values
+    const parsed = tryParseColorValue(value);
+    setPrecise(parsed?.precise);
+
+    if (parsed) {
+      const { rgb } = parsed;
       setRgbValues({
         r: rgb.r.toString(),
         g: rgb.g.toString(),
         b: rgb.b.toString(),
+        a: formatAlphaPercent(rgb.a),
       });
       // Clear RGB errors since we have valid values
       clearError("red");
       clearError("green");
       clearError("blue");
+      clearError("alpha");
     }
   };
 
   /**
-   * Handles RGB input change and updates hex value
+   * Handles RGB or alpha input change and updates hex value
+   * Changing a channel replaces a precise color, changing alpha keeps it
    */
-  const handleRgbChange = (field: "r" | "g" | "b", value: string) => {
+  const handleRgbChange = (field: "r" | "g" | "b" | "a", value: string) => {
     const newRgbValues = { ...rgbValues, [field]: value };
     setRgbValues(newRgbValues);
-    clearError(field === "r" ? "red" : field === "g" ? "green" : "blue");
+    clearError(
+      field === "r"
+        ? "red"
+        : field === "g"
+          ? "green"
+          : field === "b"
+            ? "blue"
+            : "alpha",
+    );
 
     // Update hex value if all RGB values are valid
     const r = parseInt(newRgbValues.r, 10);
@@ -91,8 +129,17 @@ export default function EditColorForm({
       b >= 0 &&
       b <= 255
     ) {
-      const newHex = formatAsHex({ r, g, b });
-      setHexValue(newHex);
+      const newRgb = { r, g, b, a: parseAlphaPercent(newRgbValues.a) };
+      const keepPrecise = field === "a" && precise !== undefined;
+
+      setHexValue(
+        keepPrecise
+          ? formatAsColorFunction(newRgb, precise)
+          : formatAsHex(newRgb),
+      );
+      if (!keepPrecise) {
+        setPrecise(undefined);
+      }
       clearError("hex");
     }
   };
@@ -107,6 +154,7 @@ export default function EditColorForm({
       red: rgbValues.r,
       green: rgbValues.g,
       blue: rgbValues.b,
+      alpha: rgbValues.a,
       hex: hexValue,
     };
 
@@ -121,11 +169,18 @@ export default function EditColorForm({
       setIsLoading(true);
 
       // Edit the color using the hook
-      const updatedColors = await updateColor(color.index, values.name.trim(), {
-        r: parseInt(rgbValues.r, 10),
-        g: parseInt(rgbValues.g, 10),
-        b: parseInt(rgbValues.b, 10),
-      });
+      const updatedColors = await updateColor(
+        color.id,
+        values.name.trim(),
+        {
+          r: parseInt(rgbValues.r, 10),
+          g: parseInt(rgbValues.g, 10),
+          b: parseInt(rgbValues.b, 10),
+          a: parseAlphaPercent(rgbValues.a),
+        },
+        paletteId,
+        precise,
+      );
 
       // Show success message
       await showToast({
@@ -188,13 +243,20 @@ export default function EditColorForm({
 
       <Form.TextField
         id="hex"
-        title="Hex Color Code"
-        placeholder="#FF5A5A or #F5A"
+        title="Color Value"
+        placeholder="#FF5A5A80, rgb(255 90 90 / 50%), oklch(70% 0.18 25) or tomato"
         value={hexValue}
         error={errors.hex}
         onChange={handleHexChange}
       />
 
+      {precise && isOutOfSrgbGamut(precise) && (
+        <Form.Description
+          title="Wide Gamut"
+          text={`${PRECISE_COLOR_SPACE_LABELS[precise.space]} color outside sRGB. The RGB fields hold its gamut-mapped sRGB fallback.`}
+        />
+      )}
+
       <Form.Separator />
 
       <Form.TextField
@@ -223,6 +285,15 @@ export default function EditColorForm({
         error={errors.blue}
         onChange={(value) => handleRgbChange("b", value)}
       />
+
+      <Form.TextField
+        id="alpha"
+        title="Alpha (0-100%)"
+        placeholder="100"
+        value={rgbValues.a}
+        error={errors.alpha}
+        onChange={(value) => handleRgbChange("a", value)}
+      />
     </Form>
   );
 }
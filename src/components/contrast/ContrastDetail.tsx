@@ -0,0 +1,154 @@
+import { Detail, ActionPanel, Action, Icon, useNavigation } from "@raycast/api";
+import { ColorEntry, RGB } from "../../types";
+import {
+  WCAG_THRESHOLDS,
+  checkContrast,
+  formatContrastRatio,
+} from "../../utils/contrastUtils";
+import { formatAsHex } from "../../utils/colorFormatUtils";
+import { rgbToRaycastColor } from "../../utils/colorPreviewUtils";
+
+interface ContrastDetailProps {
+  color: ColorEntry;
+  compareWith?: ColorEntry; // Compared against white and black when omitted
+  colors: ColorEntry[]; // Colors offered for comparison
+}
+
+/**
+ * Named color taking part in a contrast check
+ */
+interface ContrastSwatch {
+  name: string;
+  rgb: RGB;
+}
+
+const WHITE: ContrastSwatch = {
+  name: "White",
+  rgb: { r: 255, g: 255, b: 255 },
+};
+const BLACK: ContrastSwatch = { name: "Black", rgb: { r: 0, g: 0, b: 0 } };
+
+/**
+ * Formats a pass/fail cell
+ */
+function formatResult(passes: boolean): string {
+  return passes ? "✅ Pass" : "❌ Fail";
+}
+
+/**
+ * Formats the APCA value of text on a background, e.g. "Lc 68.5"
+ */
+function formatApca(text: ContrastSwatch, background: ContrastSwatch): string {
+  const { apcaLc, apcaUsage } = checkContrast(text.rgb, background.rgb);
+  return `| ${text.name} text on ${background.name} | Lc ${apcaLc.toFixed(1)} | ${apcaUsage} |`;
+}
+
+/**
+ * Markdown section with WCAG and APCA results for one pair of colors
+ * The WCAG ratio is symmetric, APCA is shown for both text/background roles
+ */
+function formatPairSection(
+  first: ContrastSwatch,
+  second: ContrastSwatch,
+): string {
+  const { ratio, wcag } = checkContrast(first.rgb, second.rgb);
+
+  return [
+    `## ${first.name} and ${second.name}`,
+    `**WCAG 2.1 contrast ratio: ${formatContrastRatio(ratio)}**`,
+    "| Level | Required | Result |",
+    "| --- | --- | --- |",
+    `| AA normal text | ${WCAG_THRESHOLDS.AA_NORMAL}:1 | ${formatResult(wcag.aaNormal)} |`,
+    `| AA large text | ${WCAG_THRESHOLDS.AA_LARGE}:1 | ${formatResult(wcag.aaLarge)} |`,
+    `| AAA normal text | ${WCAG_THRESHOLDS.AAA_NORMAL}:1 | ${formatResult(wcag.aaaNormal)} |`,
+    `| AAA large text | ${WCAG_THRESHOLDS.AAA_LARGE}:1 | ${formatResult(wcag.aaaLarge)} |`,
+    "**APCA lightness contrast**",
+    "| Pairing | Lc | Sufficient for |",
+    "| --- | --- | --- |",
+    formatApca(first, second),
+    formatApca(second, first),
+  ].join("\n\n");
+}
+
+/**
+ * Detail view with WCAG 2.1 and APCA contrast results for a color
+ * Compares the color against white and black, or against another color
+ */
+export default function ContrastDetail({
+  color,
+  compareWith,
+  colors,
+}: ContrastDetailProps) {
+  const { push } = useNavigation();
+  const swatch: ContrastSwatch = { name: color.name, rgb: color.rgb };
+  const partners: ContrastSwatch[] = compareWith
+    ? [{ name: compareWith.name, rgb: compareWith.rgb }]
+    : [WHITE, BLACK];
+
+  const markdown = [
+    `# Contrast: ${color.name}`,
+    "Large text is at least 18pt, or 14pt bold. Translucent colors are composited over their background first.",
+    ...partners.map((partner) => formatPairSection(swatch, partner)),
+  ].join("\n\n");
+
+  const otherColors = colors.filter(
+    (candidate) =>
+      candidate.id !== color.id && candidate.id !== compareWith?.id,
+  );
+
+  return (
+    <Detail
+      navigationTitle={`Contrast: ${color.name}`}
+      markdown={markdown}
+      metadata={
+        <Detail.Metadata>
+          {[swatch, ...partners].map((item, index) => (
+            <Detail.Metadata.TagList key={index} title={item.name}>
+              <Detail.Metadata.TagList.Item
+                text={formatAsHex(item.rgb)}
+                color={rgbToRaycastColor(
+                  item.rgb.r,
+                  item.rgb.g,
+                  item.rgb.b,
+                  item.rgb.a,
+                )}
+              />
+            </Detail.Metadata.TagList>
+          ))}
+        </Detail.Metadata>
+      }
+      actions={
+        <ActionPanel>
+          {otherColors.length > 0 && (
+            <ActionPanel.Submenu title="Compare With…" icon={Icon.Switch}>
+              {otherColors.map((candidate) => (
+                <Action
+                  key={candidate.id}
+                  title={candidate.name}
+                  onAction={() =>
+                    push(
+                      <ContrastDetail
+                        color={color}
+                        compareWith={candidate}
+                        colors={colors}
+                      />,
+                    )
+                  }
+                />
+              ))}
+            </ActionPanel.Submenu>
+          )}
+          {compareWith && (
+            <Action
+              title="Compare with White and Black"
+              icon={Icon.CircleProgress50}
+              onAction={() =>
+                push(<ContrastDetail color={color} colors={colors} />)
+              }
+            />
+          )}
+        </ActionPanel>
+      }
+    />
+  );
+}
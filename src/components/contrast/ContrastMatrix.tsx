@@ -0,0 +1,128 @@
+import {
+  Detail,
+  ActionPanel,
+  Action,
+  Icon,
+  showInFinder,
+  showToast,
+  Toast,
+} from "@raycast/api";
+import { useState } from "react";
+import { Palette } from "../../types";
+import { WCAG_LEVELS, WcagLevel } from "../../utils/contrastUtils";
+import {
+  REPORT_FILE_EXTENSIONS,
+  ReportFormat,
+  buildContrastMatrix,
+  formatContrastMatrixAsHtml,
+  formatContrastMatrixAsMarkdown,
+} from "../../utils/accessibilityReportUtils";
+import { exportAccessibilityReport } from "../../utils/importExportUtils";
+import { getFreeExportPath } from "../../utils/fileSystemUtils";
+
+interface ContrastMatrixProps {
+  palette: Palette;
+}
+
+/**
+ * Labels of the minimum level filter
+ */
+const MINIMUM_LEVEL_LABELS: Record<WcagLevel, string> = {
+  AAA: "AAA (7:1)",
+  AA: "AA (4.5:1)",
+  "AA Large": "AA Large Text (3:1)",
+  Fail: "Show Failing Pairs",
+};
+
+/**
+ * Detail view with the text × background contrast matrix of a palette
+ * Failing pairs are filtered out; the report can be copied or saved as
+ * Markdown or HTML
+ */
+export default function ContrastMatrix({ palette }: ContrastMatrixProps) {
+  const [minimumLevel, setMinimumLevel] = useState<WcagLevel>("AA Large");
+  const matrix = buildContrastMatrix(palette.colors, minimumLevel);
+  const markdown = formatContrastMatrixAsMarkdown(matrix, palette.name);
+
+  // Save the report to the export directory
+  const handleSaveReport = async (format: ReportFormat) => {
+    try {
+      const filePath = await getFreeExportPath(
+        `${palette.name} accessibility`,
+        REPORT_FILE_EXTENSIONS[format],
+      );
+
+      await exportAccessibilityReport(
+        palette.colors,
+        filePath,
+        format,
+        palette.name,
+        minimumLevel,
+      );
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Report Saved",
+        message: filePath,
+        primaryAction: {
+          title: "Show in Finder",
+          onAction: () => showInFinder(filePath),
+        },
+      });
+    } catch (error) {
+      console.error("Failed to save accessibility report:", error);
+
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to Save Report",
+        message:
+          error instanceof Error
+            ? error.message
+            : "An unexpected error occurred",
+      });
+    }
+  };
+
+  return (
+    <Detail
+      navigationTitle={`Accessibility: ${palette.name}`}
+      markdown={markdown}
+      actions={
+        <ActionPanel>
+          <ActionPanel.Section>
+            <ActionPanel.Submenu title="Minimum Level" icon={Icon.Filter}>
+              {WCAG_LEVELS.map((level) => (
+                <Action
+                  key={level}
+                  title={MINIMUM_LEVEL_LABELS[level]}
+                  icon={level === minimumLevel ? Icon.Checkmark : undefined}
+                  onAction={() => setMinimumLevel(level)}
+                />
+              ))}
+            </ActionPanel.Submenu>
+          </ActionPanel.Section>
+          <ActionPanel.Section>
+            <Action.CopyToClipboard
+              title="Copy Report as Markdown"
+              content={markdown}
+            />
+            <Action.CopyToClipboard
+              title="Copy Report as Web Page"
+              content={formatContrastMatrixAsHtml(matrix, palette.name)}
+            />
+            <Action
+              title="Save Report as Markdown"
+              icon={Icon.Download}
+              onAction={() => handleSaveReport("markdown")}
+            />
+            <Action
+              title="Save Report as Web Page"
+              icon={Icon.Download}
+              onAction={() => handleSaveReport("html")}
+            />
+          </ActionPanel.Section>
+        </ActionPanel>
+      }
+    />
+  );
+}
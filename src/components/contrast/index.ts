@@ -0,0 +1,3 @@
+// Re-export contrast components
+export { default as ContrastDetail } from "./ContrastDetail";
+export { default as ContrastMatrix } from "./ContrastMatrix";
@@ -0,0 +1,232 @@
+import {
+  List,
+  ActionPanel,
+  Action,
+  Icon,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { useState } from "react";
+import { ColorEntry, Palette, RGB } from "../../types";
+import {
+  HARMONY_HUE_OFFSETS,
+  HARMONY_MODE_LABELS,
+  HARMONY_SCHEMES,
+  HARMONY_SCHEME_LABELS,
+  HarmonyMode,
+  HarmonyScheme,
+  formatHarmonyColorName,
+  generateHarmony,
+} from "../../utils/harmonyUtils";
+import { formatAsHex } from "../../utils/colorFormatUtils";
+import { rgbToRaycastColor } from "../../utils/colorPreviewUtils";
+import { formatErrorMessage } from "../../utils/errorUtils";
+import { addColors } from "../../services/colorService";
+
+interface HarmonyListProps {
+  color: ColorEntry;
+  palette: Palette; // Palette the picked colors are added to
+  onColorsAdded: () => void;
+}
+
+/**
+ * Harmony color shown in the list
+ */
+interface HarmonyItem {
+  key: string;
+  name: string;
+  rgb: RGB;
+  hueOffset: number;
+}
+
+/**
+ * Shows the harmonies of a color on the HSL or OKLCH hue wheel
+ * Colors are picked across schemes and added to the palette together
+ */
+export default function HarmonyList({
+  color,
+  palette,
+  onColorsAdded,
+}: HarmonyListProps) {
+  const { pop } = useNavigation();
+  const [mode, setMode] = useState<HarmonyMode>("oklch");
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const harmonies = HARMONY_SCHEMES.map((scheme) => ({
+    scheme,
+    items: generateHarmony(color.rgb, scheme, mode).map(
+      ({ rgb, hueOffset }): HarmonyItem => ({
+        key: `${scheme}:${hueOffset}`,
+        name: formatHarmonyColorName(color.name, scheme, hueOffset),
+        rgb,
+        hueOffset,
+      }),
+    ),
+  }));
+  const selectedItems = harmonies
+    .flatMap(({ items }) => items)
+    .filter((item) => selectedKeys.includes(item.key));
+
+  // Handle switching the hue wheel; picked colors would change, so start over
+  const handleModeChange = (value: string) => {
+    setMode(value as HarmonyMode);
+    setSelectedKeys([]);
+  };
+
+  // Handle picking or unpicking a color
+  const toggleSelection = (key: string) => {
+    setSelectedKeys((keys) =>
+      keys.includes(key) ? keys.filter((item) => item !== key) : [...keys, key],
+    );
+  };
+
+  // Handle picking every color of a scheme
+  const selectScheme = (scheme: HarmonyScheme) => {
+    const keys = HARMONY_HUE_OFFSETS[scheme].map(
+      (hueOffset) => `${scheme}:${hueOffset}`,
+    );
+    setSelectedKeys((current) => [
+      ...current,
+      ...keys.filter((key) => !current.includes(key)),
+    ]);
+  };
+
+  // Add colors to the palette of the base color
+  const handleAddColors = async (items: HarmonyItem[]) => {
+    try {
+      setIsLoading(true);
+
+      // One locked save, so either every picked color is added or none is
+      await addColors(
+        items.map(({ name, rgb }) => ({ name, rgb })),
+        palette.id,
+      );
+      onColorsAdded();
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: items.length === 1 ? "Color Added" : "Colors Added",
+        message: `${items.length} ${items.length === 1 ? "color" : "colors"} added to "${palette.name}"`,
+      });
+
+      pop();
+    } catch (error) {
+      console.error("Failed to add harmony colors:", error);
+
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to Add Colors",
+        message: formatErrorMessage(error),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={`Harmonies: ${color.name}`}
+      searchBarAccessory={
+        <List.Dropdown
+          tooltip="Hue Wheel"
+          value={mode}
+          onChange={handleModeChange}
+        >
+          {(Object.keys(HARMONY_MODE_LABELS) as HarmonyMode[]).map((item) => (
+            <List.Dropdown.Item
+              key={item}
+              title={HARMONY_MODE_LABELS[item]}
+              value={item}
+            />
+          ))}
+        </List.Dropdown>
+      }
+    >
+      {harmonies.map(({ scheme, items }) => (
+        <List.Section
+          key={scheme}
+          title={HARMONY_SCHEME_LABELS[scheme]}
+          subtitle={`${HARMONY_HUE_OFFSETS[scheme].length + 1} colors`}
+        >
+          {items.map((item) => {
+            const isSelected = selectedKeys.includes(item.key);
+
+            return (
+              <List.Item
+                key={item.key}
+                title={item.name}
+                subtitle={formatAsHex(item.rgb)}
+                keywords={[HARMONY_SCHEME_LABELS[scheme]]}
+                icon={{
+                  source: Icon.CircleFilled,
+                  tintColor: rgbToRaycastColor(
+                    item.rgb.r,
+                    item.rgb.g,
+                    item.rgb.b,
+                    item.rgb.a,
+                  ),
+                }}
+                accessories={[
+                  {
+                    text: `${item.hueOffset > 0 ? "+" : ""}${item.hueOffset}°`,
+                    tooltip: "Hue offset from the base color",
+                  },
+                  ...(isSelected
+                    ? [{ icon: Icon.CheckCircle, tooltip: "Selected" }]
+                    : []),
+                ]}
+                actions={
+                  <ActionPanel>
+                    <ActionPanel.Section>
+                      <Action
+                        title={isSelected ? "Deselect Color" : "Select Color"}
+                        icon={isSelected ? Icon.Circle : Icon.CheckCircle}
+                        onAction={() => toggleSelection(item.key)}
+                      />
+                      {selectedItems.length > 0 ? (
+                        <Action
+                          title={`Add ${selectedItems.length} Selected to ${palette.name}`}
+                          icon={Icon.Plus}
+                          shortcut={{ modifiers: ["cmd"], key: "s" }}
+                          onAction={() => handleAddColors(selectedItems)}
+                        />
+                      ) : (
+                        <Action
+                          title={`Add Color to ${palette.name}`}
+                          icon={Icon.Plus}
+                          shortcut={{ modifiers: ["cmd"], key: "s" }}
+                          onAction={() => handleAddColors([item])}
+                        />
+                      )}
+                    </ActionPanel.Section>
+                    <ActionPanel.Section>
+                      <Action
+                        title={`Select All ${HARMONY_SCHEME_LABELS[scheme]}`}
+                        icon={Icon.CheckList}
+                        onAction={() => selectScheme(scheme)}
+                      />
+                      {selectedKeys.length > 0 && (
+                        <Action
+                          title="Clear Selection"
+                          icon={Icon.XMarkCircle}
+                          onAction={() => setSelectedKeys([])}
+                        />
+                      )}
+                      <Action.CopyToClipboard
+                        title="Copy Hex Color"
+                        content={formatAsHex(item.rgb)}
+                      />
+                    </ActionPanel.Section>
+                  </ActionPanel>
+                }
+              />
+            );
+          })}
+        </List.Section>
+      ))}
+    </List>
+  );
+}
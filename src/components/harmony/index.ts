@@ -0,0 +1,2 @@
+// Re-export harmony components
+export { default as HarmonyList } from "./HarmonyList";
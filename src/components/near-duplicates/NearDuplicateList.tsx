@@ -0,0 +1,231 @@
+import {
+  List,
+  ActionPanel,
+  Action,
+  Icon,
+  Color,
+  Alert,
+  showToast,
+  Toast,
+} from "@raycast/api";
+import { useState } from "react";
+import { ColorEntry, Palette, PreciseColor, RGB } from "../../types";
+import { useColors } from "../../hooks";
+import {
+  DELTA_E_METHODS,
+  DELTA_E_METHOD_LABELS,
+  DeltaEMethod,
+  NEAR_DUPLICATE_THRESHOLDS,
+  formatDeltaE,
+  getDeltaE,
+  groupNearDuplicates,
+  isNearDuplicate,
+} from "../../utils/colorDifferenceUtils";
+import { formatAsHex } from "../../utils/colorFormatUtils";
+import { rgbToRaycastColor } from "../../utils/colorPreviewUtils";
+import { formatErrorMessage } from "../../utils/errorUtils";
+import { UI_TEXT } from "../../constants/appConstants";
+import { showConfirmationModal } from "../shared";
+
+/**
+ * Color of the collection together with the palette holding it
+ */
+interface CollectionColor {
+  rgb: RGB;
+  precise?: PreciseColor;
+  color: ColorEntry;
+  palette: Palette;
+}
+
+/**
+ * Lists groups of perceptually near-identical colors across all palettes
+ * and proposes merging each group into the color the user keeps
+ */
+export default function NearDuplicateList() {
+  const [method, setMethod] = useState<DeltaEMethod>("ciede2000");
+  const { palettes, isLoading, error, removeColors, refreshColors } =
+    useColors();
+
+  const collection: CollectionColor[] = palettes.flatMap((palette) =>
+    palette.colors.map((color) => ({
+      rgb: color.rgb,
+      precise: color.precise,
+      color,
+      palette,
+    })),
+  );
+  const groups = groupNearDuplicates(collection, method);
+
+  // Keep one color of a group and delete the others that are near-identical
+  // to it; group members are only compared with the group's first color, so
+  // some may be too far from the kept one
+  const handleMerge = async (
+    keep: CollectionColor,
+    group: CollectionColor[],
+  ) => {
+    const others = group.filter((item) => item.color.id !== keep.color.id);
+    const duplicates = others.filter((item) =>
+      isNearDuplicate(keep, item, method),
+    );
+    const kept = others.filter((item) => !duplicates.includes(item));
+    const listNames = (items: CollectionColor[]) =>
+      items.map((item) => `"${item.color.name}"`).join(", ");
+
+    if (duplicates.length === 0) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Nothing to Merge",
+        message: `No color of the group is near-identical to "${keep.color.name}"`,
+      });
+      return;
+    }
+
+    const confirmed = await showConfirmationModal({
+      title: `Merge into "${keep.color.name}"`,
+      message: `Delete ${listNames(duplicates)} and keep "${keep.color.name}"?${
+        kept.length > 0
+          ? ` ${listNames(kept)} differ too much from it and stay.`
+          : ""
+      }`,
+      confirmTitle: "Merge",
+      confirmStyle: Alert.ActionStyle.Destructive,
+    });
+
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      // One deletion per palette so each palette is saved once
+      const byPalette = new Map<string, string[]>();
+      duplicates.forEach((item) => {
+        byPalette.set(item.palette.id, [
+          ...(byPalette.get(item.palette.id) ?? []),
+          item.color.id,
+        ]);
+      });
+
+      for (const [paletteId, colorIds] of byPalette) {
+        await removeColors(colorIds, paletteId);
+      }
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Colors Merged",
+        message: `Kept "${keep.color.name}", removed ${duplicates.length} similar colors`,
+      });
+    } catch (error) {
+      console.error("Failed to merge colors:", error);
+
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to Merge Colors",
+        message: formatErrorMessage(error),
+      });
+    }
+  };
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle="Near-Duplicate Colors"
+      searchBarPlaceholder={UI_TEXT.SEARCH_PLACEHOLDER}
+      searchBarAccessory={
+        <List.Dropdown
+          tooltip="Color Difference Formula"
+          value={method}
+          onChange={(value) => setMethod(value as DeltaEMethod)}
+        >
+          {DELTA_E_METHODS.map((item) => (
+            <List.Dropdown.Item
+              key={item}
+              title={DELTA_E_METHOD_LABELS[item]}
+              value={item}
+            />
+          ))}
+        </List.Dropdown>
+      }
+    >
+      {error ? (
+        <List.EmptyView
+          icon={Icon.ExclamationMark}
+          title={UI_TEXT.ERROR_STATE_TITLE}
+          description={error}
+          actions={
+            <ActionPanel>
+              <Action
+                title="Retry Loading Colors"
+                icon={Icon.ArrowClockwise}
+                onAction={refreshColors}
+              />
+            </ActionPanel>
+          }
+        />
+      ) : groups.length === 0 ? (
+        <List.EmptyView
+          icon={Icon.CheckCircle}
+          title="No Near-Duplicates"
+          description={`No two colors are closer than ${formatDeltaE(NEAR_DUPLICATE_THRESHOLDS[method], method)} (${DELTA_E_METHOD_LABELS[method]})`}
+        />
+      ) : (
+        groups.map((group, groupIndex) => (
+          <List.Section
+            key={group.map((item) => item.color.id).join("-")}
+            title={`Group ${groupIndex + 1}`}
+            subtitle={`${group.length} colors`}
+          >
+            {group.map((item) => (
+              <List.Item
+                key={item.color.id}
+                title={item.color.name}
+                subtitle={formatAsHex(item.rgb)}
+                keywords={[item.palette.name]}
+                icon={{
+                  source: Icon.Circle,
+                  tintColor: rgbToRaycastColor(
+                    item.rgb.r,
+                    item.rgb.g,
+                    item.rgb.b,
+                    item.rgb.a,
+                  ),
+                }}
+                accessories={[
+                  ...(item === group[0]
+                    ? []
+                    : [
+                        {
+                          text: formatDeltaE(
+                            getDeltaE(group[0].rgb, item.rgb, method),
+                            method,
+                          ),
+                          tooltip: `Difference from "${group[0].color.name}"`,
+                        },
+                      ]),
+                  { tag: { value: item.palette.name, color: Color.Blue } },
+                ]}
+                actions={
+                  <ActionPanel>
+                    <Action
+                      title={`Merge into "${item.color.name}"`}
+                      icon={Icon.Switch}
+                      onAction={() => handleMerge(item, group)}
+                    />
+                    <Action.CopyToClipboard
+                      title="Copy Hex Color"
+                      content={formatAsHex(item.rgb)}
+                    />
+                    <Action
+                      title="Refresh Colors"
+                      icon={Icon.ArrowClockwise}
+                      onAction={refreshColors}
+                    />
+                  </ActionPanel>
+                }
+              />
+            ))}
+          </List.Section>
+        ))
+      )}
+    </List>
+  );
+}
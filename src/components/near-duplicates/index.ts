@@ -0,0 +1,2 @@
+// Re-export near-duplicate components
+export { default as NearDuplicateList } from "./NearDuplicateList";
@@ -16,6 +16,7 @@ import { useColors } from "../../hooks";
 import { UI_TEXT } from "../../constants/appConstants";
 import { showDeleteConfirmation } from "../shared";
 import { useLazyLoading } from "../../utils/lazyLoadingUtils";
+import { rgbToRaycastColor } from "../../utils/colorPreviewUtils";
 
 /**
  * Optimized color list item component with React.memo
@@ -34,12 +35,8 @@ const ColorListItem = memo(
   }) => {
     // Memoize color conversion to avoid recalculation
     const rgbColor = useMemo((): Color => {
-      const { r, g, b } = color.rgb;
-      const toHex = (value: number) => {
-        const hex = Math.max(0, Math.min(255, Math.round(value))).toString(16);
-        return hex.length === 1 ? "0" + hex : hex;
-      };
-      return `#${toHex(r)}${toHex(g)}${toHex(b)}` as Color;
+      const { r, g, b, a } = color.rgb;
+      return rgbToRaycastColor(r, g, b, a);
     }, [color.rgb]);
 
     // Memoize formatted hex string
@@ -52,7 +49,7 @@ const ColorListItem = memo(
 
     return (
       <List.Item
-        key={color.index}
+        key={color.id}
         title={color.name}
         subtitle={hexString}
         icon={{
@@ -140,7 +137,7 @@ const OptimizedColorList = memo(() => {
 
       if (confirmed) {
         try {
-          await removeColor(color.index);
+          await removeColor(color.id);
 
           await showToast({
             style: Toast.Style.Success,
@@ -252,7 +249,7 @@ const OptimizedColorList = memo(() => {
 
             return (
               <ColorListItem
-                key={`${color.index}-${color.name}`}
+                key={color.id}
                 color={color}
                 onCopy={handleColorCopy}
                 onEdit={handleEditColor}
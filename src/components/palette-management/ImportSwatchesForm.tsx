@@ -0,0 +1,139 @@
+import {
+  Form,
+  ActionPanel,
+  Action,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { useState } from "react";
+import {
+  describeImportNearDuplicates,
+  importSwatchFile,
+} from "../../utils/importExportUtils";
+import { importPalettes, loadPaletteStore } from "../../services/colorService";
+import { formatErrorMessage } from "../../utils/errorUtils";
+import { showConfirmationModal } from "../shared";
+
+/**
+ * Most near-duplicate colors listed in the confirmation
+ */
+const MAX_LISTED_NEAR_DUPLICATES = 3;
+
+interface ImportSwatchesFormProps {
+  onImported: () => void;
+}
+
+interface FormValues {
+  files: string[];
+}
+
+/**
+ * Form for importing a swatch file from other design tools
+ * Every swatch group becomes a new palette; colors that look the same as
+ * existing ones are listed for confirmation first, and swatches that could
+ * not be read are counted in the result
+ */
+export default function ImportSwatchesForm({
+  onImported,
+}: ImportSwatchesFormProps) {
+  const { pop } = useNavigation();
+  const [isLoading, setIsLoading] = useState(false);
+  const [fileError, setFileError] = useState<string | undefined>();
+
+  /**
+   * Handles form submission: reads the file and adds its palettes
+   */
+  const handleSubmit = async (values: FormValues) => {
+    const [filePath] = values.files;
+
+    if (!filePath) {
+      setFileError("Choose a swatch file");
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+
+      const { palettes: imported, skipped } = await importSwatchFile(filePath);
+
+      // Warn before storing colors that look the same as existing ones
+      const store = await loadPaletteStore();
+      const nearDuplicates = describeImportNearDuplicates(
+        imported.flatMap((palette) => palette.colors),
+        store.palettes.flatMap((palette) => palette.colors),
+      );
+
+      if (nearDuplicates.length > 0) {
+        const listed = nearDuplicates.slice(0, MAX_LISTED_NEAR_DUPLICATES);
+        const remaining = nearDuplicates.length - listed.length;
+        const confirmed = await showConfirmationModal({
+          title: "Similar Colors Exist",
+          message: `${listed.join("\n")}${remaining > 0 ? `\n…and ${remaining} more` : ""}\n\nImport these colors anyway?`,
+          confirmTitle: "Import Anyway",
+        });
+
+        if (!confirmed) {
+          return;
+        }
+      }
+
+      await importPalettes(imported);
+      onImported();
+
+      const colorCount = imported.reduce(
+        (count, palette) => count + palette.colors.length,
+        0,
+      );
+
+      // Swatches that could not be read are counted, with details in the log
+      if (skipped.length > 0) {
+        console.warn(
+          `Skipped ${skipped.length} swatches: ${skipped.join("; ")}`,
+        );
+      }
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Swatches Imported",
+        message: `${colorCount} colors in ${imported.length} ${imported.length === 1 ? "palette" : "palettes"}${skipped.length > 0 ? `, ${skipped.length} skipped` : ""}`,
+      });
+
+      pop();
+    } catch (error) {
+      console.error("Failed to import swatches:", error);
+
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to Import Swatches",
+        message: formatErrorMessage(error),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle="Import Swatches"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Import Swatches" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.FilePicker
+        id="files"
+        title="Swatch File"
+        allowMultipleSelection={false}
+        error={fileError}
+        onChange={() => setFileError(undefined)}
+      />
+      <Form.Description
+        title="Supported Formats"
+        text="Adobe Swatch Exchange (.ase), Photoshop Swatches (.aco), GIMP and Inkscape Palettes (.gpl), W3C Design Tokens (.json), MyColor JSON exports (.json)"
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,97 @@
+import {
+  Form,
+  ActionPanel,
+  Action,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { useState } from "react";
+import { PaletteStore } from "../../types";
+import { formatErrorMessage } from "../../utils/errorUtils";
+import { validatePaletteName } from "../../validators/colorValidators";
+
+interface PaletteFormProps {
+  title: string;
+  submitTitle: string;
+  successTitle: string;
+  initialName?: string;
+  onSubmit: (name: string) => Promise<PaletteStore>;
+}
+
+interface FormValues {
+  name: string;
+}
+
+/**
+ * Form component for naming palettes
+ * Shared by the create, rename and duplicate palette flows
+ */
+export default function PaletteForm({
+  title,
+  submitTitle,
+  successTitle,
+  initialName = "",
+  onSubmit,
+}: PaletteFormProps) {
+  const { pop } = useNavigation();
+  const [isLoading, setIsLoading] = useState(false);
+  const [nameError, setNameError] = useState<string | undefined>();
+
+  /**
+   * Handles form submission with validation
+   */
+  const handleSubmit = async (values: FormValues) => {
+    const error = validatePaletteName(values.name);
+
+    if (error) {
+      setNameError(error);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+
+      await onSubmit(values.name.trim());
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: successTitle,
+        message: `"${values.name.trim()}"`,
+      });
+
+      pop();
+    } catch (error) {
+      console.error(`${title} failed:`, error);
+
+      await showToast({
+        style: Toast.Style.Failure,
+        title: `${title} Failed`,
+        message: formatErrorMessage(error),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Form
+      isLoading={isLoading}
+      navigationTitle={title}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title={submitTitle} onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Palette Name"
+        placeholder="Enter palette name (e.g., Brand)"
+        defaultValue={initialName}
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,3 @@
+// Re-export palette management components
+export { default as PaletteForm } from "./PaletteForm";
+export { default as ImportSwatchesForm } from "./ImportSwatchesForm";
@@ -0,0 +1,73 @@
+import { Detail, ActionPanel, Action, Icon } from "@raycast/api";
+import { DroppedEntry, StoreLoadReport } from "../../types";
+
+interface StoreRecoveryReportProps {
+  report: StoreLoadReport;
+  onRestoreBackup?: () => void;
+}
+
+/**
+ * Describes a dropped entry as a single markdown list item
+ */
+function formatDroppedEntry(entry: DroppedEntry): string {
+  const location = entry.paletteName
+    ? `"${entry.paletteName}", entry ${entry.position + 1}`
+    : `Palette ${entry.position + 1}`;
+
+  return `- **${location}**: ${entry.reason}\n  \`${JSON.stringify(entry.value) ?? String(entry.value)}\``;
+}
+
+/**
+ * Detail view listing what was recovered while loading colors.json
+ * Shows why the file was quarantined or which entries failed validation
+ */
+export default function StoreRecoveryReport({
+  report,
+  onRestoreBackup,
+}: StoreRecoveryReportProps) {
+  const sections: string[] = ["# Colors File Recovery"];
+
+  if (report.corruptionReason) {
+    sections.push(
+      `The colors file could not be read: ${report.corruptionReason}.`,
+      "An empty palette was created so that nothing is overwritten.",
+    );
+  }
+
+  if (report.droppedEntries.length > 0) {
+    sections.push(
+      `${report.droppedEntries.length} invalid entries were removed:`,
+      report.droppedEntries.map(formatDroppedEntry).join("\n"),
+    );
+  }
+
+  if (report.quarantinedFilePath) {
+    sections.push(
+      `The original file was kept at:\n\n\`${report.quarantinedFilePath}\``,
+    );
+  }
+
+  return (
+    <Detail
+      navigationTitle="Recovery Report"
+      markdown={sections.join("\n\n")}
+      actions={
+        <ActionPanel>
+          {onRestoreBackup && (
+            <Action
+              title="Restore Latest Backup"
+              icon={Icon.ArrowCounterClockwise}
+              onAction={onRestoreBackup}
+            />
+          )}
+          {report.quarantinedFilePath && (
+            <Action.ShowInFinder
+              title="Show Original File"
+              path={report.quarantinedFilePath}
+            />
+          )}
+        </ActionPanel>
+      }
+    />
+  );
+}
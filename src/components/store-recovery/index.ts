@@ -0,0 +1,2 @@
+// Re-export store recovery components
+export { default as StoreRecoveryReport } from "./StoreRecoveryReport";
@@ -0,0 +1,187 @@
+import {
+  List,
+  ActionPanel,
+  Action,
+  Icon,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { useState } from "react";
+import { ColorEntry, Palette, PaletteStore } from "../../types";
+import {
+  SCALE_EASINGS,
+  SCALE_EASING_LABELS,
+  SCALE_STEP_COUNTS,
+  ScaleEasing,
+  TonalScaleStep,
+  formatScaleColorName,
+  generateTonalScale,
+} from "../../utils/tonalScaleUtils";
+import { formatAsHex } from "../../utils/colorFormatUtils";
+import { rgbToRaycastColor } from "../../utils/colorPreviewUtils";
+import { formatErrorMessage } from "../../utils/errorUtils";
+import {
+  NewColor,
+  addColors,
+  createPalette,
+} from "../../services/colorService";
+import { PaletteForm } from "../palette-management";
+
+interface TonalScaleListProps {
+  color: ColorEntry;
+  palette: Palette; // Palette the scale colors are added to
+  onScaleSaved: () => void;
+}
+
+/**
+ * Previews a tonal scale generated from a color before anything is saved
+ * The scale can be added to the color's palette as "<name> <step>" entries
+ * or saved as a new palette
+ */
+export default function TonalScaleList({
+  color,
+  palette,
+  onScaleSaved,
+}: TonalScaleListProps) {
+  const { pop } = useNavigation();
+  const [easing, setEasing] = useState<ScaleEasing>("linear");
+  const [stepCount, setStepCount] = useState(11);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const scale = generateTonalScale(color.rgb, { easing, stepCount });
+
+  // Scale colors named "<name> <step>"; the base step is the original color
+  // itself, with its precise value
+  const toScaleColor = (step: TonalScaleStep): NewColor => ({
+    name: formatScaleColorName(color.name, step.step),
+    rgb: step.isBase ? color.rgb : step.rgb,
+    precise: step.isBase ? color.precise : undefined,
+  });
+
+  // Add the scale to the palette of the base color
+  const handleAddToPalette = async () => {
+    try {
+      setIsLoading(true);
+
+      // The base color is already in the palette; the other steps are added
+      // in one save so that half a scale is never added
+      const steps = scale.filter((step) => !step.isBase);
+      await addColors(steps.map(toScaleColor), palette.id);
+      onScaleSaved();
+
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Scale Added",
+        message: `${steps.length} colors added to "${palette.name}"`,
+      });
+
+      pop();
+    } catch (error) {
+      console.error("Failed to add tonal scale:", error);
+
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Failed to Add Scale",
+        message: formatErrorMessage(error),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Create a new palette holding only the scale, in a single save
+  const handleSaveAsPalette = async (name: string): Promise<PaletteStore> => {
+    const store = await createPalette(name, scale.map(toScaleColor));
+    onScaleSaved();
+
+    return store;
+  };
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={`Tonal Scale: ${color.name}`}
+      searchBarAccessory={
+        <List.Dropdown
+          tooltip="Easing"
+          value={easing}
+          onChange={(value) => setEasing(value as ScaleEasing)}
+        >
+          {SCALE_EASINGS.map((item) => (
+            <List.Dropdown.Item
+              key={item}
+              title={SCALE_EASING_LABELS[item]}
+              value={item}
+            />
+          ))}
+        </List.Dropdown>
+      }
+    >
+      <List.Section
+        title="Preview"
+        subtitle={`${scale.length} steps • ${SCALE_EASING_LABELS[easing]}`}
+      >
+        {scale.map((step) => (
+          <List.Item
+            key={step.step}
+            title={formatScaleColorName(color.name, step.step)}
+            subtitle={formatAsHex(step.rgb)}
+            icon={{
+              source: Icon.CircleFilled,
+              tintColor: rgbToRaycastColor(
+                step.rgb.r,
+                step.rgb.g,
+                step.rgb.b,
+                step.rgb.a,
+              ),
+            }}
+            accessories={
+              step.isBase ? [{ tag: "Base", tooltip: "Original color" }] : []
+            }
+            actions={
+              <ActionPanel>
+                <ActionPanel.Section>
+                  <Action
+                    title={`Add Scale to ${palette.name}`}
+                    icon={Icon.Plus}
+                    onAction={handleAddToPalette}
+                  />
+                  <Action.Push
+                    title="Save Scale as New Palette"
+                    icon={Icon.NewFolder}
+                    target={
+                      <PaletteForm
+                        title="Save Scale as Palette"
+                        submitTitle="Create Palette"
+                        successTitle="Palette Created"
+                        initialName={`${color.name} Scale`}
+                        onSubmit={handleSaveAsPalette}
+                      />
+                    }
+                  />
+                </ActionPanel.Section>
+                <ActionPanel.Section>
+                  <ActionPanel.Submenu title="Steps" icon={Icon.BarChart}>
+                    {SCALE_STEP_COUNTS.map((count) => (
+                      <Action
+                        key={count}
+                        title={`${count} Steps`}
+                        icon={count === stepCount ? Icon.Checkmark : undefined}
+                        onAction={() => setStepCount(count)}
+                      />
+                    ))}
+                  </ActionPanel.Submenu>
+                  <Action.CopyToClipboard
+                    title="Copy Hex Color"
+                    content={formatAsHex(step.rgb)}
+                  />
+                </ActionPanel.Section>
+              </ActionPanel>
+            }
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
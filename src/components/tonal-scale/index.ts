@@ -0,0 +1,2 @@
+// Re-export tonal scale components
+export { default as TonalScaleList } from "./TonalScaleList";
@@ -0,0 +1,246 @@
+import { List, ActionPanel, Action, Icon, Color } from "@raycast/api";
+import { useState } from "react";
+import { ColorEntry, Palette, RGB } from "../../types";
+import {
+  ConfusablePair,
+  VISION_DEFICIENCIES,
+  VisionDeficiency,
+  findConfusablePairs,
+  getVisionDeficiencyLabel,
+  simulateVisionDeficiency,
+} from "../../utils/visionSimulationUtils";
+import { formatAsHex } from "../../utils/colorFormatUtils";
+import { rgbToRaycastColor } from "../../utils/colorPreviewUtils";
+import { UI_TEXT, VISION_SIMULATION } from "../../constants/appConstants";
+
+interface VisionSimulationListProps {
+  palette: Palette;
+}
+
+/**
+ * Raycast tint of an RGB color
+ */
+function toRaycastColor(rgb: RGB): Color {
+  return rgbToRaycastColor(rgb.r, rgb.g, rgb.b, rgb.a);
+}
+
+/**
+ * Lists the colors of a palette next to their simulated appearance for a
+ * color vision deficiency, flagging pairs that become hard to tell apart
+ * The detail pane compares every deficiency; with it hidden, the simulated
+ * swatch is shown as an accessory
+ */
+export default function VisionSimulationList({
+  palette,
+}: VisionSimulationListProps) {
+  const [deficiency, setDeficiency] = useState<VisionDeficiency>("deutan");
+  const [severity, setSeverity] = useState<number>(1);
+  const [isShowingDetail, setIsShowingDetail] = useState(true);
+
+  const label = getVisionDeficiencyLabel(deficiency, severity);
+  const confusablePairs = findConfusablePairs(
+    palette.colors,
+    deficiency,
+    severity,
+    VISION_SIMULATION.CONFUSABLE_DELTA_E,
+  );
+
+  // Names of the colors a color can be confused with
+  const getConfusableNames = (color: ColorEntry): string[] =>
+    confusablePairs
+      .filter(
+        (pair) => pair.first.id === color.id || pair.second.id === color.id,
+      )
+      .map((pair) =>
+        pair.first.id === color.id ? pair.second.name : pair.first.name,
+      );
+
+  // Actions shared by every item
+  const renderActions = (color?: ColorEntry) => (
+    <ActionPanel>
+      {color && (
+        <Action.CopyToClipboard
+          title="Copy Simulated Hex Color"
+          content={formatAsHex(
+            simulateVisionDeficiency(color.rgb, deficiency, severity),
+          )}
+        />
+      )}
+      <ActionPanel.Submenu title="Severity" icon={Icon.Gauge}>
+        {VISION_SIMULATION.SEVERITY_STEPS.map((step) => (
+          <Action
+            key={step}
+            title={getVisionDeficiencyLabel(deficiency, step)}
+            icon={step === severity ? Icon.Checkmark : undefined}
+            onAction={() => setSeverity(step)}
+          />
+        ))}
+      </ActionPanel.Submenu>
+      <Action
+        title={isShowingDetail ? "Hide Details" : "Show Details"}
+        icon={Icon.Sidebar}
+        onAction={() => setIsShowingDetail(!isShowingDetail)}
+      />
+    </ActionPanel>
+  );
+
+  // Detail pane comparing a color with its simulation for every deficiency
+  const renderColorDetail = (color: ColorEntry) => (
+    <List.Item.Detail
+      metadata={
+        <List.Item.Detail.Metadata>
+          <List.Item.Detail.Metadata.TagList title="Original">
+            <List.Item.Detail.Metadata.TagList.Item
+              text={formatAsHex(color.rgb)}
+              color={toRaycastColor(color.rgb)}
+            />
+          </List.Item.Detail.Metadata.TagList>
+          {VISION_DEFICIENCIES.map((item) => {
+            const simulated = simulateVisionDeficiency(
+              color.rgb,
+              item,
+              severity,
+            );
+            return (
+              <List.Item.Detail.Metadata.TagList
+                key={item}
+                title={getVisionDeficiencyLabel(item, severity)}
+              >
+                <List.Item.Detail.Metadata.TagList.Item
+                  text={formatAsHex(simulated)}
+                  color={toRaycastColor(simulated)}
+                />
+              </List.Item.Detail.Metadata.TagList>
+            );
+          })}
+          <List.Item.Detail.Metadata.Separator />
+          <List.Item.Detail.Metadata.Label
+            title={`Confusable with ${label}`}
+            text={getConfusableNames(color).join(", ") || "None"}
+          />
+        </List.Item.Detail.Metadata>
+      }
+    />
+  );
+
+  // Detail pane of a confusable pair, original and simulated side by side
+  const renderPairDetail = (pair: ConfusablePair) => (
+    <List.Item.Detail
+      metadata={
+        <List.Item.Detail.Metadata>
+          {[pair.first, pair.second].map((color) => {
+            const simulated = simulateVisionDeficiency(
+              color.rgb,
+              deficiency,
+              severity,
+            );
+            return (
+              <List.Item.Detail.Metadata.TagList
+                key={color.id}
+                title={color.name}
+              >
+                <List.Item.Detail.Metadata.TagList.Item
+                  text={formatAsHex(color.rgb)}
+                  color={toRaycastColor(color.rgb)}
+                />
+                <List.Item.Detail.Metadata.TagList.Item
+                  text={formatAsHex(simulated)}
+                  color={toRaycastColor(simulated)}
+                />
+              </List.Item.Detail.Metadata.TagList>
+            );
+          })}
+          <List.Item.Detail.Metadata.Separator />
+          <List.Item.Detail.Metadata.Label
+            title="ΔE 2000, Typical Vision"
+            text={pair.originalDeltaE.toFixed(1)}
+          />
+          <List.Item.Detail.Metadata.Label
+            title={`ΔE 2000, ${label}`}
+            text={pair.simulatedDeltaE.toFixed(1)}
+          />
+        </List.Item.Detail.Metadata>
+      }
+    />
+  );
+
+  return (
+    <List
+      navigationTitle={`${label}: ${palette.name}`}
+      isShowingDetail={isShowingDetail}
+      searchBarPlaceholder={UI_TEXT.SEARCH_PLACEHOLDER}
+      searchBarAccessory={
+        <List.Dropdown
+          tooltip="Color Vision Deficiency"
+          value={deficiency}
+          onChange={(value) => setDeficiency(value as VisionDeficiency)}
+        >
+          {VISION_DEFICIENCIES.map((item) => (
+            <List.Dropdown.Item
+              key={item}
+              title={getVisionDeficiencyLabel(item, severity)}
+              value={item}
+            />
+          ))}
+        </List.Dropdown>
+      }
+    >
+      {confusablePairs.length > 0 && (
+        <List.Section
+          title="Confusable Pairs"
+          subtitle={`ΔE below ${VISION_SIMULATION.CONFUSABLE_DELTA_E}`}
+        >
+          {confusablePairs.map((pair) => (
+            <List.Item
+              key={`${pair.first.id}-${pair.second.id}`}
+              title={`${pair.first.name} and ${pair.second.name}`}
+              icon={{ source: Icon.Warning, tintColor: Color.Orange }}
+              detail={renderPairDetail(pair)}
+              actions={renderActions()}
+            />
+          ))}
+        </List.Section>
+      )}
+      <List.Section title={palette.name} subtitle={label}>
+        {palette.colors.map((color) => {
+          const simulated = simulateVisionDeficiency(
+            color.rgb,
+            deficiency,
+            severity,
+          );
+          const confusable = getConfusableNames(color).length > 0;
+
+          return (
+            <List.Item
+              key={color.id}
+              title={color.name}
+              icon={{
+                source: Icon.Circle,
+                tintColor: toRaycastColor(color.rgb),
+              }}
+              accessories={[
+                ...(confusable
+                  ? [
+                      {
+                        icon: { source: Icon.Warning, tintColor: Color.Orange },
+                        tooltip: `Hard to tell apart with ${label}`,
+                      },
+                    ]
+                  : []),
+                {
+                  icon: {
+                    source: Icon.CircleFilled,
+                    tintColor: toRaycastColor(simulated),
+                  },
+                  tooltip: `${label}: ${formatAsHex(simulated)}`,
+                },
+              ]}
+              detail={renderColorDetail(color)}
+              actions={renderActions(color)}
+            />
+          );
+        })}
+      </List.Section>
+    </List>
+  );
+}
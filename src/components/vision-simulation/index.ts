@@ -0,0 +1,2 @@
+// Re-export vision simulation components
+export { default as VisionSimulationList } from "./VisionSimulationList";
@@ -3,15 +3,23 @@
  */
 
 /**
- * Maximum number of colors to load (requirement 1.2)
+ * Default color limit per palette; null means unlimited
+ * The limit is configured through the "maxColors" preference (requirement 1.2)
  */
-export const MAX_COLORS = 15;
+export const DEFAULT_MAX_COLORS: number | null = null;
 
 /**
  * Color name constraints
  */
 export const COLOR_NAME_MAX_LENGTH = 50;
 
+/**
+ * Palette constraints and defaults
+ */
+export const PALETTE_NAME_MAX_LENGTH = 50;
+export const DEFAULT_PALETTE_ID = "default";
+export const DEFAULT_PALETTE_NAME = "Default";
+
 /**
  * RGB value constraints
  */
@@ -24,6 +32,15 @@ export const RGB_MAX_VALUE = 255;
 export const APP_SUPPORT_DIR_NAME = "raycast-my-color";
 export const COLORS_FILE_NAME = "colors.json";
 
+/**
+ * On-disk format versions
+ * The color store uses an integer schema version that drives migrations;
+ * backups and exports use semantic versions where only the major part is checked
+ */
+export const COLOR_STORE_SCHEMA_VERSION = 3;
+export const BACKUP_FORMAT_VERSION = "2.0.0";
+export const EXPORT_FORMAT_VERSION = "1.0.0";
+
 /**
  * Default color format for clipboard operations
  */
@@ -32,9 +49,65 @@ export const DEFAULT_COLOR_FORMAT = "hex" as const;
 /**
  * Supported color formats
  */
-export const SUPPORTED_COLOR_FORMATS = ["hex", "rgb", "hsl", "cmyk"] as const;
+export const SUPPORTED_COLOR_FORMATS = [
+  "hex",
+  "rgb",
+  "hsl",
+  "hsv",
+  "hwb",
+  "cmyk",
+  "lab",
+  "lch",
+  "oklab",
+  "oklch",
+  "xyz",
+  "color",
+] as const;
 export type ColorFormat = (typeof SUPPORTED_COLOR_FORMATS)[number];
 
+/**
+ * Display names of the supported color formats
+ */
+export const COLOR_FORMAT_LABELS: Record<ColorFormat, string> = {
+  hex: "Hex",
+  rgb: "RGB",
+  hsl: "HSL",
+  hsv: "HSV",
+  hwb: "HWB",
+  cmyk: "CMYK",
+  lab: "Lab",
+  lch: "LCH",
+  oklab: "OKLab",
+  oklch: "OKLCH",
+  xyz: "XYZ",
+  color: "CSS color()",
+};
+
+/**
+ * Cross-process file lock timings (in milliseconds)
+ */
+export const FILE_LOCK = {
+  TIMEOUT: 5000, // Give up acquiring after this long
+  RETRY_DELAY: 50, // Wait between acquisition attempts
+  STALE_AFTER: 30000, // Locks older than this are considered abandoned
+} as const;
+
+/**
+ * Color vision deficiency simulation settings
+ */
+export const VISION_SIMULATION = {
+  SEVERITY_STEPS: [0.2, 0.4, 0.6, 0.8, 1], // Offered severities, 1 is dichromacy
+  CONFUSABLE_DELTA_E: 10, // Simulated CIEDE2000 below which colors are flagged
+} as const;
+
+/**
+ * Color store location settings
+ */
+export const STORAGE = {
+  DIRECTORY_NAME: "raycast-my-color",
+  DIRECTORY_ENV_VAR: "MYCOLOR_DATA_DIR", // Explicit override, e.g. for scripts
+} as const;
+
 /**
  * Toast message durations (in milliseconds)
  */
@@ -62,6 +135,7 @@ export const UI_TEXT = {
   SEARCH_PLACEHOLDER: "Search colors...",
   EMPTY_STATE_TITLE: "No Colors Available",
   EMPTY_STATE_DESCRIPTION: "Add your first color to get started",
+  EMPTY_PALETTE_TITLE: "No colors in this palette yet",
   ERROR_STATE_TITLE: "Error Loading Colors",
   LOADING_MESSAGE: "Loading colors...",
 } as const;
@@ -0,0 +1,8 @@
+import { NearDuplicateList } from "./components/near-duplicates";
+
+/**
+ * Raycast command component for finding and merging near-duplicate colors
+ */
+export default function FindNearDuplicatesCommand() {
+  return <NearDuplicateList />;
+}
@@ -2,7 +2,8 @@ import { useState, useCallback } from "react";
 import {
   validateColorName,
   validateRgbValue,
-  validateHexColor,
+  validateColorString,
+  validateAlphaValue,
 } from "../validators/colorValidators";
 
 interface ValidationErrors {
@@ -10,6 +11,7 @@ interface ValidationErrors {
   red?: string;
   green?: string;
   blue?: string;
+  alpha?: string;
   hex?: string;
 }
 
@@ -18,6 +20,7 @@ interface FormValues {
   red: string;
   green: string;
   blue: string;
+  alpha?: string;
   hex?: string;
 }
 
@@ -60,8 +63,11 @@ export function useColorValidation(): UseColorValidationReturn {
         case "blue":
           error = validateRgbValue(value, "Blue");
           break;
+        case "alpha":
+          error = validateAlphaValue(value);
+          break;
         case "hex":
-          error = validateHexColor(value);
+          error = validateColorString(value);
           break;
       }
 
@@ -80,6 +86,9 @@ export function useColorValidation(): UseColorValidationReturn {
       const redError = validateField("red", values.red);
       const greenError = validateField("green", values.green);
       const blueError = validateField("blue", values.blue);
+      const alphaError = values.alpha
+        ? validateField("alpha", values.alpha)
+        : undefined;
       const hexError = values.hex
         ? validateField("hex", values.hex)
         : undefined;
@@ -89,6 +98,7 @@ export function useColorValidation(): UseColorValidationReturn {
       if (redError) newErrors.red = redError;
       if (greenError) newErrors.green = greenError;
       if (blueError) newErrors.blue = blueError;
+      if (alphaError) newErrors.alpha = alphaError;
       if (hexError) newErrors.hex = hexError;
 
       // Update error state
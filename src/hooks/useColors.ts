@@ -1,35 +1,79 @@
-import { useState, useEffect, useCallback } from "react";
-import { ColorEntry } from "../types";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  ColorEntry,
+  Palette,
+  PaletteStore,
+  PreciseColor,
+  RGB,
+  StoreLoadReport,
+} from "../types";
+import {
+  loadPaletteStoreWithReport,
+  savePaletteStore,
+  saveColors,
+} from "../services/colorService/fileOperations";
 import {
-  loadColors,
   addColor,
   editColor,
   deleteColor,
-} from "../services/colorService";
-import { formatErrorMessage } from "../utils/errorUtils";
+  deleteColors,
+} from "../services/colorService/colorOperations";
+import {
+  createPalette,
+  renamePalette,
+  duplicatePalette,
+  deletePalette,
+  setActivePalette,
+} from "../services/colorService/paletteOperations";
+import { ColorNotFoundError, formatErrorMessage } from "../utils/errorUtils";
 import { undoRedoManager, ActionCreators } from "../utils/undoRedoUtils";
 import { backupManager } from "../utils/backupUtils";
 
 interface UseColorsState {
   colors: ColorEntry[];
+  palettes: Palette[];
+  activePaletteId: string;
   isLoading: boolean;
   error: string | null;
+  loadReport: StoreLoadReport | null;
 }
 
 interface UseColorsActions {
   refreshColors: () => Promise<void>;
   addNewColor: (
     name: string,
-    rgb: { r: number; g: number; b: number },
+    rgb: RGB,
+    paletteId?: string,
+    precise?: PreciseColor,
   ) => Promise<ColorEntry[]>;
   updateColor: (
-    index: number,
+    colorId: string,
     name: string,
-    rgb: { r: number; g: number; b: number },
+    rgb: RGB,
+    paletteId?: string,
+    precise?: PreciseColor,
+  ) => Promise<ColorEntry[]>;
+  removeColor: (colorId: string, paletteId?: string) => Promise<ColorEntry[]>;
+  removeColors: (
+    colorIds: string[],
+    paletteId?: string,
   ) => Promise<ColorEntry[]>;
-  removeColor: (index: number) => Promise<ColorEntry[]>;
   setColors: (colors: ColorEntry[]) => void;
+  setPaletteColors: (paletteId: string, colors: ColorEntry[]) => void;
+  createNewPalette: (name: string) => Promise<PaletteStore>;
+  renameExistingPalette: (
+    paletteId: string,
+    name: string,
+  ) => Promise<PaletteStore>;
+  duplicateExistingPalette: (
+    paletteId: string,
+    name?: string,
+  ) => Promise<PaletteStore>;
+  removePalette: (paletteId: string) => Promise<PaletteStore>;
+  switchPalette: (paletteId: string) => Promise<PaletteStore>;
   clearError: () => void;
+  clearLoadReport: () => void;
+  restoreBackup: (backupFilePath: string) => Promise<PaletteStore>;
   undo: () => Promise<void>;
   redo: () => Promise<void>;
   canUndo: boolean;
@@ -39,26 +83,71 @@ interface UseColorsActions {
 
 export interface UseColorsReturn extends UseColorsState, UseColorsActions {}
 
+const EMPTY_STORE: PaletteStore = { activePaletteId: "", palettes: [] };
+
+/**
+ * Returns the colors of a palette in the store, or an empty list
+ */
+function getPaletteColors(
+  store: PaletteStore,
+  paletteId?: string,
+): ColorEntry[] {
+  const targetId = paletteId ?? store.activePaletteId;
+  return (
+    store.palettes.find((palette) => palette.id === targetId)?.colors ?? []
+  );
+}
+
+/**
+ * Returns a copy of the store with one palette's colors replaced
+ */
+function replacePaletteColors(
+  store: PaletteStore,
+  paletteId: string,
+  colors: ColorEntry[],
+): PaletteStore {
+  return {
+    ...store,
+    palettes: store.palettes.map((palette) =>
+      palette.id === paletteId ? { ...palette, colors } : palette,
+    ),
+  };
+}
+
 /**
  * Custom hook for color data management
- * Provides state management and operations for color collection
+ * Provides state management and operations for the palette collection
+ * Color operations target the active palette unless a palette id is given
  * Requirements: 1.3, 1.4, 3.4
  */
 export function useColors(): UseColorsReturn {
-  const [colors, setColors] = useState<ColorEntry[]>([]);
+  const [store, setStore] = useState<PaletteStore>(EMPTY_STORE);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [loadReport, setLoadReport] = useState<StoreLoadReport | null>(null);
   const [canUndo, setCanUndo] = useState(false);
   const [canRedo, setCanRedo] = useState(false);
 
-  // Load colors with error handling and loading states
+  const colors = useMemo(() => getPaletteColors(store), [store]);
+
+  const updateUndoRedoState = useCallback(() => {
+    setCanUndo(undoRedoManager.canUndo());
+    setCanRedo(undoRedoManager.canRedo());
+  }, []);
+
+  // Load palettes with error handling and loading states
   const refreshColors = useCallback(async () => {
     try {
       setIsLoading(true);
       setError(null);
 
-      const loadedColors = await loadColors();
-      setColors(loadedColors);
+      const { store: loadedStore, report } = await loadPaletteStoreWithReport();
+      setStore(loadedStore);
+
+      // Only surface reports where something was actually recovered
+      if (report.corruptionReason || report.droppedEntries.length > 0) {
+        setLoadReport(report);
+      }
     } catch (err) {
       console.error("Failed to load colors:", err);
       setError(formatErrorMessage(err));
@@ -67,21 +156,52 @@ export function useColors(): UseColorsReturn {
     }
   }, []);
 
+  // Replace the colors of a single palette in local state
+  const setPaletteColors = useCallback(
+    (paletteId: string, updatedColors: ColorEntry[]) => {
+      setStore((prev) => replacePaletteColors(prev, paletteId, updatedColors));
+    },
+    [],
+  );
+
+  // Replace the colors of the active palette in local state
+  const setColors = useCallback((updatedColors: ColorEntry[]) => {
+    setStore((prev) =>
+      replacePaletteColors(prev, prev.activePaletteId, updatedColors),
+    );
+  }, []);
+
+  // Apply colors to the given palette, or the active one when unspecified
+  const applyPaletteColors = useCallback(
+    (paletteId: string | undefined, updatedColors: ColorEntry[]) => {
+      if (paletteId) {
+        setPaletteColors(paletteId, updatedColors);
+      } else {
+        setColors(updatedColors);
+      }
+    },
+    [setPaletteColors, setColors],
+  );
+
   // Add new color with optimistic updates and undo/redo support
   const addNewColor = useCallback(
     async (
       name: string,
-      rgb: { r: number; g: number; b: number },
+      rgb: RGB,
+      paletteId?: string,
+      precise?: PreciseColor,
     ): Promise<ColorEntry[]> => {
       try {
         setError(null);
 
-        const previousColors = [...colors];
+        // Undefined targets the active palette as stored on disk
+        const targetId = paletteId ?? (store.activePaletteId || undefined);
+        const previousColors = [...getPaletteColors(store, targetId)];
 
         // Create backup before risky operation
-        await backupManager.createAutoBackup(previousColors, "add-color");
+        await backupManager.createAutoBackup(store, "add-color");
 
-        const updatedColors = await addColor(name, rgb);
+        const updatedColors = await addColor(name, rgb, targetId, precise);
 
         // Record action for undo/redo
         const addedColor = updatedColors[updatedColors.length - 1];
@@ -89,12 +209,12 @@ export function useColors(): UseColorsReturn {
           previousColors,
           updatedColors,
           addedColor,
+          targetId,
         );
         undoRedoManager.recordAction(action);
 
-        setColors(updatedColors);
-        setCanUndo(undoRedoManager.canUndo());
-        setCanRedo(undoRedoManager.canRedo());
+        applyPaletteColors(targetId, updatedColors);
+        updateUndoRedoState();
 
         return updatedColors;
       } catch (err) {
@@ -103,45 +223,58 @@ export function useColors(): UseColorsReturn {
         throw err;
       }
     },
-    [colors],
+    [store, applyPaletteColors, updateUndoRedoState],
   );
 
   // Update existing color with optimistic updates and undo/redo support
   const updateColor = useCallback(
     async (
-      index: number,
+      colorId: string,
       name: string,
-      rgb: { r: number; g: number; b: number },
+      rgb: RGB,
+      paletteId?: string,
+      precise?: PreciseColor,
     ): Promise<ColorEntry[]> => {
       try {
         setError(null);
 
-        const previousColors = [...colors];
-        const previousColor = previousColors[index];
+        // Undefined targets the active palette as stored on disk
+        const targetId = paletteId ?? (store.activePaletteId || undefined);
+        const previousColors = [...getPaletteColors(store, targetId)];
+        const previousColor = previousColors.find(
+          (color) => color.id === colorId,
+        );
 
         if (!previousColor) {
-          throw new Error("Color not found");
+          throw new ColorNotFoundError(colorId);
         }
 
         // Create backup before risky operation
-        await backupManager.createAutoBackup(previousColors, "edit-color");
-
-        const updatedColors = await editColor(index, name, rgb);
-        const newColor = updatedColors[index];
+        await backupManager.createAutoBackup(store, "edit-color");
+
+        const updatedColors = await editColor(
+          colorId,
+          name,
+          rgb,
+          targetId,
+          precise,
+        );
+        const newColor =
+          updatedColors.find((color) => color.id === colorId) ?? previousColor;
 
         // Record action for undo/redo
         const action = ActionCreators.editColor(
           previousColors,
           updatedColors,
-          index,
+          colorId,
           previousColor,
           newColor,
+          targetId,
         );
         undoRedoManager.recordAction(action);
 
-        setColors(updatedColors);
-        setCanUndo(undoRedoManager.canUndo());
-        setCanRedo(undoRedoManager.canRedo());
+        applyPaletteColors(targetId, updatedColors);
+        updateUndoRedoState();
 
         return updatedColors;
       } catch (err) {
@@ -150,38 +283,42 @@ export function useColors(): UseColorsReturn {
         throw err;
       }
     },
-    [colors],
+    [store, applyPaletteColors, updateUndoRedoState],
   );
 
   // Remove color with optimistic updates and undo/redo support
   const removeColor = useCallback(
-    async (index: number): Promise<ColorEntry[]> => {
+    async (colorId: string, paletteId?: string): Promise<ColorEntry[]> => {
       try {
         setError(null);
 
-        const previousColors = [...colors];
-        const deletedColor = previousColors[index];
+        // Undefined targets the active palette as stored on disk
+        const targetId = paletteId ?? (store.activePaletteId || undefined);
+        const previousColors = [...getPaletteColors(store, targetId)];
+        const deletedColor = previousColors.find(
+          (color) => color.id === colorId,
+        );
 
         if (!deletedColor) {
-          throw new Error("Color not found");
+          throw new ColorNotFoundError(colorId);
         }
 
         // Create backup before risky operation
-        await backupManager.createAutoBackup(previousColors, "delete-color");
+        await backupManager.createAutoBackup(store, "delete-color");
 
-        const updatedColors = await deleteColor(index);
+        const updatedColors = await deleteColor(colorId, targetId);
 
         // Record action for undo/redo
         const action = ActionCreators.deleteColor(
           previousColors,
           updatedColors,
           deletedColor,
+          targetId,
         );
         undoRedoManager.recordAction(action);
 
-        setColors(updatedColors);
-        setCanUndo(undoRedoManager.canUndo());
-        setCanRedo(undoRedoManager.canRedo());
+        applyPaletteColors(targetId, updatedColors);
+        updateUndoRedoState();
 
         // Handle edge case: if all colors were deleted, clear error to show proper empty state
         if (updatedColors.length === 0) {
@@ -195,7 +332,103 @@ export function useColors(): UseColorsReturn {
         throw err;
       }
     },
-    [colors],
+    [store, applyPaletteColors, updateUndoRedoState],
+  );
+
+  // Remove several colors of a palette at once, undone as a single step
+  const removeColors = useCallback(
+    async (colorIds: string[], paletteId?: string): Promise<ColorEntry[]> => {
+      try {
+        setError(null);
+
+        // Undefined targets the active palette as stored on disk
+        const targetId = paletteId ?? (store.activePaletteId || undefined);
+        const previousColors = [...getPaletteColors(store, targetId)];
+        const deletedColors = previousColors.filter((color) =>
+          colorIds.includes(color.id),
+        );
+
+        // Create backup before risky operation
+        await backupManager.createAutoBackup(store, "delete-colors");
+
+        const updatedColors = await deleteColors(colorIds, targetId);
+
+        // Record action for undo/redo
+        const action = ActionCreators.deleteColors(
+          previousColors,
+          updatedColors,
+          deletedColors,
+          targetId,
+        );
+        undoRedoManager.recordAction(action);
+
+        applyPaletteColors(targetId, updatedColors);
+        updateUndoRedoState();
+
+        return updatedColors;
+      } catch (err) {
+        const errorMessage = formatErrorMessage(err);
+        setError(errorMessage);
+        throw err;
+      }
+    },
+    [store, applyPaletteColors, updateUndoRedoState],
+  );
+
+  // Runs a palette-level operation and adopts the resulting store
+  const runPaletteOperation = useCallback(
+    async (
+      operation: () => Promise<PaletteStore>,
+      backupReason?: string,
+    ): Promise<PaletteStore> => {
+      try {
+        setError(null);
+
+        if (backupReason) {
+          // Create backup before risky operation
+          await backupManager.createAutoBackup(store, backupReason);
+        }
+
+        const updatedStore = await operation();
+        setStore(updatedStore);
+
+        return updatedStore;
+      } catch (err) {
+        const errorMessage = formatErrorMessage(err);
+        setError(errorMessage);
+        throw err;
+      }
+    },
+    [store],
+  );
+
+  const createNewPalette = useCallback(
+    (name: string) => runPaletteOperation(() => createPalette(name)),
+    [runPaletteOperation],
+  );
+
+  const renameExistingPalette = useCallback(
+    (paletteId: string, name: string) =>
+      runPaletteOperation(() => renamePalette(paletteId, name)),
+    [runPaletteOperation],
+  );
+
+  const duplicateExistingPalette = useCallback(
+    (paletteId: string, name?: string) =>
+      runPaletteOperation(() => duplicatePalette(paletteId, name)),
+    [runPaletteOperation],
+  );
+
+  const removePalette = useCallback(
+    (paletteId: string) =>
+      runPaletteOperation(() => deletePalette(paletteId), "delete-palette"),
+    [runPaletteOperation],
+  );
+
+  const switchPalette = useCallback(
+    (paletteId: string) =>
+      runPaletteOperation(() => setActivePalette(paletteId)),
+    [runPaletteOperation],
   );
 
   // Clear error state
@@ -203,60 +436,99 @@ export function useColors(): UseColorsReturn {
     setError(null);
   }, []);
 
+  // Clear the recovery report once it has been handled
+  const clearLoadReport = useCallback(() => {
+    setLoadReport(null);
+  }, []);
+
+  // Replace the whole store with the content of a backup file
+  const restoreBackup = useCallback(
+    async (backupFilePath: string): Promise<PaletteStore> => {
+      try {
+        setError(null);
+
+        // Keep the current state restorable in case the wrong backup is picked
+        await backupManager.createAutoBackup(store, "before-restore");
+
+        const restoredStore =
+          await backupManager.restoreFromBackup(backupFilePath);
+        await savePaletteStore(restoredStore);
+
+        // Undo history refers to colors that no longer exist
+        undoRedoManager.clearHistory();
+        setStore(restoredStore);
+        setLoadReport(null);
+
+        return restoredStore;
+      } catch (err) {
+        const errorMessage = formatErrorMessage(err);
+        setError(errorMessage);
+        throw err;
+      }
+    },
+    [store],
+  );
+
   // Undo last action
   const undo = useCallback(async () => {
     try {
+      const paletteId = undoRedoManager.peekUndo()?.actionData?.paletteId;
       const previousState = undoRedoManager.undo();
       if (previousState) {
-        setColors(previousState);
-        setCanUndo(undoRedoManager.canUndo());
-        setCanRedo(undoRedoManager.canRedo());
+        setStore((prev) =>
+          replacePaletteColors(
+            prev,
+            paletteId ?? prev.activePaletteId,
+            previousState,
+          ),
+        );
+        updateUndoRedoState();
 
         // Save the undone state to file
-        const { saveColors } = await import(
-          "../services/colorService/fileOperations"
-        );
-        await saveColors(previousState);
+        await saveColors(previousState, paletteId);
       }
     } catch (err) {
       const errorMessage = formatErrorMessage(err);
       setError(errorMessage);
     }
-  }, []);
+  }, [updateUndoRedoState]);
 
   // Redo last undone action
   const redo = useCallback(async () => {
     try {
+      const paletteId = undoRedoManager.peekRedo()?.actionData?.paletteId;
       const newState = undoRedoManager.redo();
       if (newState) {
-        setColors(newState);
-        setCanUndo(undoRedoManager.canUndo());
-        setCanRedo(undoRedoManager.canRedo());
+        setStore((prev) =>
+          replacePaletteColors(
+            prev,
+            paletteId ?? prev.activePaletteId,
+            newState,
+          ),
+        );
+        updateUndoRedoState();
 
         // Save the redone state to file
-        const { saveColors } = await import(
-          "../services/colorService/fileOperations"
-        );
-        await saveColors(newState);
+        await saveColors(newState, paletteId);
       }
     } catch (err) {
       const errorMessage = formatErrorMessage(err);
       setError(errorMessage);
     }
-  }, []);
+  }, [updateUndoRedoState]);
 
   // Create manual backup
   const createBackup = useCallback(
     async (reason?: string) => {
       try {
-        await backupManager.createBackup(colors, reason);
+        await backupManager.createBackup(store, reason);
       } catch (err) {
         const errorMessage = formatErrorMessage(err);
         setError(errorMessage);
         throw err;
       }
     },
-    [colors],
+    [store],
   );
 
   // Load colors on hook initialization
@@ -266,15 +538,17 @@ export function useColors(): UseColorsReturn {
 
   // Update undo/redo state when colors change
   useEffect(() => {
-    setCanUndo(undoRedoManager.canUndo());
-    setCanRedo(undoRedoManager.canRedo());
-  }, [colors]);
+    updateUndoRedoState();
+  }, [store, updateUndoRedoState]);
 
   return {
     // State
     colors,
+    palettes: store.palettes,
+    activePaletteId: store.activePaletteId,
     isLoading,
     error,
+    loadReport,
     canUndo,
     canRedo,
 
@@ -283,8 +557,17 @@ export function useColors(): UseColorsReturn {
     addNewColor,
     updateColor,
     removeColor,
+    removeColors,
     setColors,
+    setPaletteColors,
+    createNewPalette,
+    renameExistingPalette,
+    duplicateExistingPalette,
+    removePalette,
+    switchPalette,
     clearError,
+    clearLoadReport,
+    restoreBackup,
     undo,
     redo,
     createBackup,
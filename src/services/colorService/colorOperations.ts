@@ -1,126 +1,279 @@
-import { ColorEntry } from "../../types";
-import { loadColors, saveColors } from "./fileOperations";
-import { MAX_COLORS } from "../../constants/appConstants";
-import { sanitizeRgbValues } from "../../validators/colorValidators";
+import { ColorEntry, PreciseColor, RGB } from "../../types";
+import {
+  loadColors,
+  saveColors,
+  findColorIndex,
+  withColorStoreLock,
+} from "./fileOperations";
+import {
+  assertWithinColorLimit,
+  getUserPreferences,
+} from "../../utils/settingsUtils";
+import {
+  sanitizePreciseColor,
+  sanitizeRgbValues,
+} from "../../validators/colorValidators";
 import {
   DuplicateColorError,
   MaxColorsReachedError,
-  ColorNotFoundError,
   withErrorHandling,
 } from "../../utils/errorUtils";
+import { generateId } from "../../utils/idUtils";
+
+/**
+ * Builds the stored color values: sanitized RGB plus the precise original
+ * `rgb` is expected to be the sRGB fallback of `precise`
+ */
+function toStoredColor(
+  rgb: RGB,
+  precise?: PreciseColor,
+): Pick<ColorEntry, "rgb" | "precise"> {
+  return precise
+    ? { rgb: sanitizeRgbValues(rgb), precise: sanitizePreciseColor(precise) }
+    : { rgb: sanitizeRgbValues(rgb) };
+}
 
 /**
- * Adds a new color entry to the collection
+ * Color to be added: its name, sRGB value and, for wide-gamut colors, the
+ * precise original
+ */
+export interface NewColor {
+  name: string;
+  rgb: RGB;
+  precise?: PreciseColor;
+}
+
+/**
+ * Builds the entries of new colors appended after a palette's colors
+ * Throws if a name is already taken (case-insensitive), also among the new
+ * colors, or if the palette would exceed the color limit
+ */
+export function createColorEntries(
+  newColors: NewColor[],
+  currentColors: ColorEntry[],
+): ColorEntry[] {
+  const takenNames = new Set(
+    currentColors.map((color) => color.name.toLowerCase()),
+  );
+
+  const entries = newColors.map((color, position) => {
+    const normalizedName = color.name.trim();
+
+    if (takenNames.has(normalizedName.toLowerCase())) {
+      throw new DuplicateColorError(normalizedName);
+    }
+    takenNames.add(normalizedName.toLowerCase());
+
+    return {
+      id: generateId(),
+      index: currentColors.length + position,
+      name: normalizedName,
+      ...toStoredColor(color.rgb, color.precise),
+    };
+  });
+
+  assertWithinColorLimit(currentColors.length + entries.length);
+
+  return entries;
+}
+
+/**
+ * Adds a new color entry to a palette (the active palette by default)
  * Handles duplicate name validation and proper indexing
+ * Wide-gamut colors pass their precise value alongside the sRGB fallback
  */
 export async function addColor(
   name: string,
-  rgb: { r: number; g: number; b: number },
+  rgb: RGB,
+  paletteId?: string,
+  precise?: PreciseColor,
 ): Promise<ColorEntry[]> {
-  return withErrorHandling(async () => {
-    // Load current colors
-    const currentColors = await loadColors();
+  return withErrorHandling(
+    () =>
+      withColorStoreLock(async () => {
+        // Load current colors
+        const currentColors = await loadColors(paletteId);
 
-    // Check for duplicate names (case-insensitive)
-    const normalizedName = name.trim();
-    const isDuplicate = currentColors.some(
-      (color) => color.name.toLowerCase() === normalizedName.toLowerCase(),
-    );
+        // Check for duplicate names (case-insensitive)
+        const normalizedName = name.trim();
+        const isDuplicate = currentColors.some(
+          (color) => color.name.toLowerCase() === normalizedName.toLowerCase(),
+        );
 
-    if (isDuplicate) {
-      throw new DuplicateColorError(normalizedName);
-    }
+        if (isDuplicate) {
+          throw new DuplicateColorError(normalizedName);
+        }
 
-    // Check if we're at the maximum limit
-    if (currentColors.length >= MAX_COLORS) {
-      throw new MaxColorsReachedError(MAX_COLORS);
-    }
+        // Check if we're at the configured limit (null means unlimited)
+        const { maxColors } = getUserPreferences();
+        if (maxColors !== null && currentColors.length >= maxColors) {
+          throw new MaxColorsReachedError(maxColors);
+        }
 
-    // Create new color entry with sanitized RGB values
-    const newColor: ColorEntry = {
-      index: currentColors.length,
-      name: normalizedName,
-      rgb: sanitizeRgbValues(rgb),
-    };
+        // Create new color entry with sanitized RGB values
+        const newColor: ColorEntry = {
+          id: generateId(),
+          index: currentColors.length,
+          name: normalizedName,
+          ...toStoredColor(rgb, precise),
+        };
+
+        // Add to collection and save
+        const updatedColors = [...currentColors, newColor];
+        await saveColors(updatedColors, paletteId);
+
+        return updatedColors;
+      }),
+    "Failed to add color",
+  );
+}
+
+/**
+ * Adds several colors to a palette (the active palette by default) in a
+ * single locked save, so either every color is added or none is
+ */
+export async function addColors(
+  newColors: NewColor[],
+  paletteId?: string,
+): Promise<ColorEntry[]> {
+  return withErrorHandling(
+    () =>
+      withColorStoreLock(async () => {
+        const currentColors = await loadColors(paletteId);
+        const updatedColors = [
+          ...currentColors,
+          ...createColorEntries(newColors, currentColors),
+        ];
 
-    // Add to collection and save
-    const updatedColors = [...currentColors, newColor];
-    await saveColors(updatedColors);
+        await saveColors(updatedColors, paletteId);
 
-    return updatedColors;
-  }, "Failed to add color");
+        return updatedColors;
+      }),
+    "Failed to add colors",
+  );
 }
 
 /**
- * Edits an existing color entry by index
+ * Edits an existing color entry by id within a palette
  * Handles validation and duplicate name checking
+ * The precise value is replaced as well, omitting it drops it; the
+ * description and design token source are kept
  */
 export async function editColor(
-  index: number,
+  colorId: string,
   name: string,
-  rgb: { r: number; g: number; b: number },
+  rgb: RGB,
+  paletteId?: string,
+  precise?: PreciseColor,
 ): Promise<ColorEntry[]> {
-  return withErrorHandling(async () => {
-    // Load current colors
-    const currentColors = await loadColors();
+  return withErrorHandling(
+    () =>
+      withColorStoreLock(async () => {
+        // Load current colors
+        const currentColors = await loadColors(paletteId);
 
-    // Validate index
-    if (index < 0 || index >= currentColors.length) {
-      throw new ColorNotFoundError(index);
-    }
+        // Resolve the color's current position from its id
+        const index = findColorIndex(currentColors, colorId);
 
-    // Check for duplicate names (excluding the current color)
-    const normalizedName = name.trim();
-    const isDuplicate = currentColors.some(
-      (color, i) =>
-        i !== index &&
-        color.name.toLowerCase() === normalizedName.toLowerCase(),
-    );
+        // Check for duplicate names (excluding the current color)
+        const normalizedName = name.trim();
+        const isDuplicate = currentColors.some(
+          (color) =>
+            color.id !== colorId &&
+            color.name.toLowerCase() === normalizedName.toLowerCase(),
+        );
 
-    if (isDuplicate) {
-      throw new DuplicateColorError(normalizedName);
-    }
+        if (isDuplicate) {
+          throw new DuplicateColorError(normalizedName);
+        }
 
-    // Update the color entry with sanitized RGB values
-    const updatedColors = [...currentColors];
-    updatedColors[index] = {
-      index,
-      name: normalizedName,
-      rgb: sanitizeRgbValues(rgb),
-    };
+        // Update the color entry with sanitized RGB values, keeping its
+        // description and design token source
+        const { description, token } = currentColors[index];
+        const updatedColors = [...currentColors];
+        updatedColors[index] = {
+          id: colorId,
+          index,
+          name: normalizedName,
+          ...toStoredColor(rgb, precise),
+          ...(description !== undefined ? { description } : {}),
+          ...(token !== undefined ? { token } : {}),
+        };
 
-    // Save updated colors
-    await saveColors(updatedColors);
+        // Save updated colors
+        await saveColors(updatedColors, paletteId);
 
-    return updatedColors;
-  }, "Failed to edit color");
+        return updatedColors;
+      }),
+    "Failed to edit color",
+  );
 }
 
 /**
- * Deletes a color entry by index
+ * Deletes a color entry by id within a palette
  * Handles proper re-indexing of remaining colors
  */
-export async function deleteColor(index: number): Promise<ColorEntry[]> {
-  return withErrorHandling(async () => {
-    // Load current colors
-    const currentColors = await loadColors();
-
-    // Validate index
-    if (index < 0 || index >= currentColors.length) {
-      throw new ColorNotFoundError(index);
-    }
+export async function deleteColor(
+  colorId: string,
+  paletteId?: string,
+): Promise<ColorEntry[]> {
+  return withErrorHandling(
+    () =>
+      withColorStoreLock(async () => {
+        // Load current colors
+        const currentColors = await loadColors(paletteId);
+
+        // Ensure the color exists
+        findColorIndex(currentColors, colorId);
+
+        // Remove the color and re-index remaining colors
+        const updatedColors = currentColors
+          .filter((color) => color.id !== colorId)
+          .map((color, newIndex) => ({
+            ...color,
+            index: newIndex,
+          }));
+
+        // Save updated colors
+        await saveColors(updatedColors, paletteId);
+
+        return updatedColors;
+      }),
+    "Failed to delete color",
+  );
+}
+
+/**
+ * Deletes several color entries by id within a palette in a single save
+ * Handles proper re-indexing of remaining colors
+ */
+export async function deleteColors(
+  colorIds: string[],
+  paletteId?: string,
+): Promise<ColorEntry[]> {
+  return withErrorHandling(
+    () =>
+      withColorStoreLock(async () => {
+        // Load current colors
+        const currentColors = await loadColors(paletteId);
+
+        // Ensure every color exists
+        colorIds.forEach((colorId) => findColorIndex(currentColors, colorId));
 
-    // Remove the color and re-index remaining colors
-    const updatedColors = currentColors
-      .filter((_, i) => i !== index)
-      .map((color, newIndex) => ({
-        ...color,
-        index: newIndex,
-      }));
+        // Remove the colors and re-index remaining colors
+        const removedIds = new Set(colorIds);
+        const updatedColors = currentColors
+          .filter((color) => !removedIds.has(color.id))
+          .map((color, newIndex) => ({
+            ...color,
+            index: newIndex,
+          }));
 
-    // Save updated colors
-    await saveColors(updatedColors);
+        // Save updated colors
+        await saveColors(updatedColors, paletteId);
 
-    return updatedColors;
-  }, "Failed to delete color");
+        return updatedColors;
+      }),
+    "Failed to delete colors",
+  );
 }
@@ -0,0 +1,151 @@
+import { MemoryStorage, StorageBackend, setStorage } from "../storage";
+import {
+  COLOR_FILE_PATH,
+  addColor,
+  addColors,
+  createPalette,
+  deleteColor,
+  editColor,
+  importPalettes,
+  loadColors,
+  loadPaletteStore,
+} from ".";
+import { DEFAULT_COLORS } from "./defaultColors";
+import {
+  DuplicateColorError,
+  DuplicatePaletteError,
+} from "../../utils/errorUtils";
+
+// The Raycast runtime is not available in tests
+jest.mock(
+  "@raycast/api",
+  () => ({
+    getPreferenceValues: () => ({}),
+    environment: { supportPath: "/tmp/mycolor-test" },
+  }),
+  { virtual: true },
+);
+
+describe("color service on MemoryStorage", () => {
+  let storage: MemoryStorage;
+  let previous: StorageBackend;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    previous = setStorage(storage);
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setStorage(previous);
+    jest.restoreAllMocks();
+  });
+
+  it("creates the default palette store on first load", async () => {
+    const colors = await loadColors();
+
+    expect(colors.map((color) => color.name)).toEqual(
+      DEFAULT_COLORS.map((color) => color.name),
+    );
+    expect(await storage.exists(COLOR_FILE_PATH)).toBe(true);
+  });
+
+  it("adds, edits and deletes colors in the stored file", async () => {
+    const added = await addColor("Brand", { r: 10, g: 20, b: 30 });
+    const brand = added[added.length - 1];
+
+    await editColor(brand.id, "Brand Blue", { r: 0, g: 0, b: 255 });
+    let stored = JSON.parse(await storage.read(COLOR_FILE_PATH));
+    expect(JSON.stringify(stored)).toContain("Brand Blue");
+
+    await deleteColor(brand.id);
+    stored = JSON.parse(await storage.read(COLOR_FILE_PATH));
+    expect(JSON.stringify(stored)).not.toContain("Brand Blue");
+    expect(await loadColors()).toHaveLength(DEFAULT_COLORS.length);
+  });
+
+  it("rejects duplicate color names", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    await addColor("Brand", { r: 10, g: 20, b: 30 });
+
+    await expect(addColor("brand", { r: 1, g: 2, b: 3 })).rejects.toThrow(
+      DuplicateColorError,
+    );
+  });
+
+  it("creates palettes and imports palettes with numbered names", async () => {
+    await createPalette("Brand");
+    const store = await importPalettes([
+      {
+        name: "Brand",
+        colors: [
+          { id: "a", index: 0, name: "Red", rgb: { r: 255, g: 0, b: 0 } },
+        ],
+      },
+    ]);
+
+    const imported = store.palettes[store.palettes.length - 1];
+    expect(imported.name).toBe("Brand 2");
+    expect(store.activePaletteId).toBe(imported.id);
+    expect((await loadPaletteStore()).palettes).toHaveLength(
+      store.palettes.length,
+    );
+    expect(await loadColors(imported.id)).toEqual([
+      expect.objectContaining({ name: "Red", rgb: { r: 255, g: 0, b: 0 } }),
+    ]);
+  });
+
+  it("adds several colors in one save or none at all", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    await addColor("Brand 500", { r: 10, g: 20, b: 30 });
+    const before = await storage.read(COLOR_FILE_PATH);
+
+    await expect(
+      addColors([
+        { name: "Brand 100", rgb: { r: 200, g: 210, b: 220 } },
+        { name: "brand 500", rgb: { r: 1, g: 2, b: 3 } },
+      ]),
+    ).rejects.toThrow(DuplicateColorError);
+    expect(await storage.read(COLOR_FILE_PATH)).toBe(before);
+
+    const colors = await addColors([
+      { name: "Brand 100", rgb: { r: 200, g: 210, b: 220 } },
+      {
+        name: "Brand 900",
+        rgb: { r: 0, g: 0, b: 40 },
+        precise: { space: "display-p3", coords: [0, 0, 0.16] },
+      },
+    ]);
+    expect(colors.slice(-3)).toEqual([
+      expect.objectContaining({ name: "Brand 500" }),
+      expect.objectContaining({ name: "Brand 100", index: colors.length - 2 }),
+      expect.objectContaining({
+        name: "Brand 900",
+        precise: { space: "display-p3", coords: [0, 0, 0.16] },
+      }),
+    ]);
+  });
+
+  it("creates a palette together with its colors", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    await createPalette("Brand");
+    const before = await storage.read(COLOR_FILE_PATH);
+
+    // A failing palette leaves nothing behind
+    await expect(
+      createPalette("Scale", [
+        { name: "Gray", rgb: { r: 128, g: 128, b: 128 } },
+        { name: "gray", rgb: { r: 120, g: 120, b: 120 } },
+      ]),
+    ).rejects.toThrow(DuplicateColorError);
+    await expect(createPalette("brand")).rejects.toThrow(DuplicatePaletteError);
+    expect(await storage.read(COLOR_FILE_PATH)).toBe(before);
+
+    const store = await createPalette("Scale", [
+      { name: "Gray", rgb: { r: 128, g: 128, b: 128 } },
+    ]);
+    expect(await loadColors(store.activePaletteId)).toEqual([
+      expect.objectContaining({ name: "Gray", index: 0 }),
+    ]);
+  });
+});
@@ -1,32 +1,59 @@
-import { ColorEntry } from "../../types";
+import { ColorEntry, PaletteStore } from "../../types";
+import {
+  DEFAULT_PALETTE_ID,
+  DEFAULT_PALETTE_NAME,
+} from "../../constants/appConstants";
 
 /**
  * Default colors to create when no file exists (requirement 1.4)
  */
 export const DEFAULT_COLORS: ColorEntry[] = [
   {
+    id: "default-primary-red",
     index: 0,
     name: "Primary Red",
     rgb: { r: 255, g: 90, b: 90 },
   },
   {
+    id: "default-ocean-blue",
     index: 1,
     name: "Ocean Blue",
     rgb: { r: 52, g: 152, b: 219 },
   },
   {
+    id: "default-forest-green",
     index: 2,
     name: "Forest Green",
     rgb: { r: 46, g: 204, b: 113 },
   },
   {
+    id: "default-sunset-orange",
     index: 3,
     name: "Sunset Orange",
     rgb: { r: 255, g: 165, b: 0 },
   },
   {
+    id: "default-purple-accent",
     index: 4,
     name: "Purple Accent",
     rgb: { r: 155, g: 89, b: 182 },
   },
 ];
+
+/**
+ * Creates the initial palette store holding the default colors
+ */
+export function createDefaultPaletteStore(
+  colors: ColorEntry[] = DEFAULT_COLORS,
+): PaletteStore {
+  return {
+    activePaletteId: DEFAULT_PALETTE_ID,
+    palettes: [
+      {
+        id: DEFAULT_PALETTE_ID,
+        name: DEFAULT_PALETTE_NAME,
+        colors,
+      },
+    ],
+  };
+}
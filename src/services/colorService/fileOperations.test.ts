@@ -0,0 +1,122 @@
+import { dirname } from "path";
+import { MemoryStorage, StorageBackend, setStorage } from "../storage";
+import { COLOR_FILE_PATH, loadPaletteStoreWithReport } from ".";
+import { COLOR_STORE_SCHEMA_VERSION } from "../../constants/appConstants";
+import { CachedColorOperations } from "../../utils/cacheUtils";
+
+// The Raycast runtime is not available in tests
+jest.mock(
+  "@raycast/api",
+  () => ({
+    getPreferenceValues: () => ({}),
+    environment: { supportPath: "/tmp/mycolor-test" },
+  }),
+  { virtual: true },
+);
+
+const QUARANTINE_PATTERN = /\/colors\.corrupted-[\dT-]+Z\.json$/;
+
+describe("loading a damaged colors file", () => {
+  let storage: MemoryStorage;
+  let previous: StorageBackend;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    previous = setStorage(storage);
+    CachedColorOperations.clearAllCaches();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+    jest.spyOn(console, "warn").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setStorage(previous);
+    jest.restoreAllMocks();
+  });
+
+  it("moves corrupted JSON aside and starts from an empty palette", async () => {
+    await storage.write(COLOR_FILE_PATH, '{"palettes": [');
+
+    const { store, report } = await loadPaletteStoreWithReport();
+
+    expect(store.palettes).toEqual([expect.objectContaining({ colors: [] })]);
+    expect(report.corruptionReason).toMatch(/^The file is not valid JSON/);
+    expect(report.droppedEntries).toEqual([]);
+    expect(report.quarantinedFilePath).toMatch(QUARANTINE_PATTERN);
+    expect(dirname(report.quarantinedFilePath!)).toBe(dirname(COLOR_FILE_PATH));
+
+    // The damaged content is kept, the store itself is replaced
+    expect(await storage.read(report.quarantinedFilePath!)).toBe(
+      '{"palettes": [',
+    );
+    expect(JSON.parse(await storage.read(COLOR_FILE_PATH))).toEqual(
+      expect.objectContaining({ schemaVersion: COLOR_STORE_SCHEMA_VERSION }),
+    );
+  });
+
+  it("drops invalid entries, lists them and keeps a copy of the original", async () => {
+    const original = JSON.stringify({
+      schemaVersion: COLOR_STORE_SCHEMA_VERSION,
+      activePaletteId: "default",
+      palettes: [
+        {
+          id: "default",
+          name: "Default",
+          colors: [
+            { id: "red", index: 0, name: "Red", rgb: { r: 255, g: 0, b: 0 } },
+            { id: "bad", index: 1, name: "Bad", rgb: { r: 300, g: 0, b: 0 } },
+            { id: "nameless", index: 2, rgb: { r: 0, g: 0, b: 255 } },
+          ],
+        },
+        { id: "broken", colors: [] },
+      ],
+    });
+    await storage.write(COLOR_FILE_PATH, original);
+
+    const { store, report } = await loadPaletteStoreWithReport();
+
+    expect(store.palettes).toHaveLength(1);
+    expect(store.palettes[0].colors.map((color) => color.name)).toEqual([
+      "Red",
+    ]);
+    expect(report.corruptionReason).toBeUndefined();
+    expect(report.droppedEntries).toEqual([
+      {
+        position: 1,
+        reason: "Palette is missing an id, name or colors list",
+        value: { id: "broken", colors: [] },
+      },
+      {
+        paletteName: "Default",
+        position: 1,
+        reason: expect.stringMatching(/^RGB values/),
+        value: expect.objectContaining({ name: "Bad" }),
+      },
+      {
+        paletteName: "Default",
+        position: 2,
+        reason: "Missing or empty name",
+        value: expect.objectContaining({ id: "nameless" }),
+      },
+    ]);
+
+    // The untouched file is copied aside before the cleaned one replaces it
+    expect(report.quarantinedFilePath).toMatch(QUARANTINE_PATTERN);
+    expect(await storage.read(report.quarantinedFilePath!)).toBe(original);
+    const stored = JSON.parse(await storage.read(COLOR_FILE_PATH));
+    expect(stored.palettes).toEqual(store.palettes);
+  });
+
+  it("treats a file whose every color is invalid as corrupted", async () => {
+    await storage.write(
+      COLOR_FILE_PATH,
+      JSON.stringify([{ index: 0, name: "Bad", rgb: { r: -1, g: 0, b: 0 } }]),
+    );
+
+    const { store, report } = await loadPaletteStoreWithReport();
+
+    expect(store.palettes[0].colors).toEqual([]);
+    expect(report.corruptionReason).toBe("The file contains no valid colors");
+    expect(report.quarantinedFilePath).toMatch(QUARANTINE_PATTERN);
+    expect(await storage.exists(report.quarantinedFilePath!)).toBe(true);
+  });
+});
@@ -1,69 +1,257 @@
-import { promises as fs } from "fs";
-import { ColorEntry, isValidColorEntry } from "../../types";
-import { DEFAULT_COLORS } from "./defaultColors";
-import { MAX_COLORS } from "../../constants/appConstants";
+import { dirname } from "path";
 import {
-  getColorDirectory,
-  getColorFilePath,
-  ensureDirectoryExists,
-  fileExists,
-  readJsonFile,
-  writeJsonFile,
-} from "../../utils/fileSystemUtils";
-import { withErrorHandling } from "../../utils/errorUtils";
+  ColorEntry,
+  DroppedEntry,
+  Palette,
+  PaletteStore,
+  StoreLoadReport,
+} from "../../types";
+import { createDefaultPaletteStore } from "./defaultColors";
+import {
+  MigrationResult,
+  assertSupportedSchemaVersion,
+  migrateToCurrentSchema,
+  parseStoreDocument,
+  sanitizeColorList,
+  toStoreDocument,
+} from "./schemaMigrations";
+import { getColorFilePath } from "../../utils/fileSystemUtils";
+import {
+  getStorage,
+  migrateColorDirectory,
+  quarantineFile,
+  readStorageJson,
+  writeStorageJson,
+} from "../storage";
+import {
+  ColorNotFoundError,
+  ColorValidationError,
+  FileOperationError,
+  PaletteNotFoundError,
+  UnsupportedSchemaVersionError,
+  withErrorHandling,
+} from "../../utils/errorUtils";
 import { CachedColorOperations } from "../../utils/cacheUtils";
+import { backupManager } from "../../utils/backupUtils";
 
 /**
  * Path to the colors.json file
  */
 export const COLOR_FILE_PATH = getColorFilePath();
 
+/**
+ * Finds a palette in the store, defaulting to the active palette
+ */
+export function findPalette(store: PaletteStore, paletteId?: string): Palette {
+  const targetId = paletteId ?? store.activePaletteId;
+  const palette = store.palettes.find((p) => p.id === targetId);
+
+  if (!palette) {
+    throw new PaletteNotFoundError(targetId);
+  }
+
+  return palette;
+}
+
+/**
+ * Finds the position of a color by its id, throwing if it does not exist
+ */
+export function findColorIndex(colors: ColorEntry[], colorId: string): number {
+  const index = colors.findIndex((color) => color.id === colorId);
+
+  if (index === -1) {
+    throw new ColorNotFoundError(colorId);
+  }
+
+  return index;
+}
+
 /**
  * Ensures the color file exists, creating it with default colors if necessary
+ * Data found at a previous storage location is copied over instead
  * Creates the directory structure if it doesn't exist
  * Requirements: 1.4, 4.3
  */
 export async function ensureColorFile(): Promise<void> {
-  return withErrorHandling(async () => {
-    const exists = await fileExists(COLOR_FILE_PATH);
+  return withErrorHandling(
+    () =>
+      withColorStoreLock(async () => {
+        const storage = getStorage();
+        let exists = await storage.exists(COLOR_FILE_PATH);
+
+        if (!exists) {
+          // Pick up data left at a previous storage location
+          await migrateColorDirectory(dirname(COLOR_FILE_PATH));
+          exists = await storage.exists(COLOR_FILE_PATH);
+        }
+
+        if (!exists) {
+          // Write default palette store to file
+          await writeStorageJson(
+            COLOR_FILE_PATH,
+            toStoreDocument(createDefaultPaletteStore()),
+          );
+
+          console.log("Created default colors file");
+        }
+      }),
+    "Failed to ensure color file exists",
+  );
+}
+
+/**
+ * Runs an operation while holding the cross-process lock on colors.json
+ * Wrap every read-modify-write sequence so concurrent writers cannot clobber it
+ */
+export function withColorStoreLock<T>(operation: () => Promise<T>): Promise<T> {
+  return getStorage().withLock(COLOR_FILE_PATH, operation);
+}
+
+/**
+ * Result of loading the palette store together with what recovery happened
+ */
+export interface PaletteStoreLoadResult {
+  store: PaletteStore;
+  report: StoreLoadReport;
+}
+
+/**
+ * Parses raw colors.json text, describing why it is unusable if it is
+ * Newer schema versions are rethrown, they are not corruption
+ */
+function parseStoreFile(
+  content: string,
+  dropped: DroppedEntry[],
+):
+  | { store: PaletteStore; rawData: unknown; migration: MigrationResult }
+  | { corruptionReason: string } {
+  if (content.trim().length === 0) {
+    return { corruptionReason: "The file is empty" };
+  }
+
+  let rawData: unknown;
+  try {
+    rawData = JSON.parse(content);
+  } catch (error) {
+    return {
+      corruptionReason: `The file is not valid JSON (${error instanceof Error ? error.message : String(error)})`,
+    };
+  }
+
+  let migration: MigrationResult;
+  try {
+    migration = migrateToCurrentSchema(rawData);
+  } catch (error) {
+    if (error instanceof ColorValidationError) {
+      return { corruptionReason: error.message };
+    }
+    throw error;
+  }
+
+  const store = parseStoreDocument(migration.data, dropped);
+
+  if (!store) {
+    return { corruptionReason: "The file contains no valid palettes" };
+  }
+
+  // Every entry failed validation, nothing of the original survives
+  const hasColors = store.palettes.some((palette) => palette.colors.length > 0);
+  if (!hasColors && dropped.length > 0) {
+    return { corruptionReason: "The file contains no valid colors" };
+  }
+
+  return { store, rawData, migration };
+}
+
+/**
+ * Reads colors.json, migrating older schemas and persisting the upgrade
+ * A corrupted file is moved aside and replaced by an empty palette instead of
+ * the sample colors, so a later save can never overwrite the real data
+ * Must be called while holding the color store lock
+ */
+async function readAndUpgradeStore(): Promise<PaletteStoreLoadResult> {
+  // Ensure the color file exists first
+  await ensureColorFile();
+
+  const content = await getStorage().read(COLOR_FILE_PATH);
+  const report: StoreLoadReport = { droppedEntries: [] };
+  const parsed = parseStoreFile(content, report.droppedEntries);
+
+  if ("corruptionReason" in parsed) {
+    console.warn(`Colors file is corrupted: ${parsed.corruptionReason}`);
+
+    report.corruptionReason = parsed.corruptionReason;
+    report.quarantinedFilePath = await quarantineFile(COLOR_FILE_PATH);
+
+    const emptyStore = createDefaultPaletteStore([]);
+    await writeStorageJson(COLOR_FILE_PATH, toStoreDocument(emptyStore));
+
+    return { store: emptyStore, report };
+  }
 
-    if (!exists) {
-      // Ensure directory exists
-      await ensureDirectoryExists(getColorDirectory());
+  const { store, rawData, migration } = parsed;
 
-      // Write default colors to file
-      await writeJsonFile(COLOR_FILE_PATH, DEFAULT_COLORS);
+  if (report.droppedEntries.length > 0) {
+    console.warn(
+      `Dropped ${report.droppedEntries.length} invalid entries from colors file`,
+    );
 
-      console.log("Created default colors file");
+    // Keep a copy of the untouched file before the cleaned version replaces it
+    report.quarantinedFilePath = await quarantineFile(COLOR_FILE_PATH, {
+      keepOriginal: true,
+    });
+  }
+
+  const document = toStoreDocument(store);
+
+  if (migration.applied.length > 0) {
+    console.log(
+      `Migrated colors file from schema ${migration.fromVersion} to ${migration.toVersion}: ${migration.applied.join("; ")}`,
+    );
+
+    // Keep the original content; only persist the upgrade once it is backed up
+    const backupPath = await backupManager.createPreMigrationBackup(
+      rawData,
+      migration.fromVersion,
+    );
+
+    if (backupPath) {
+      await writeStorageJson(COLOR_FILE_PATH, document);
     }
-  }, "Failed to ensure color file exists");
+  } else if (JSON.stringify(rawData) !== JSON.stringify(document)) {
+    // Persist normalization (e.g., newly assigned color ids) so that ids stay
+    // stable across reloads instead of being regenerated on every load
+    await writeStorageJson(COLOR_FILE_PATH, document);
+  }
+
+  return { store, report };
 }
 
 /**
- * Loads colors from the local JSON file with caching
- * Handles file not found scenarios and validates color data
+ * Loads the palette store and reports any recovery that took place
+ * Corrupted files are quarantined and dropped entries are listed, so the UI
+ * can offer restoring a backup instead of silently showing defaults
  * Requirements: 1.3, 4.2, 4.3
  */
-export async function loadColors(): Promise<ColorEntry[]> {
+export async function loadPaletteStoreWithReport(): Promise<PaletteStoreLoadResult> {
   try {
     // Check cache first
-    const cachedColors = CachedColorOperations.getCachedColors();
+    const cachedStore = CachedColorOperations.getCachedPaletteStore();
 
     // Check if file has changed since last cache
     const filePath = COLOR_FILE_PATH;
     let shouldUseCache = false;
 
-    if (cachedColors && (await fileExists(filePath))) {
+    if (cachedStore) {
       try {
-        const stats = await fs.stat(filePath);
-        const currentMetadata = {
-          lastModified: stats.mtime.getTime(),
-          size: stats.size,
-        };
+        const currentMetadata = await getStorage().stat(filePath);
 
-        if (!CachedColorOperations.hasFileChanged(currentMetadata)) {
+        if (
+          currentMetadata &&
+          !CachedColorOperations.hasFileChanged(currentMetadata)
+        ) {
           shouldUseCache = true;
-        } else {
+        } else if (currentMetadata) {
           // Update cached metadata
           CachedColorOperations.setCachedFileMetadata(currentMetadata);
         }
@@ -72,93 +260,135 @@ export async function loadColors(): Promise<ColorEntry[]> {
       }
     }
 
-    if (shouldUseCache && cachedColors) {
-      return cachedColors;
+    if (shouldUseCache && cachedStore) {
+      return { store: cachedStore, report: { droppedEntries: [] } };
     }
 
-    // Ensure the color file exists first
-    await ensureColorFile();
+    // Read under the lock so that migration write-backs cannot race a writer
+    const result = await withColorStoreLock(readAndUpgradeStore);
 
-    // Try to read the colors file
-    const parsedData = await readJsonFile<unknown>(COLOR_FILE_PATH);
+    // Cache the loaded store
+    CachedColorOperations.setCachedPaletteStore(result.store);
 
-    // Validate that we have an array
-    if (!Array.isArray(parsedData)) {
-      console.warn(
-        "Colors file does not contain an array, falling back to defaults",
-      );
-      const colors = DEFAULT_COLORS;
-      CachedColorOperations.setCachedColors(colors);
-      return colors;
+    return result;
+  } catch (error) {
+    // Never fall back to defaults here, a later save would replace the real
+    // data with the defaults
+    if (
+      error instanceof UnsupportedSchemaVersionError ||
+      error instanceof FileOperationError
+    ) {
+      throw error;
     }
 
-    // Filter and validate color entries
-    const validColors = parsedData
-      .filter((item: unknown) => isValidColorEntry(item))
-      .slice(0, MAX_COLORS); // Limit to maximum colors (requirement 1.2)
-
-    // If no valid colors found, return defaults
-    if (validColors.length === 0) {
-      console.warn("No valid colors found in file, falling back to defaults");
-      const colors = DEFAULT_COLORS;
-      CachedColorOperations.setCachedColors(colors);
-      return colors;
-    }
+    console.error("Failed to load colors:", error);
+    throw new FileOperationError(
+      `Failed to load colors: ${error instanceof Error ? error.message : String(error)}`,
+      COLOR_FILE_PATH,
+    );
+  }
+}
 
-    // Cache the loaded colors
-    CachedColorOperations.setCachedColors(validColors);
+/**
+ * Loads the palette store from the local JSON file with caching
+ * Older schema versions are migrated and written back after a backup of the
+ * original content; files from a newer version are rejected, never replaced
+ * Requirements: 1.3, 4.2, 4.3
+ */
+export async function loadPaletteStore(): Promise<PaletteStore> {
+  const { store } = await loadPaletteStoreWithReport();
+  return store;
+}
 
-    return validColors;
-  } catch (error) {
-    // Handle file not found or JSON parsing errors
-    if (error instanceof Error) {
-      console.warn(`Failed to load colors: ${error.message}`);
-    }
+/**
+ * Saves the palette store to the local JSON file with cache invalidation
+ * Ensures proper file system operations and error handling
+ */
+export async function savePaletteStore(store: PaletteStore): Promise<void> {
+  return withErrorHandling(
+    () =>
+      withColorStoreLock(async () => {
+        const storage = getStorage();
 
-    // Return default colors as fallback (requirement 4.3)
-    const colors = DEFAULT_COLORS;
-    CachedColorOperations.setCachedColors(colors);
-    return colors;
-  }
+        // Refuse to overwrite a file written by a newer version
+        if (await storage.exists(COLOR_FILE_PATH)) {
+          try {
+            assertSupportedSchemaVersion(
+              await readStorageJson<unknown>(COLOR_FILE_PATH),
+            );
+          } catch (error) {
+            if (error instanceof UnsupportedSchemaVersionError) {
+              throw error;
+            }
+            // Unreadable content is replaced below
+          }
+        }
+
+        // Validate, limit and re-index colors of every palette
+        const usedIds = new Set<string>();
+        const sanitizedStore: PaletteStore = {
+          activePaletteId: store.activePaletteId,
+          palettes: store.palettes.map((palette) => ({
+            ...palette,
+            colors: sanitizeColorList(palette.colors, usedIds),
+          })),
+        };
+
+        // Write versioned document to file
+        await writeStorageJson(
+          COLOR_FILE_PATH,
+          toStoreDocument(sanitizedStore),
+        );
+
+        // Update cache with new data
+        CachedColorOperations.setCachedPaletteStore(sanitizedStore);
+
+        // Update file metadata cache
+        try {
+          const metadata = await storage.stat(COLOR_FILE_PATH);
+          if (metadata) {
+            CachedColorOperations.setCachedFileMetadata(metadata);
+          }
+        } catch (error) {
+          console.warn("Failed to update file metadata cache:", error);
+        }
+
+        console.log(`Saved ${sanitizedStore.palettes.length} palettes to file`);
+      }),
+    "Failed to save colors to file",
+  );
 }
 
 /**
- * Saves colors array to the local JSON file with cache invalidation
+ * Loads the colors of a palette (the active palette by default)
+ * Requirements: 1.3, 4.2, 4.3
+ */
+export async function loadColors(paletteId?: string): Promise<ColorEntry[]> {
+  const store = await loadPaletteStore();
+  return findPalette(store, paletteId).colors;
+}
+
+/**
+ * Saves colors into a palette (the active palette by default)
  * Ensures proper file system operations and error handling
  */
-export async function saveColors(colors: ColorEntry[]): Promise<void> {
-  return withErrorHandling(async () => {
-    // Ensure directory exists
-    await ensureDirectoryExists(getColorDirectory());
-
-    // Validate and limit colors to maximum
-    const validColors = colors
-      .filter((color) => isValidColorEntry(color))
-      .slice(0, MAX_COLORS);
-
-    // Re-index colors to ensure proper ordering
-    const reindexedColors = validColors.map((color, index) => ({
-      ...color,
-      index,
-    }));
-
-    // Write colors to file
-    await writeJsonFile(COLOR_FILE_PATH, reindexedColors);
-
-    // Update cache with new data
-    CachedColorOperations.setCachedColors(reindexedColors);
-
-    // Update file metadata cache
-    try {
-      const stats = await fs.stat(COLOR_FILE_PATH);
-      CachedColorOperations.setCachedFileMetadata({
-        lastModified: stats.mtime.getTime(),
-        size: stats.size,
-      });
-    } catch (error) {
-      console.warn("Failed to update file metadata cache:", error);
-    }
+export async function saveColors(
+  colors: ColorEntry[],
+  paletteId?: string,
+): Promise<void> {
+  return withErrorHandling(
+    () =>
+      withColorStoreLock(async () => {
+        const store = await loadPaletteStore();
+        const targetId = findPalette(store, paletteId).id;
 
-    console.log(`Saved ${reindexedColors.length} colors to file`);
-  }, "Failed to save colors to file");
+        await savePaletteStore({
+          ...store,
+          palettes: store.palettes.map((palette) =>
+            palette.id === targetId ? { ...palette, colors } : palette,
+          ),
+        });
+      }),
+    "Failed to save colors to file",
+  );
 }
@@ -1,4 +1,5 @@
 // Re-export all color service functions for backward compatibility
 export * from "./colorOperations";
 export * from "./fileOperations";
+export * from "./paletteOperations";
 export * from "./defaultColors";
@@ -0,0 +1,269 @@
+import { ColorEntry, Palette, PaletteStore } from "../../types";
+import {
+  findPalette,
+  loadPaletteStore,
+  savePaletteStore,
+  withColorStoreLock,
+} from "./fileOperations";
+import { NewColor, createColorEntries } from "./colorOperations";
+import { ensureUniqueIds, generateId } from "../../utils/idUtils";
+import {
+  DuplicatePaletteError,
+  LastPaletteError,
+  withErrorHandling,
+} from "../../utils/errorUtils";
+
+/**
+ * Throws if another palette already uses the given name (case-insensitive)
+ */
+function assertUniquePaletteName(
+  store: PaletteStore,
+  name: string,
+  excludeId?: string,
+): void {
+  const isDuplicate = store.palettes.some(
+    (palette) =>
+      palette.id !== excludeId &&
+      palette.name.toLowerCase() === name.toLowerCase(),
+  );
+
+  if (isDuplicate) {
+    throw new DuplicatePaletteError(name);
+  }
+}
+
+/**
+ * Creates a new palette and makes it the active palette
+ * Colors passed along are saved with the palette in the same write, so a
+ * failure never leaves an empty palette behind
+ */
+export async function createPalette(
+  name: string,
+  colors: NewColor[] = [],
+): Promise<PaletteStore> {
+  return withErrorHandling(
+    () =>
+      withColorStoreLock(async () => {
+        const store = await loadPaletteStore();
+        const normalizedName = name.trim();
+
+        assertUniquePaletteName(store, normalizedName);
+
+        const newPalette: Palette = {
+          id: generateId("palette"),
+          name: normalizedName,
+          colors: createColorEntries(colors, []),
+        };
+
+        const updatedStore: PaletteStore = {
+          activePaletteId: newPalette.id,
+          palettes: [...store.palettes, newPalette],
+        };
+        await savePaletteStore(updatedStore);
+
+        return updatedStore;
+      }),
+    "Failed to create palette",
+  );
+}
+
+/**
+ * Gets a palette name not used by any palette, numbering it if needed
+ * (e.g., "Brand 2")
+ */
+function getAvailablePaletteName(palettes: Palette[], name: string): string {
+  const taken = new Set(palettes.map((palette) => palette.name.toLowerCase()));
+  let candidate = name;
+
+  for (let suffix = 2; taken.has(candidate.toLowerCase()); suffix++) {
+    candidate = `${name} ${suffix}`;
+  }
+
+  return candidate;
+}
+
+/**
+ * Adds imported palettes with their colors, e.g. the groups of a swatch file
+ * Clashing names are numbered and color ids already in use are replaced; the
+ * first imported palette becomes active
+ */
+export async function importPalettes(
+  imported: { name: string; colors: ColorEntry[] }[],
+): Promise<PaletteStore> {
+  return withErrorHandling(
+    () =>
+      withColorStoreLock(async () => {
+        const store = await loadPaletteStore();
+        const palettes = [...store.palettes];
+        const usedIds = new Set(
+          palettes.flatMap((palette) =>
+            palette.colors.map((color) => color.id),
+          ),
+        );
+
+        const newPalettes = imported.map(({ name, colors }) => {
+          const palette: Palette = {
+            id: generateId("palette"),
+            name: getAvailablePaletteName(palettes, name.trim()),
+            // Keeps every color id globally unique
+            colors: ensureUniqueIds(
+              colors.map((color, index) => ({
+                ...color,
+                index,
+                rgb: { ...color.rgb },
+              })),
+              usedIds,
+            ),
+          };
+          palettes.push(palette);
+          return palette;
+        });
+
+        const updatedStore: PaletteStore = {
+          activePaletteId: newPalettes[0]?.id ?? store.activePaletteId,
+          palettes,
+        };
+        await savePaletteStore(updatedStore);
+
+        return updatedStore;
+      }),
+    "Failed to import palettes",
+  );
+}
+
+/**
+ * Renames an existing palette
+ */
+export async function renamePalette(
+  paletteId: string,
+  name: string,
+): Promise<PaletteStore> {
+  return withErrorHandling(
+    () =>
+      withColorStoreLock(async () => {
+        const store = await loadPaletteStore();
+        const normalizedName = name.trim();
+
+        findPalette(store, paletteId);
+        assertUniquePaletteName(store, normalizedName, paletteId);
+
+        const updatedStore: PaletteStore = {
+          ...store,
+          palettes: store.palettes.map((palette) =>
+            palette.id === paletteId
+              ? { ...palette, name: normalizedName }
+              : palette,
+          ),
+        };
+        await savePaletteStore(updatedStore);
+
+        return updatedStore;
+      }),
+    "Failed to rename palette",
+  );
+}
+
+/**
+ * Duplicates a palette including all of its colors
+ * The copy is inserted right after the original and becomes active
+ */
+export async function duplicatePalette(
+  paletteId: string,
+  name?: string,
+): Promise<PaletteStore> {
+  return withErrorHandling(
+    () =>
+      withColorStoreLock(async () => {
+        const store = await loadPaletteStore();
+        const source = findPalette(store, paletteId);
+        const normalizedName = (name ?? `${source.name} Copy`).trim();
+
+        assertUniquePaletteName(store, normalizedName);
+
+        const copy: Palette = {
+          id: generateId("palette"),
+          name: normalizedName,
+          // Copies get fresh ids so that every color id stays globally unique
+          colors: source.colors.map((color) => ({
+            ...color,
+            id: generateId(),
+            rgb: { ...color.rgb },
+          })),
+        };
+
+        const sourceIndex = store.palettes.indexOf(source);
+        const palettes = [...store.palettes];
+        palettes.splice(sourceIndex + 1, 0, copy);
+
+        const updatedStore: PaletteStore = {
+          activePaletteId: copy.id,
+          palettes,
+        };
+        await savePaletteStore(updatedStore);
+
+        return updatedStore;
+      }),
+    "Failed to duplicate palette",
+  );
+}
+
+/**
+ * Deletes a palette and all of its colors
+ * The last remaining palette cannot be deleted
+ */
+export async function deletePalette(paletteId: string): Promise<PaletteStore> {
+  return withErrorHandling(
+    () =>
+      withColorStoreLock(async () => {
+        const store = await loadPaletteStore();
+
+        findPalette(store, paletteId);
+
+        if (store.palettes.length <= 1) {
+          throw new LastPaletteError();
+        }
+
+        const palettes = store.palettes.filter(
+          (palette) => palette.id !== paletteId,
+        );
+
+        const updatedStore: PaletteStore = {
+          // Move the active selection if the active palette was deleted
+          activePaletteId:
+            store.activePaletteId === paletteId
+              ? palettes[0].id
+              : store.activePaletteId,
+          palettes,
+        };
+        await savePaletteStore(updatedStore);
+
+        return updatedStore;
+      }),
+    "Failed to delete palette",
+  );
+}
+
+/**
+ * Switches the active palette
+ */
+export async function setActivePalette(
+  paletteId: string,
+): Promise<PaletteStore> {
+  return withErrorHandling(
+    () =>
+      withColorStoreLock(async () => {
+        const store = await loadPaletteStore();
+
+        findPalette(store, paletteId);
+
+        const updatedStore: PaletteStore = {
+          ...store,
+          activePaletteId: paletteId,
+        };
+        await savePaletteStore(updatedStore);
+
+        return updatedStore;
+      }),
+    "Failed to switch palette",
+  );
+}
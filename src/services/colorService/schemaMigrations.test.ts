@@ -0,0 +1,144 @@
+import { dirname, join } from "path";
+import { MemoryStorage, StorageBackend, setStorage } from "../storage";
+import { COLOR_FILE_PATH, loadPaletteStore, savePaletteStore } from ".";
+import { migrateToCurrentSchema } from "./schemaMigrations";
+import {
+  COLOR_STORE_SCHEMA_VERSION,
+  DEFAULT_PALETTE_NAME,
+} from "../../constants/appConstants";
+import { CachedColorOperations } from "../../utils/cacheUtils";
+import { UnsupportedSchemaVersionError } from "../../utils/errorUtils";
+
+// The Raycast runtime is not available in tests
+jest.mock(
+  "@raycast/api",
+  () => ({
+    getPreferenceValues: () => ({}),
+    environment: { supportPath: "/tmp/mycolor-test" },
+  }),
+  { virtual: true },
+);
+
+const BACKUP_DIRECTORY = join(dirname(COLOR_FILE_PATH), "backups");
+
+// Schema 1: a bare array of colors without ids
+const V1_STORE = [
+  { index: 0, name: "Red", rgb: { r: 255, g: 0, b: 0 } },
+  { index: 1, name: "Blue", rgb: { r: 0, g: 0, b: 255 } },
+];
+
+// Schema 2: palettes without a version marker, colors without ids
+const V2_STORE = {
+  activePaletteId: "brand",
+  palettes: [
+    { id: "default", name: "Default", colors: [V1_STORE[0]] },
+    { id: "brand", name: "Brand", colors: [V1_STORE[1]] },
+  ],
+};
+
+describe("schema migrations on MemoryStorage", () => {
+  let storage: MemoryStorage;
+  let previous: StorageBackend;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    previous = setStorage(storage);
+    CachedColorOperations.clearAllCaches();
+    jest.spyOn(console, "log").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    setStorage(previous);
+    jest.restoreAllMocks();
+  });
+
+  it("upgrades a v1 color array through v2 to the current schema", async () => {
+    await storage.write(COLOR_FILE_PATH, JSON.stringify(V1_STORE));
+
+    const store = await loadPaletteStore();
+
+    expect(store.palettes).toHaveLength(1);
+    expect(store.palettes[0].name).toBe(DEFAULT_PALETTE_NAME);
+    expect(store.palettes[0].colors.map((color) => color.name)).toEqual([
+      "Red",
+      "Blue",
+    ]);
+    store.palettes[0].colors.forEach((color) =>
+      expect(color.id).toEqual(expect.any(String)),
+    );
+    expect(migrateToCurrentSchema(V1_STORE)).toEqual(
+      expect.objectContaining({
+        fromVersion: 1,
+        toVersion: COLOR_STORE_SCHEMA_VERSION,
+        applied: [expect.any(String), expect.any(String)],
+      }),
+    );
+
+    // The upgrade is written back, the original kept as a backup
+    const stored = JSON.parse(await storage.read(COLOR_FILE_PATH));
+    expect(stored.schemaVersion).toBe(COLOR_STORE_SCHEMA_VERSION);
+    expect(stored.palettes).toEqual(store.palettes);
+    expect(await storage.list(BACKUP_DIRECTORY)).toEqual([
+      expect.stringContaining("pre-migration-v1"),
+    ]);
+  });
+
+  it("upgrades a v2 palette document and keeps the active palette", async () => {
+    await storage.write(COLOR_FILE_PATH, JSON.stringify(V2_STORE));
+
+    const store = await loadPaletteStore();
+
+    expect(store.activePaletteId).toBe("brand");
+    expect(
+      store.palettes.map(({ id, name, colors }) => ({
+        id,
+        name,
+        colors: colors.map((color) => color.name),
+      })),
+    ).toEqual([
+      { id: "default", name: "Default", colors: ["Red"] },
+      { id: "brand", name: "Brand", colors: ["Blue"] },
+    ]);
+
+    // Ids stay stable across reloads once they have been written back
+    const ids = store.palettes.flatMap((palette) =>
+      palette.colors.map((color) => color.id),
+    );
+    expect(new Set(ids).size).toBe(2);
+    CachedColorOperations.clearAllCaches();
+    const reloaded = await loadPaletteStore();
+    expect(
+      reloaded.palettes.flatMap((palette) =>
+        palette.colors.map((color) => color.id),
+      ),
+    ).toEqual(ids);
+    expect(await storage.list(BACKUP_DIRECTORY)).toEqual([
+      expect.stringContaining("pre-migration-v2"),
+    ]);
+  });
+
+  it("refuses a store written by a newer version and leaves it untouched", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => undefined);
+    const future = JSON.stringify({
+      schemaVersion: COLOR_STORE_SCHEMA_VERSION + 1,
+      activePaletteId: "default",
+      palettes: [{ id: "default", name: "Default", colors: [], layers: [] }],
+    });
+    await storage.write(COLOR_FILE_PATH, future);
+
+    await expect(loadPaletteStore()).rejects.toThrow(
+      UnsupportedSchemaVersionError,
+    );
+    await expect(
+      savePaletteStore({
+        activePaletteId: "default",
+        palettes: [{ id: "default", name: "Default", colors: [] }],
+      }),
+    ).rejects.toThrow(UnsupportedSchemaVersionError);
+
+    expect(await storage.read(COLOR_FILE_PATH)).toBe(future);
+    expect(await storage.list(dirname(COLOR_FILE_PATH))).toEqual([
+      "colors.json",
+    ]);
+  });
+});
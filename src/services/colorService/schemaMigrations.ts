@@ -0,0 +1,271 @@
+import {
+  ColorEntry,
+  ColorStoreDocument,
+  DroppedEntry,
+  Palette,
+  PaletteStore,
+  getColorEntryIssue,
+  isValidPalette,
+} from "../../types";
+import { createDefaultPaletteStore } from "./defaultColors";
+import { COLOR_STORE_SCHEMA_VERSION } from "../../constants/appConstants";
+import {
+  ColorValidationError,
+  UnsupportedSchemaVersionError,
+} from "../../utils/errorUtils";
+import { ensureUniqueIds } from "../../utils/idUtils";
+
+/**
+ * Schema versions of the colors.json store
+ *
+ * 1 - bare array of colors (single palette)
+ * 2 - `{ activePaletteId, palettes }` document without version marker
+ * 3 - versioned document, every color carries a stable id
+ */
+
+/**
+ * Single step in the migration pipeline, upgrading data by one version
+ */
+interface SchemaMigration {
+  from: number;
+  to: number;
+  description: string;
+  migrate: (data: unknown) => unknown;
+}
+
+/**
+ * Ordered list of migrations; each entry upgrades `from` to `to`
+ */
+const SCHEMA_MIGRATIONS: SchemaMigration[] = [
+  {
+    from: 1,
+    to: 2,
+    description: "Wrap flat color array into the Default palette",
+    migrate: (data) => createDefaultPaletteStore(data as ColorEntry[]),
+  },
+  {
+    from: 2,
+    to: 3,
+    description: "Assign stable color ids and add schema version",
+    migrate: (data) => {
+      const record = data as Record<string, unknown>;
+      const usedIds = new Set<string>();
+      const palettes = Array.isArray(record.palettes) ? record.palettes : [];
+
+      return {
+        ...record,
+        schemaVersion: 3,
+        palettes: palettes.map((palette: Record<string, unknown>) => ({
+          ...palette,
+          colors: Array.isArray(palette.colors)
+            ? ensureUniqueIds(palette.colors as ColorEntry[], usedIds)
+            : palette.colors,
+        })),
+      };
+    },
+  },
+];
+
+/**
+ * Result of running the migration pipeline
+ */
+export interface MigrationResult {
+  data: unknown;
+  fromVersion: number;
+  toVersion: number;
+  applied: string[]; // Descriptions of the migrations that ran
+}
+
+/**
+ * Detects the schema version of raw colors.json content
+ * Returns null when the content is not recognizable as a color store
+ */
+export function detectSchemaVersion(data: unknown): number | null {
+  if (Array.isArray(data)) {
+    return 1;
+  }
+
+  if (typeof data !== "object" || data === null) {
+    return null;
+  }
+
+  const record = data as Record<string, unknown>;
+
+  if (typeof record.schemaVersion === "number") {
+    return record.schemaVersion;
+  }
+
+  return Array.isArray(record.palettes) ? 2 : null;
+}
+
+/**
+ * Throws if data was written by a newer schema than this build understands
+ * Used before writing so that newer files are never overwritten
+ */
+export function assertSupportedSchemaVersion(data: unknown): void {
+  const version = detectSchemaVersion(data);
+
+  if (version !== null && version > COLOR_STORE_SCHEMA_VERSION) {
+    throw new UnsupportedSchemaVersionError(
+      version,
+      COLOR_STORE_SCHEMA_VERSION,
+    );
+  }
+}
+
+/**
+ * Upgrades raw colors.json content to the current schema version
+ * Migrations run one step at a time, in order
+ */
+export function migrateToCurrentSchema(data: unknown): MigrationResult {
+  const fromVersion = detectSchemaVersion(data);
+
+  if (fromVersion === null) {
+    throw new ColorValidationError("Unrecognized color store format");
+  }
+
+  assertSupportedSchemaVersion(data);
+
+  let current = data;
+  let version = fromVersion;
+  const applied: string[] = [];
+
+  while (version < COLOR_STORE_SCHEMA_VERSION) {
+    const migration = SCHEMA_MIGRATIONS.find((m) => m.from === version);
+
+    if (!migration) {
+      throw new ColorValidationError(
+        `No migration available from schema version ${version}`,
+      );
+    }
+
+    current = migration.migrate(current);
+    version = migration.to;
+    applied.push(migration.description);
+  }
+
+  return {
+    data: current,
+    fromVersion,
+    toVersion: version,
+    applied,
+  };
+}
+
+/**
+ * Checks whether a semantic format version (e.g., "1.0.0") can be read
+ * Only the major part has to match or be lower than the supported version
+ */
+export function assertSupportedFormatVersion(
+  version: unknown,
+  supportedVersion: string,
+): void {
+  const major = (value: string) => parseInt(value.split(".")[0], 10);
+
+  // Files without a version marker predate versioning and are accepted
+  if (typeof version !== "string") {
+    return;
+  }
+
+  if (isNaN(major(version)) || major(version) > major(supportedVersion)) {
+    throw new UnsupportedSchemaVersionError(version, supportedVersion);
+  }
+}
+
+/**
+ * Filters and re-indexes a raw list of color entries
+ * Never truncates: the color limit is enforced when colors are added
+ * Assigns ids to entries that lack one; `usedIds` keeps ids unique across palettes
+ * Rejected entries are appended to `dropped` with the reason they failed
+ */
+export function sanitizeColorList(
+  colors: unknown[],
+  usedIds: Set<string> = new Set(),
+  dropped?: DroppedEntry[],
+  paletteName?: string,
+): ColorEntry[] {
+  const validColors = colors
+    .filter((item: unknown, position) => {
+      const issue = getColorEntryIssue(item);
+      if (issue) {
+        dropped?.push({ paletteName, position, reason: issue, value: item });
+      }
+      return issue === null;
+    })
+    .map((color, index) => ({ ...(color as ColorEntry), index }));
+
+  return ensureUniqueIds(validColors, usedIds);
+}
+
+/**
+ * Validates a current-schema document and converts it into a palette store
+ * Returns null if the document holds no usable palette
+ */
+export function parseStoreDocument(
+  data: unknown,
+  dropped?: DroppedEntry[],
+): PaletteStore | null {
+  if (typeof data !== "object" || data === null) {
+    return null;
+  }
+
+  const record = data as Record<string, unknown>;
+
+  if (!Array.isArray(record.palettes)) {
+    return null;
+  }
+
+  const usedIds = new Set<string>();
+  const palettes: Palette[] = record.palettes
+    .filter((item: unknown, position) => {
+      const isValid = isValidPalette(item);
+      if (!isValid) {
+        dropped?.push({
+          position,
+          reason: "Palette is missing an id, name or colors list",
+          value: item,
+        });
+      }
+      return isValid;
+    })
+    .map((palette) => ({
+      ...(palette as Palette),
+      colors: sanitizeColorList(
+        (palette as Palette).colors,
+        usedIds,
+        dropped,
+        (palette as Palette).name,
+      ),
+    }));
+
+  if (palettes.length === 0) {
+    return null;
+  }
+
+  // Fall back to the first palette if the active one no longer exists
+  const activePaletteId =
+    typeof record.activePaletteId === "string" &&
+    palettes.some((palette) => palette.id === record.activePaletteId)
+      ? record.activePaletteId
+      : palettes[0].id;
+
+  return { activePaletteId, palettes };
+}
+
+/**
+ * Migrates raw content of any known schema and converts it into a palette store
+ */
+export function parseColorStore(data: unknown): PaletteStore | null {
+  return parseStoreDocument(migrateToCurrentSchema(data).data);
+}
+
+/**
+ * Wraps a palette store into the versioned on-disk document
+ */
+export function toStoreDocument(store: PaletteStore): ColorStoreDocument {
+  return {
+    schemaVersion: COLOR_STORE_SCHEMA_VERSION,
+    activePaletteId: store.activePaletteId,
+    palettes: store.palettes,
+  };
+}
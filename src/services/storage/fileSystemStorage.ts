@@ -0,0 +1,99 @@
+import { promises as fs } from "fs";
+import { dirname } from "path";
+import { StorageBackend, StorageStat } from "./storageBackend";
+import {
+  ensureDirectoryExists,
+  fileExists,
+  withFileLock,
+  writeFileAtomic,
+} from "../../utils/fileSystemUtils";
+
+/**
+ * Checks whether an error means the file does not exist
+ */
+function isNotFound(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === "ENOENT";
+}
+
+/**
+ * Storage backend persisting to the local file system
+ * Writes are atomic and locks are cross-process lock files
+ */
+export class FileSystemStorage implements StorageBackend {
+  readonly name = "filesystem";
+
+  async read(path: string): Promise<string> {
+    return fs.readFile(path, "utf-8");
+  }
+
+  async write(path: string, content: string): Promise<void> {
+    await ensureDirectoryExists(dirname(path));
+    await writeFileAtomic(path, content);
+  }
+
+  async readBinary(path: string): Promise<Uint8Array> {
+    return fs.readFile(path);
+  }
+
+  async writeBinary(path: string, content: Uint8Array): Promise<void> {
+    await ensureDirectoryExists(dirname(path));
+    await writeFileAtomic(path, content);
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return fileExists(path);
+  }
+
+  async stat(path: string): Promise<StorageStat | null> {
+    try {
+      const stats = await fs.stat(path);
+      return { lastModified: stats.mtime.getTime(), size: stats.size };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async remove(path: string): Promise<void> {
+    try {
+      await fs.unlink(path);
+    } catch (error) {
+      if (!isNotFound(error)) {
+        throw error;
+      }
+    }
+  }
+
+  async rename(fromPath: string, toPath: string): Promise<void> {
+    await fs.rename(fromPath, toPath);
+  }
+
+  async copy(fromPath: string, toPath: string): Promise<void> {
+    await ensureDirectoryExists(dirname(toPath));
+    await fs.copyFile(fromPath, toPath);
+  }
+
+  async list(directory: string): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(directory, { withFileTypes: true });
+      return entries
+        .filter((entry) => entry.isFile())
+        .map((entry) => entry.name);
+    } catch (error) {
+      if (isNotFound(error)) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async ensureDirectory(directory: string): Promise<void> {
+    await ensureDirectoryExists(directory);
+  }
+
+  withLock<T>(path: string, operation: () => Promise<T>): Promise<T> {
+    return withFileLock(path, operation);
+  }
+}
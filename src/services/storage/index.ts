@@ -0,0 +1,6 @@
+// Re-export storage backends and helpers
+export * from "./storageBackend";
+export * from "./fileSystemStorage";
+export * from "./memoryStorage";
+export * from "./storageRegistry";
+export * from "./storageHelpers";
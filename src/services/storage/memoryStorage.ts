@@ -0,0 +1,151 @@
+import { basename, dirname, normalize } from "path";
+import { AsyncLocalStorage } from "async_hooks";
+import { StorageBackend, StorageStat } from "./storageBackend";
+import { FileOperationError } from "../../utils/errorUtils";
+
+/**
+ * File held by the in-memory backend
+ */
+interface MemoryFile {
+  content: Buffer;
+  lastModified: number;
+}
+
+/**
+ * Storage backend keeping every file in memory
+ * Useful for tests and for running the service layer without touching disk;
+ * locks only serialize operations within the current process
+ */
+export class MemoryStorage implements StorageBackend {
+  readonly name = "memory";
+
+  private files = new Map<string, MemoryFile>();
+  private locks = new Map<string, Promise<void>>();
+  private heldLocks = new AsyncLocalStorage<Set<string>>();
+
+  constructor(initialFiles: Record<string, string> = {}) {
+    for (const [path, content] of Object.entries(initialFiles)) {
+      this.setFile(path, content);
+    }
+  }
+
+  /**
+   * Stores content, keeping modification times strictly increasing so that
+   * change detection works even for writes within the same millisecond
+   */
+  private setFile(path: string, content: string | Uint8Array): void {
+    const key = normalize(path);
+    const previous = this.files.get(key)?.lastModified ?? 0;
+
+    this.files.set(key, {
+      content: Buffer.from(content),
+      lastModified: Math.max(Date.now(), previous + 1),
+    });
+  }
+
+  private getFile(path: string): MemoryFile {
+    const file = this.files.get(normalize(path));
+
+    if (!file) {
+      throw new FileOperationError("File not found", path);
+    }
+
+    return file;
+  }
+
+  async read(path: string): Promise<string> {
+    return this.getFile(path).content.toString("utf-8");
+  }
+
+  async write(path: string, content: string): Promise<void> {
+    this.setFile(path, content);
+  }
+
+  async readBinary(path: string): Promise<Uint8Array> {
+    return Buffer.from(this.getFile(path).content);
+  }
+
+  async writeBinary(path: string, content: Uint8Array): Promise<void> {
+    this.setFile(path, content);
+  }
+
+  async exists(path: string): Promise<boolean> {
+    return this.files.has(normalize(path));
+  }
+
+  async stat(path: string): Promise<StorageStat | null> {
+    const file = this.files.get(normalize(path));
+
+    if (!file) {
+      return null;
+    }
+
+    return {
+      lastModified: file.lastModified,
+      size: file.content.length,
+    };
+  }
+
+  async remove(path: string): Promise<void> {
+    this.files.delete(normalize(path));
+  }
+
+  async rename(fromPath: string, toPath: string): Promise<void> {
+    const file = this.getFile(fromPath);
+    this.files.delete(normalize(fromPath));
+    this.setFile(toPath, file.content);
+  }
+
+  async copy(fromPath: string, toPath: string): Promise<void> {
+    this.setFile(toPath, this.getFile(fromPath).content);
+  }
+
+  async list(directory: string): Promise<string[]> {
+    const target = normalize(directory);
+
+    return [...this.files.keys()]
+      .filter((path) => dirname(path) === target)
+      .map((path) => basename(path));
+  }
+
+  async ensureDirectory(): Promise<void> {
+    // Directories are implicit in memory
+  }
+
+  async withLock<T>(path: string, operation: () => Promise<T>): Promise<T> {
+    const key = normalize(path);
+    const currentLocks = this.heldLocks.getStore();
+
+    // Re-entrant: the current call chain already owns this lock
+    if (currentLocks?.has(key)) {
+      return operation();
+    }
+
+    // Queue behind the current holder
+    const previous = this.locks.get(key) ?? Promise.resolve();
+    let release: () => void = () => undefined;
+    const released = new Promise<void>((resolve) => (release = resolve));
+    const current = previous.then(() => released);
+    this.locks.set(key, current);
+
+    await previous;
+
+    try {
+      const locks = new Set(currentLocks);
+      locks.add(key);
+      return await this.heldLocks.run(locks, operation);
+    } finally {
+      release();
+      if (this.locks.get(key) === current) {
+        this.locks.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Removes every stored file
+   */
+  clear(): void {
+    this.files.clear();
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Size and modification time of a stored file
+ */
+export interface StorageStat {
+  lastModified: number;
+  size: number;
+}
+
+/**
+ * Persistence layer used by the color service, backups, import/export and sync
+ * Paths are absolute file paths; backends other than the file system may
+ * treat them as plain keys
+ */
+export interface StorageBackend {
+  readonly name: string;
+
+  /**
+   * Reads a file as UTF-8 text, rejecting if it does not exist
+   */
+  read(path: string): Promise<string>;
+
+  /**
+   * Writes a file atomically, creating parent directories as needed
+   */
+  write(path: string, content: string): Promise<void>;
+
+  /**
+   * Reads a file as raw bytes, rejecting if it does not exist
+   */
+  readBinary(path: string): Promise<Uint8Array>;
+
+  /**
+   * Writes raw bytes atomically, creating parent directories as needed
+   */
+  writeBinary(path: string, content: Uint8Array): Promise<void>;
+
+  /**
+   * Checks whether a file exists
+   */
+  exists(path: string): Promise<boolean>;
+
+  /**
+   * Returns size and modification time, or null if the file does not exist
+   */
+  stat(path: string): Promise<StorageStat | null>;
+
+  /**
+   * Deletes a file; missing files are ignored
+   */
+  remove(path: string): Promise<void>;
+
+  /**
+   * Moves a file, replacing the target
+   */
+  rename(fromPath: string, toPath: string): Promise<void>;
+
+  /**
+   * Copies a file, replacing the target
+   */
+  copy(fromPath: string, toPath: string): Promise<void>;
+
+  /**
+   * Lists the names of files directly inside a directory
+   * Returns an empty list if the directory does not exist
+   */
+  list(directory: string): Promise<string[]>;
+
+  /**
+   * Ensures a directory exists
+   */
+  ensureDirectory(directory: string): Promise<void>;
+
+  /**
+   * Runs an operation while holding an exclusive, re-entrant lock on a file
+   */
+  withLock<T>(path: string, operation: () => Promise<T>): Promise<T>;
+}
@@ -0,0 +1,136 @@
+import { basename, dirname, extname, join, resolve } from "path";
+import { StorageBackend } from "./storageBackend";
+import { getStorage } from "./storageRegistry";
+import { FileOperationError } from "../../utils/errorUtils";
+import {
+  getColorDirectory,
+  getPreviousColorDirectories,
+} from "../../utils/fileSystemUtils";
+
+/**
+ * Reads and parses a JSON file from a storage backend (the active one by default)
+ */
+export async function readStorageJson<T>(
+  filePath: string,
+  storage: StorageBackend = getStorage(),
+): Promise<T> {
+  try {
+    const fileContent = await storage.read(filePath);
+    return JSON.parse(fileContent) as T;
+  } catch (error) {
+    console.error(`Failed to read JSON file ${filePath}:`, error);
+    throw new Error(`Failed to read file: ${filePath}`);
+  }
+}
+
+/**
+ * Writes data as formatted JSON to a storage backend (the active one by default)
+ */
+export async function writeStorageJson<T>(
+  filePath: string,
+  data: T,
+  storage: StorageBackend = getStorage(),
+): Promise<void> {
+  try {
+    const jsonString = JSON.stringify(data, null, 2);
+    await storage.write(filePath, jsonString);
+  } catch (error) {
+    console.error(`Failed to write JSON file ${filePath}:`, error);
+    throw new Error(`Failed to write file: ${filePath}`);
+  }
+}
+
+/**
+ * Moves (or copies) a damaged file aside under a timestamped name, e.g.
+ * "colors.corrupted-2024-01-01T12-00-00-000Z.json", so it is never overwritten
+ * Returns the path of the quarantined file
+ */
+export async function quarantineFile(
+  filePath: string,
+  options: { keepOriginal?: boolean } = {},
+): Promise<string> {
+  const storage = getStorage();
+  const extension = extname(filePath);
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const quarantinePath = join(
+    dirname(filePath),
+    `${basename(filePath, extension)}.corrupted-${timestamp}${extension}`,
+  );
+
+  try {
+    if (options.keepOriginal) {
+      await storage.copy(filePath, quarantinePath);
+    } else {
+      await storage.rename(filePath, quarantinePath);
+    }
+    return quarantinePath;
+  } catch (error) {
+    console.error(`Failed to quarantine file ${filePath}:`, error);
+    throw new FileOperationError("Failed to quarantine file", filePath);
+  }
+}
+
+/**
+ * Copies the files of a directory and its immediate subdirectories that do
+ * not exist at the target yet; lock and temporary files are skipped
+ */
+export async function copyMissingFiles(
+  sourceDirectory: string,
+  targetDirectory: string,
+  subdirectories: string[] = [],
+): Promise<void> {
+  const storage = getStorage();
+
+  for (const relative of ["", ...subdirectories]) {
+    const source = join(sourceDirectory, relative);
+    const target = join(targetDirectory, relative);
+
+    for (const name of await storage.list(source)) {
+      if (
+        /\.(lock|tmp)$/.test(name) ||
+        (await storage.exists(join(target, name)))
+      ) {
+        continue;
+      }
+
+      await storage.copy(join(source, name), join(target, name));
+    }
+  }
+}
+
+/**
+ * Copies colors.json and its backups from a previous storage location into
+ * the current one, so changing the location does not lose data
+ * The old directory is left untouched. Returns the directory migrated from
+ */
+export async function migrateColorDirectory(
+  targetDirectory: string = getColorDirectory(),
+): Promise<string | null> {
+  const storage = getStorage();
+
+  for (const candidate of getPreviousColorDirectories()) {
+    if (
+      resolve(candidate) === resolve(targetDirectory) ||
+      !(await storage.exists(join(candidate, "colors.json")))
+    ) {
+      continue;
+    }
+
+    try {
+      await copyMissingFiles(candidate, targetDirectory, ["backups"]);
+
+      console.log(
+        `Migrated color data from ${candidate} to ${targetDirectory}`,
+      );
+      return candidate;
+    } catch (error) {
+      console.error(`Failed to migrate color data from ${candidate}:`, error);
+      throw new FileOperationError(
+        "Failed to migrate color data to the new location",
+        candidate,
+      );
+    }
+  }
+
+  return null;
+}
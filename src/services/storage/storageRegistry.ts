@@ -0,0 +1,26 @@
+import { StorageBackend } from "./storageBackend";
+import { FileSystemStorage } from "./fileSystemStorage";
+import { CachedColorOperations } from "../../utils/cacheUtils";
+
+/**
+ * Backend used by every module that persists data
+ */
+let currentStorage: StorageBackend = new FileSystemStorage();
+
+/**
+ * Gets the active storage backend
+ */
+export function getStorage(): StorageBackend {
+  return currentStorage;
+}
+
+/**
+ * Replaces the active storage backend, returning the previous one
+ * The color cache is dropped since it describes the previous backend
+ */
+export function setStorage(storage: StorageBackend): StorageBackend {
+  const previous = currentStorage;
+  currentStorage = storage;
+  CachedColorOperations.invalidateColorCache();
+  return previous;
+}
@@ -6,6 +6,32 @@ export interface RGB {
   r: number; // Red value (0-255)
   g: number; // Green value (0-255)
   b: number; // Blue value (0-255)
+  a?: number; // Alpha (0-1), omitted for fully opaque colors
+}
+
+/**
+ * RGB color spaces a precise color can be stored in
+ */
+export const PRECISE_COLOR_SPACES = ["srgb", "display-p3", "rec2020"] as const;
+export type PreciseColorSpace = (typeof PRECISE_COLOR_SPACES)[number];
+
+/**
+ * Float-precision color tagged with its RGB color space
+ * Channels are gamma-encoded values in that space, from 0 to 1 inside its
+ * gamut; values entered outside that range are kept as they are
+ */
+export interface PreciseColor {
+  space: PreciseColorSpace;
+  coords: [number, number, number];
+}
+
+/**
+ * Place of a color in the design token file it was imported from, kept so
+ * it exports back in place
+ */
+export interface DesignTokenSource {
+  path: string[]; // Token path below its palette group, e.g. ["blue", "500"]
+  alias?: string; // Dotted path of the token it referenced, e.g. "brand.blue.500"
 }
 
 /**
@@ -13,9 +39,13 @@ export interface RGB {
  * Used for displaying colors in the Raycast list interface
  */
 export interface ColorEntry {
+  id: string; // Stable unique identifier, survives reordering, import and sync
   index: number; // Index for ordering (0-based)
   name: string; // Display name (e.g., "Primary Red")
-  rgb: RGB; // RGB color values
+  rgb: RGB; // RGB color values, the sRGB fallback when `precise` is set
+  precise?: PreciseColor; // Float-precision or wide-gamut original, if any
+  description?: string; // Free text, e.g. the $description of a design token
+  token?: DesignTokenSource; // Nested path or alias of an imported design token
 }
 
 /**
@@ -40,14 +70,138 @@ export function isValidRGB(obj: unknown): obj is RGB {
     record.g >= 0 &&
     record.g <= 255 &&
     record.b >= 0 &&
-    record.b <= 255
+    record.b <= 255 &&
+    (record.a === undefined ||
+      (typeof record.a === "number" && record.a >= 0 && record.a <= 1))
+  );
+}
+
+/**
+ * Type guard to validate if an object is a valid PreciseColor
+ */
+export function isValidPreciseColor(obj: unknown): obj is PreciseColor {
+  if (typeof obj !== "object" || obj === null) {
+    return false;
+  }
+
+  const record = obj as Record<string, unknown>;
+
+  return (
+    PRECISE_COLOR_SPACES.includes(record.space as PreciseColorSpace) &&
+    Array.isArray(record.coords) &&
+    record.coords.length === 3 &&
+    record.coords.every((value) => typeof value === "number" && isFinite(value))
   );
 }
 
+/**
+ * Type guard to validate if an object is a valid DesignTokenSource
+ */
+export function isValidDesignTokenSource(
+  obj: unknown,
+): obj is DesignTokenSource {
+  if (typeof obj !== "object" || obj === null) {
+    return false;
+  }
+
+  const record = obj as Record<string, unknown>;
+
+  return (
+    Array.isArray(record.path) &&
+    record.path.length > 0 &&
+    record.path.every((key) => typeof key === "string" && key.length > 0) &&
+    (record.alias === undefined ||
+      (typeof record.alias === "string" && record.alias.length > 0))
+  );
+}
+
+/**
+ * Describes why an object is not a valid ColorEntry
+ * Returns null for valid entries; used to report dropped entries on load
+ */
+export function getColorEntryIssue(obj: unknown): string | null {
+  if (typeof obj !== "object" || obj === null) {
+    return "Entry is not an object";
+  }
+
+  const record = obj as Record<string, unknown>;
+
+  if (typeof record.name !== "string" || record.name.length === 0) {
+    return "Missing or empty name";
+  }
+
+  if (typeof record.index !== "number" || record.index < 0) {
+    return "Missing or negative index";
+  }
+
+  if (
+    record.id !== undefined &&
+    (typeof record.id !== "string" || record.id.length === 0)
+  ) {
+    return "Id must be a non-empty string";
+  }
+
+  if (!isValidRGB(record.rgb)) {
+    return "RGB values missing or outside 0-255, or alpha outside 0-1";
+  }
+
+  if (record.precise !== undefined && !isValidPreciseColor(record.precise)) {
+    return "Precise color needs sRGB, Display P3 or Rec. 2020 and three finite channels";
+  }
+
+  if (
+    record.description !== undefined &&
+    typeof record.description !== "string"
+  ) {
+    return "Description must be a string";
+  }
+
+  if (record.token !== undefined && !isValidDesignTokenSource(record.token)) {
+    return "Design token path must be a list of names";
+  }
+
+  return null;
+}
+
 /**
  * Type guard to validate if an object is a valid ColorEntry
+ * Entries written before stable ids existed may lack an id; loaders assign one
  */
 export function isValidColorEntry(obj: unknown): obj is ColorEntry {
+  return getColorEntryIssue(obj) === null;
+}
+
+/**
+ * Named palette grouping a set of colors (e.g., "Brand", "Marketing")
+ */
+export interface Palette {
+  id: string; // Unique palette identifier
+  name: string; // Display name
+  colors: ColorEntry[]; // Colors belonging to this palette
+}
+
+/**
+ * Persisted collection of palettes together with the active selection
+ * New colors are added to the active palette unless another is specified
+ */
+export interface PaletteStore {
+  activePaletteId: string;
+  palettes: Palette[];
+}
+
+/**
+ * Versioned document written to colors.json
+ * `schemaVersion` drives the migration pipeline applied on load
+ */
+export interface ColorStoreDocument extends PaletteStore {
+  schemaVersion: number;
+}
+
+/**
+ * Type guard to validate if an object is a valid Palette
+ * Invalid color entries are tolerated here and filtered out on load
+ */
+export function isValidPalette(obj: unknown): obj is Palette {
   if (typeof obj !== "object" || obj === null) {
     return false;
   }
@@ -55,14 +209,29 @@ export function isValidColorEntry(obj: unknown): obj is ColorEntry {
   const record = obj as Record<string, unknown>;
 
   return (
-    "index" in record &&
-    "name" in record &&
-    "rgb" in record &&
-    typeof record.index === "number" &&
-    typeof record.name === "string" &&
+    typeof record.id === "string" &&
+    record.id.length > 0 &&
     typeof record.name === "string" &&
     record.name.length > 0 &&
-    record.index >= 0 &&
-    isValidRGB(record.rgb)
+    Array.isArray(record.colors)
   );
 }
+
+/**
+ * Entry that was skipped while loading because it failed validation
+ */
+export interface DroppedEntry {
+  paletteName?: string; // Palette the entry belonged to, if known
+  position: number; // Position of the entry in the file (0-based)
+  reason: string; // Why the entry was rejected
+  value: unknown; // The raw entry as found in the file
+}
+
+/**
+ * Outcome of loading the color store, used to surface recovery options
+ */
+export interface StoreLoadReport {
+  corruptionReason?: string; // Set when the whole file was unusable
+  quarantinedFilePath?: string; // Copy of the damaged or partially read file
+  droppedEntries: DroppedEntry[];
+}
@@ -0,0 +1,263 @@
+import { ColorEntry } from "../types";
+import {
+  WcagLevel,
+  formatContrastRatio,
+  getContrastRatio,
+  getWcagLevel,
+  meetsWcagLevel,
+} from "./contrastUtils";
+import { formatAsHex, formatAsRgb } from "./colorFormatUtils";
+
+/**
+ * Palette-wide accessibility reports: a text × background contrast matrix
+ * rendered as Markdown for Raycast or as a standalone HTML page
+ */
+
+/**
+ * Output formats of the accessibility report
+ */
+export type ReportFormat = "markdown" | "html";
+
+/**
+ * File extensions of the report formats
+ */
+export const REPORT_FILE_EXTENSIONS: Record<ReportFormat, string> = {
+  markdown: "md",
+  html: "html",
+};
+
+/**
+ * Contrast of one text color on one background color
+ */
+export interface ContrastMatrixCell {
+  foreground: ColorEntry;
+  background: ColorEntry;
+  ratio: number;
+  level: WcagLevel;
+}
+
+/**
+ * Contrast of every color of a palette on every other color
+ */
+export interface ContrastMatrix {
+  colors: ColorEntry[];
+  minimumLevel: WcagLevel; // Pairs below this level are filtered out
+  rows: (ContrastMatrixCell | undefined)[][]; // rows[text][background], undefined when filtered
+  passingPairs: ContrastMatrixCell[]; // Highest ratio first
+}
+
+/**
+ * Builds the text × background contrast matrix of a list of colors
+ * A color is never paired with itself, and pairs below the minimum level
+ * (any WCAG pass by default) are left out
+ */
+export function buildContrastMatrix(
+  colors: ColorEntry[],
+  minimumLevel: WcagLevel = "AA Large",
+): ContrastMatrix {
+  const rows = colors.map((foreground, row) =>
+    colors.map((background, column): ContrastMatrixCell | undefined => {
+      if (row === column) {
+        return undefined;
+      }
+
+      const ratio = getContrastRatio(foreground.rgb, background.rgb);
+      const level = getWcagLevel(ratio);
+
+      return meetsWcagLevel(level, minimumLevel)
+        ? { foreground, background, ratio, level }
+        : undefined;
+    }),
+  );
+
+  const passingPairs = rows
+    .flat()
+    .filter((cell): cell is ContrastMatrixCell => cell !== undefined)
+    .sort((a, b) => b.ratio - a.ratio);
+
+  return { colors, minimumLevel, rows, passingPairs };
+}
+
+/**
+ * Describes which pairs a report leaves out
+ */
+function describeFilter(minimumLevel: WcagLevel): string {
+  return minimumLevel === "Fail"
+    ? "All pairs are shown."
+    : `Pairs below WCAG ${minimumLevel} are left out.`;
+}
+
+/**
+ * Escapes text for a Markdown table cell
+ */
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\|*_`[\]<>])/g, "\\$1");
+}
+
+/**
+ * Formats the contrast matrix as a Markdown report
+ */
+export function formatContrastMatrixAsMarkdown(
+  matrix: ContrastMatrix,
+  title: string,
+): string {
+  const { colors, minimumLevel, rows, passingPairs } = matrix;
+  const lines = [
+    `# Accessibility Report: ${escapeMarkdown(title)}`,
+    "",
+    `WCAG 2.1 contrast of every text color (rows) on every background color (columns). ${describeFilter(minimumLevel)}`,
+    "",
+  ];
+
+  if (colors.length < 2) {
+    lines.push("Add at least two colors to compare them.");
+    return lines.join("\n");
+  }
+
+  lines.push(
+    `| Text ↓ Background → | ${colors.map((color) => escapeMarkdown(color.name)).join(" | ")} |`,
+    `| --- | ${colors.map(() => "---").join(" | ")} |`,
+    ...rows.map(
+      (cells, row) =>
+        `| **${escapeMarkdown(colors[row].name)}** ${formatAsHex(colors[row].rgb)} | ${cells
+          .map((cell) =>
+            cell ? `${formatContrastRatio(cell.ratio)} ${cell.level}` : "—",
+          )
+          .join(" | ")} |`,
+    ),
+    "",
+    "## Passing Pairs",
+    "",
+  );
+
+  if (passingPairs.length === 0) {
+    lines.push("No color pair meets the required level.");
+  } else {
+    lines.push(
+      "| Text | Background | Ratio | Level |",
+      "| --- | --- | --- | --- |",
+      ...passingPairs.map(
+        (cell) =>
+          `| ${escapeMarkdown(cell.foreground.name)} | ${escapeMarkdown(cell.background.name)} | ${formatContrastRatio(cell.ratio)} | ${cell.level} |`,
+      ),
+    );
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Escapes text for HTML content and attribute values
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Table header cell naming a color, with a swatch
+ */
+function formatHtmlColorHeader(color: ColorEntry, scope: string): string {
+  return `<th scope="${scope}"><span class="swatch" style="background: ${formatAsRgb(color.rgb)}"></span>${escapeHtml(color.name)}</th>`;
+}
+
+/**
+ * Matrix cell previewing the text color on the background color
+ */
+function formatHtmlCell(cell: ContrastMatrixCell | undefined): string {
+  if (!cell) {
+    return `<td class="empty">—</td>`;
+  }
+
+  return `<td style="color: ${formatAsRgb(cell.foreground.rgb)}; background: ${formatAsRgb(cell.background.rgb)}"><span class="sample">Aa</span> ${formatContrastRatio(cell.ratio)} <span class="level">${cell.level}</span></td>`;
+}
+
+/**
+ * Formats the contrast matrix as a standalone HTML page
+ */
+export function formatContrastMatrixAsHtml(
+  matrix: ContrastMatrix,
+  title: string,
+): string {
+  const { colors, minimumLevel, rows, passingPairs } = matrix;
+  const heading = `Accessibility Report: ${escapeHtml(title)}`;
+  const body = [
+    `<h1>${heading}</h1>`,
+    `<p>WCAG 2.1 contrast of every text color (rows) on every background color (columns). ${describeFilter(minimumLevel)}</p>`,
+  ];
+
+  if (colors.length < 2) {
+    body.push("<p>Add at least two colors to compare them.</p>");
+  } else {
+    body.push(
+      "<table>",
+      `<thead><tr><th scope="col">Text ↓ Background →</th>${colors.map((color) => formatHtmlColorHeader(color, "col")).join("")}</tr></thead>`,
+      "<tbody>",
+      ...rows.map(
+        (cells, row) =>
+          `<tr>${formatHtmlColorHeader(colors[row], "row")}${cells.map(formatHtmlCell).join("")}</tr>`,
+      ),
+      "</tbody>",
+      "</table>",
+      "<h2>Passing Pairs</h2>",
+    );
+
+    if (passingPairs.length === 0) {
+      body.push("<p>No color pair meets the required level.</p>");
+    } else {
+      body.push(
+        "<table>",
+        '<thead><tr><th scope="col">Text</th><th scope="col">Background</th><th scope="col">Ratio</th><th scope="col">Level</th></tr></thead>',
+        "<tbody>",
+        ...passingPairs.map(
+          (cell) =>
+            `<tr><td>${escapeHtml(cell.foreground.name)}</td><td>${escapeHtml(cell.background.name)}</td><td>${formatContrastRatio(cell.ratio)}</td><td>${cell.level}</td></tr>`,
+        ),
+        "</tbody>",
+        "</table>",
+      );
+    }
+  }
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${heading}</title>`,
+    "<style>",
+    "body { font-family: system-ui, sans-serif; margin: 2rem; }",
+    "table { border-collapse: collapse; margin-bottom: 2rem; }",
+    "th, td { border: 1px solid #ccc; padding: 0.5rem; text-align: left; white-space: nowrap; }",
+    "td.empty { color: #999; text-align: center; }",
+    ".swatch { display: inline-block; width: 1em; height: 1em; margin-right: 0.4em; vertical-align: middle; border: 1px solid #ccc; }",
+    ".sample { font-weight: bold; font-size: 1.2em; }",
+    ".level { font-size: 0.8em; }",
+    "</style>",
+    "</head>",
+    "<body>",
+    ...body,
+    "</body>",
+    "</html>",
+  ].join("\n");
+}
+
+/**
+ * Builds the accessibility report of a list of colors in the given format
+ */
+export function createAccessibilityReport(
+  colors: ColorEntry[],
+  format: ReportFormat,
+  title: string,
+  minimumLevel?: WcagLevel,
+): string {
+  const matrix = buildContrastMatrix(colors, minimumLevel);
+
+  return format === "html"
+    ? formatContrastMatrixAsHtml(matrix, title)
+    : formatContrastMatrixAsMarkdown(matrix, title);
+}
@@ -0,0 +1,179 @@
+import { RGB } from "../types";
+import {
+  AcoColor,
+  AcoColorSpace,
+  acoColorToRgb,
+  decodeAco,
+  encodeAco,
+  isAcoFile,
+  rgbToAcoColor,
+} from "./acoUtils";
+
+const SPACES: AcoColorSpace[] = ["rgb", "hsb", "cmyk", "lab"];
+
+const COLORS: [string, RGB][] = [
+  ["Red", { r: 255, g: 0, b: 0 }],
+  ["Sky Blue", { r: 0, g: 150, b: 255 }],
+  ["Olive", { r: 128, g: 128, b: 0 }],
+  ["White", { r: 255, g: 255, b: 255 }],
+  ["Black", { r: 0, g: 0, b: 0 }],
+  ["Gray 50%", { r: 119, g: 119, b: 119 }],
+];
+
+/**
+ * Builds a section of unnamed version 1 colors
+ */
+function versionOneSection(colors: [number, number[]][]): Buffer {
+  const buffer = Buffer.alloc(4 + colors.length * 10);
+  buffer.writeUInt16BE(1, 0);
+  buffer.writeUInt16BE(colors.length, 2);
+  colors.forEach(([space, values], index) => {
+    buffer.writeUInt16BE(space, 4 + index * 10);
+    values.forEach((value, channel) =>
+      buffer.writeUInt16BE(value, 6 + index * 10 + channel * 2),
+    );
+  });
+  return buffer;
+}
+
+describe("encodeAco", () => {
+  it("writes a version 1 section followed by a named version 2 section", () => {
+    const bytes = encodeAco([rgbToAcoColor("A", { r: 255, g: 0, b: 128 })]);
+
+    expect(Buffer.from(bytes).toString("hex")).toBe(
+      [
+        "0001 0001",
+        "0000 ffff 0000 8080 0000",
+        "0002 0001",
+        "0000 ffff 0000 8080 0000",
+        "00000002 0041 0000",
+      ]
+        .join("")
+        .replace(/ /g, ""),
+    );
+  });
+
+  it.each([
+    ["rgb", [65535, 0, 0, 0]],
+    ["hsb", [0, 65535, 65535, 0]],
+    ["cmyk", [65535, 0, 0, 65535]],
+  ] as [AcoColorSpace, number[]][])(
+    "stores red in %s as %p",
+    (space, values) => {
+      expect(
+        rgbToAcoColor("Red", { r: 255, g: 0, b: 0 }, space).values,
+      ).toEqual(values);
+    },
+  );
+
+  it("stores Lab as hundredths with signed a and b", () => {
+    const [l, a, b] = rgbToAcoColor(
+      "Blue",
+      { r: 0, g: 0, b: 255 },
+      "lab",
+    ).values;
+
+    // CIELAB (D50) of sRGB blue is about 29.6, 68.3, -112.0
+    expect(l / 100).toBeCloseTo(29.6, 0);
+    expect(a / 100).toBeCloseTo(68.3, 0);
+    expect((b - 0x10000) / 100).toBeCloseTo(-112.0, 0);
+  });
+});
+
+describe("decodeAco", () => {
+  it.each(SPACES)("round trips names and colors stored as %s", (space) => {
+    const encoded = encodeAco(
+      COLORS.map(([name, rgb]) => rgbToAcoColor(name, rgb, space)),
+    );
+
+    expect(isAcoFile(encoded)).toBe(true);
+    const decoded = decodeAco(encoded) as AcoColor[];
+    expect(decoded.map((color) => color.name)).toEqual(
+      COLORS.map(([name]) => name),
+    );
+    decoded.forEach((color, index) => {
+      expect(color.space).toBe(space);
+      const rgb = acoColorToRgb(color);
+      const expected = COLORS[index][1];
+      expect(Math.abs(rgb.r - expected.r)).toBeLessThanOrEqual(1);
+      expect(Math.abs(rgb.g - expected.g)).toBeLessThanOrEqual(1);
+      expect(Math.abs(rgb.b - expected.b)).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it("keeps names outside the Basic Multilingual Plane", () => {
+    const decoded = decodeAco(
+      encodeAco([rgbToAcoColor("Ocean 🌊", { r: 0, g: 0, b: 255 })]),
+    );
+
+    expect(decoded[0]?.name).toBe("Ocean 🌊");
+  });
+
+  it("reads a file with only the version 1 section as unnamed colors", () => {
+    const data = versionOneSection([
+      [0, [65535, 32896, 0, 0]],
+      [2, [0, 0, 65535, 65535]],
+    ]);
+
+    expect(isAcoFile(data)).toBe(true);
+    const decoded = decodeAco(data) as AcoColor[];
+    expect(decoded.map((color) => color.name)).toEqual(["", ""]);
+    expect(acoColorToRgb(decoded[0])).toEqual({ r: 255, g: 128, b: 0 });
+
+    // Full ink for cyan and magenta, none for yellow and black
+    expect(acoColorToRgb(decoded[1])).toEqual({ r: 0, g: 0, b: 255 });
+  });
+
+  it("returns unsupported color spaces as undefined", () => {
+    // 3 is Pantone, 8 is grayscale
+    const decoded = decodeAco(
+      versionOneSection([
+        [3, [1, 2, 3, 4]],
+        [0, [0, 0, 0, 0]],
+        [8, [5000, 0, 0, 0]],
+      ]),
+    );
+
+    expect(decoded).toEqual([
+      undefined,
+      { name: "", space: "rgb", values: [0, 0, 0, 0] },
+      undefined,
+    ]);
+  });
+
+  it("gamut maps Lab colors outside sRGB", () => {
+    const rgb = acoColorToRgb({
+      name: "",
+      space: "lab",
+      values: [5000, 12000 & 0xffff, -12000 & 0xffff, 0],
+    });
+
+    [rgb.r, rgb.g, rgb.b].forEach((channel) => {
+      expect(Number.isInteger(channel)).toBe(true);
+      expect(channel).toBeGreaterThanOrEqual(0);
+      expect(channel).toBeLessThanOrEqual(255);
+    });
+  });
+
+  it("rejects data that is not an ACO file", () => {
+    expect(isAcoFile(new Uint8Array([0, 1]))).toBe(false);
+    expect(isAcoFile(Buffer.from("ASEF\u0000\u0001\u0000\u0000"))).toBe(false);
+    expect(isAcoFile(new Uint8Array([0, 2, 0, 0]))).toBe(false);
+    expect(() => decodeAco(new Uint8Array([0, 3, 0, 1]))).toThrow(
+      "Not a Photoshop color swatch file",
+    );
+  });
+
+  it("reports truncated version 2 sections", () => {
+    const encoded = Buffer.from(
+      encodeAco([rgbToAcoColor("Red", { r: 255, g: 0, b: 0 })]),
+    );
+
+    expect(() => decodeAco(encoded.subarray(0, encoded.length - 2))).toThrow(
+      "Name of color 1 is truncated",
+    );
+    expect(() => decodeAco(encoded.subarray(0, 14 + 4 + 6))).toThrow(
+      "Version 2 section ends after 0 colors",
+    );
+  });
+});
@@ -0,0 +1,285 @@
+import { RGB } from "../types";
+import { convertFromSrgb, convertToSrgb } from "./colorSpaceUtils";
+import { gamutMapToSrgb } from "./gamutUtils";
+
+/**
+ * Photoshop color swatch (.aco) reading and writing
+ * A file holds a version 1 section with unnamed colors, usually followed by
+ * a version 2 section repeating them with UTF-16 names. Each section is a
+ * version, a color count and 10-byte colors (color space and four 16-bit
+ * channels); all numbers are big-endian
+ */
+
+/**
+ * Color spaces of ACO colors that can be converted to sRGB
+ */
+export type AcoColorSpace = "rgb" | "hsb" | "cmyk" | "lab";
+
+/**
+ * Color of an ACO file with its raw 16-bit channel values
+ */
+export interface AcoColor {
+  name: string; // Empty in version 1 files
+  space: AcoColorSpace;
+  values: [number, number, number, number];
+}
+
+/**
+ * Color space ids used in ACO files
+ */
+const COLOR_SPACE_IDS: Record<AcoColorSpace, number> = {
+  rgb: 0,
+  hsb: 1,
+  cmyk: 2,
+  lab: 7,
+};
+
+const COLOR_BYTES = 10;
+const MAX_CHANNEL = 65535;
+
+/**
+ * Gets the color space of an id, or undefined for unsupported spaces
+ * (e.g., Pantone, Focoltone or grayscale)
+ */
+function getColorSpace(id: number): AcoColorSpace | undefined {
+  return (Object.keys(COLOR_SPACE_IDS) as AcoColorSpace[]).find(
+    (space) => COLOR_SPACE_IDS[space] === id,
+  );
+}
+
+/**
+ * Checks whether bytes look like an ACO file
+ * ACO has no signature, so the version and the section size are checked
+ */
+export function isAcoFile(data: Uint8Array): boolean {
+  if (data.length < 4) {
+    return false;
+  }
+
+  const buffer = Buffer.from(data);
+  const version = buffer.readUInt16BE(0);
+  const count = buffer.readUInt16BE(2);
+
+  if (version === 2) {
+    return count > 0;
+  }
+  if (version !== 1) {
+    return false;
+  }
+
+  // A version 1 section fills the file or is followed by a version 2 section
+  const end = 4 + count * COLOR_BYTES;
+  return (
+    end === buffer.length ||
+    (end + 4 <= buffer.length && buffer.readUInt16BE(end) === 2)
+  );
+}
+
+/**
+ * Reads one section, returning its colors and the offset after it
+ */
+function decodeSection(
+  data: Buffer,
+  offset: number,
+): { version: number; colors: (AcoColor | undefined)[]; end: number } {
+  const version = data.readUInt16BE(offset);
+  const count = data.readUInt16BE(offset + 2);
+  const colors: (AcoColor | undefined)[] = [];
+  let position = offset + 4;
+
+  for (let index = 0; index < count; index++) {
+    if (position + COLOR_BYTES > data.length) {
+      throw new Error(`Version ${version} section ends after ${index} colors`);
+    }
+
+    const space = getColorSpace(data.readUInt16BE(position));
+    const values: AcoColor["values"] = [
+      data.readUInt16BE(position + 2),
+      data.readUInt16BE(position + 4),
+      data.readUInt16BE(position + 6),
+      data.readUInt16BE(position + 8),
+    ];
+    position += COLOR_BYTES;
+
+    let name = "";
+    if (version === 2) {
+      // Length in UTF-16 code units, including the terminating zero
+      const length = data.readUInt32BE(position);
+      if (position + 4 + length * 2 > data.length) {
+        throw new Error(`Name of color ${index + 1} is truncated`);
+      }
+      name = Buffer.from(data.subarray(position + 4, position + 4 + length * 2))
+        .swap16()
+        .toString("utf16le")
+        .replace(/\0+$/, "");
+      position += 4 + length * 2;
+    }
+
+    colors.push(space ? { name, space, values } : undefined);
+  }
+
+  return { version, colors, end: position };
+}
+
+/**
+ * Reads an ACO file, preferring the named version 2 colors when present
+ * Colors in unsupported color spaces come back as undefined so callers can
+ * report them
+ */
+export function decodeAco(bytes: Uint8Array): (AcoColor | undefined)[] {
+  const data = Buffer.from(bytes);
+
+  if (!isAcoFile(data)) {
+    throw new Error("Not a Photoshop color swatch file");
+  }
+
+  const first = decodeSection(data, 0);
+
+  if (first.version === 1 && first.end + 4 <= data.length) {
+    return decodeSection(data, first.end).colors;
+  }
+
+  return first.colors;
+}
+
+/**
+ * Encodes the color space and channels of a color
+ */
+function encodeColor(color: AcoColor): Buffer {
+  const buffer = Buffer.alloc(COLOR_BYTES);
+  buffer.writeUInt16BE(COLOR_SPACE_IDS[color.space], 0);
+  color.values.forEach((value, index) =>
+    buffer.writeUInt16BE(value & 0xffff, 2 + index * 2),
+  );
+  return buffer;
+}
+
+/**
+ * Writes an ACO file with a version 1 section followed by a named version 2
+ * section, as Photoshop does
+ */
+export function encodeAco(colors: AcoColor[]): Uint8Array {
+  const header = (version: number) => {
+    const buffer = Buffer.alloc(4);
+    buffer.writeUInt16BE(version, 0);
+    buffer.writeUInt16BE(colors.length, 2);
+    return buffer;
+  };
+
+  const names = colors.map((color) => {
+    const name = Buffer.from(`${color.name}\0`, "utf16le").swap16();
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(name.length / 2, 0);
+    return Buffer.concat([length, name]);
+  });
+
+  return Buffer.concat([
+    header(1),
+    ...colors.map(encodeColor),
+    header(2),
+    ...colors.flatMap((color, index) => [encodeColor(color), names[index]]),
+  ]);
+}
+
+/**
+ * Reads a 16-bit channel as a signed value (Lab a and b)
+ */
+function toSigned(value: number): number {
+  return value > 0x7fff ? value - 0x10000 : value;
+}
+
+/**
+ * Converts an ACO color to an sRGB color
+ * CMYK channels count ink inversely (0 is full ink) and are converted without
+ * an ICC profile; Lab values outside sRGB are gamut mapped
+ */
+export function acoColorToRgb(color: AcoColor): RGB {
+  const [w, x, y, z] = color.values;
+  const to255 = (value: number) =>
+    Math.round(Math.min(1, Math.max(0, value)) * 255);
+
+  let srgb: number[];
+  switch (color.space) {
+    case "rgb":
+      srgb = [w / MAX_CHANNEL, x / MAX_CHANNEL, y / MAX_CHANNEL];
+      break;
+    case "hsb":
+      srgb = convertToSrgb("hsv", [
+        (w / MAX_CHANNEL) * 360,
+        x / MAX_CHANNEL,
+        y / MAX_CHANNEL,
+      ]);
+      break;
+    case "cmyk": {
+      const k = 1 - z / MAX_CHANNEL;
+      srgb = [w, x, y].map((stored) => (stored / MAX_CHANNEL) * (1 - k));
+      break;
+    }
+    case "lab":
+      srgb = gamutMapToSrgb(
+        convertToSrgb("lab", [w / 100, toSigned(x) / 100, toSigned(y) / 100]),
+      );
+      break;
+  }
+
+  const [r, g, b] = srgb.map(to255);
+  return { r, g, b };
+}
+
+/**
+ * Converts an sRGB color to an ACO color in the given space; alpha is dropped
+ */
+export function rgbToAcoColor(
+  name: string,
+  rgb: RGB,
+  space: AcoColorSpace = "rgb",
+): AcoColor {
+  const unit: [number, number, number] = [
+    rgb.r / 255,
+    rgb.g / 255,
+    rgb.b / 255,
+  ];
+  const to16 = (value: number) =>
+    Math.round(Math.min(1, Math.max(0, value)) * MAX_CHANNEL);
+
+  switch (space) {
+    case "rgb":
+      return {
+        name,
+        space,
+        values: [rgb.r * 257, rgb.g * 257, rgb.b * 257, 0],
+      };
+    case "hsb": {
+      const [h, s, v] = convertFromSrgb("hsv", unit);
+      return { name, space, values: [to16(h / 360), to16(s), to16(v), 0] };
+    }
+    case "cmyk": {
+      const k = 1 - Math.max(...unit);
+      const ink = (channel: number) =>
+        k < 1 ? (1 - channel - k) / (1 - k) : 0;
+      return {
+        name,
+        space,
+        values: [
+          to16(1 - ink(unit[0])),
+          to16(1 - ink(unit[1])),
+          to16(1 - ink(unit[2])),
+          to16(1 - k),
+        ],
+      };
+    }
+    case "lab": {
+      const [l, a, b] = convertFromSrgb("lab", unit);
+      return {
+        name,
+        space,
+        values: [
+          Math.round(l * 100),
+          Math.round(a * 100) & 0xffff,
+          Math.round(b * 100) & 0xffff,
+          0,
+        ],
+      };
+    }
+  }
+}
@@ -0,0 +1,372 @@
+import { RGB } from "../types";
+import { convertFromSrgb, convertToSrgb } from "./colorSpaceUtils";
+import { gamutMapToSrgb } from "./gamutUtils";
+
+/**
+ * Adobe Swatch Exchange (.ase) reading and writing
+ * Files start with "ASEF", version 1.0 and a block count; every block has a
+ * type, a byte length and its data. All numbers are big-endian and names are
+ * null-terminated UTF-16
+ */
+
+/**
+ * Color models an ASE swatch can be stored in
+ * RGB, CMYK and Gray channels are 0-1; LAB stores L as 0-1 and a/b as-is (D50)
+ */
+export type AseColorModel = "RGB" | "CMYK" | "LAB" | "Gray";
+
+/**
+ * How a swatch is used: global swatches update everywhere they are applied,
+ * spot colors are separate inks, process colors are plain CMYK mixes
+ */
+export type AseColorType = "global" | "spot" | "process";
+
+/**
+ * Color entry of an ASE file
+ */
+export interface AseSwatch {
+  name: string;
+  model: AseColorModel;
+  values: number[];
+  type: AseColorType;
+}
+
+/**
+ * Named group of swatches
+ */
+export interface AseGroup {
+  name: string;
+  swatches: AseSwatch[];
+}
+
+/**
+ * Content of an ASE file
+ */
+export interface AseDocument {
+  swatches: AseSwatch[]; // Swatches outside any group
+  groups: AseGroup[];
+}
+
+/**
+ * ASE file as read, with the color blocks that could not be read
+ */
+export interface DecodedAseDocument extends AseDocument {
+  skipped: string[]; // Why each skipped swatch was left out
+}
+
+const ASE_SIGNATURE = "ASEF";
+const ASE_VERSION = [1, 0];
+
+const BLOCK_TYPES = {
+  GROUP_START: 0xc001,
+  GROUP_END: 0xc002,
+  COLOR: 0x0001,
+} as const;
+
+/**
+ * Four-character model codes and the number of channels of each model
+ */
+const MODEL_CODES: Record<AseColorModel, string> = {
+  RGB: "RGB ",
+  CMYK: "CMYK",
+  LAB: "LAB ",
+  Gray: "Gray",
+};
+
+const MODEL_CHANNELS: Record<AseColorModel, number> = {
+  RGB: 3,
+  CMYK: 4,
+  LAB: 3,
+  Gray: 1,
+};
+
+const COLOR_TYPE_CODES: AseColorType[] = ["global", "spot", "process"];
+
+/**
+ * Checks whether bytes start with the ASE file signature
+ */
+export function isAseFile(data: Uint8Array): boolean {
+  return (
+    data.length >= 4 &&
+    Buffer.from(data.subarray(0, 4)).toString("latin1") === ASE_SIGNATURE
+  );
+}
+
+/**
+ * Encodes a name as length-prefixed, null-terminated UTF-16BE
+ */
+function encodeName(name: string): Buffer {
+  const buffer = Buffer.alloc(2 + (name.length + 1) * 2);
+  buffer.writeUInt16BE(name.length + 1, 0);
+
+  for (let index = 0; index < name.length; index++) {
+    buffer.writeUInt16BE(name.charCodeAt(index), 2 + index * 2);
+  }
+
+  return buffer;
+}
+
+/**
+ * Wraps block data with its type and length
+ */
+function encodeBlock(type: number, data: Buffer): Buffer {
+  const header = Buffer.alloc(6);
+  header.writeUInt16BE(type, 0);
+  header.writeUInt32BE(data.length, 2);
+  return Buffer.concat([header, data]);
+}
+
+/**
+ * Encodes the data of a color block
+ */
+function encodeSwatch(swatch: AseSwatch): Buffer {
+  const channels = MODEL_CHANNELS[swatch.model];
+
+  if (swatch.values.length !== channels) {
+    throw new Error(
+      `Swatch "${swatch.name}" needs ${channels} ${swatch.model} values`,
+    );
+  }
+
+  const values = Buffer.alloc(channels * 4 + 2);
+  swatch.values.forEach((value, index) =>
+    values.writeFloatBE(value, index * 4),
+  );
+  values.writeUInt16BE(COLOR_TYPE_CODES.indexOf(swatch.type), channels * 4);
+
+  return Buffer.concat([
+    encodeName(swatch.name),
+    Buffer.from(MODEL_CODES[swatch.model], "latin1"),
+    values,
+  ]);
+}
+
+/**
+ * Writes an ASE file, ungrouped swatches first
+ */
+export function encodeAse(document: AseDocument): Uint8Array {
+  const blocks = [
+    ...document.swatches.map((swatch) =>
+      encodeBlock(BLOCK_TYPES.COLOR, encodeSwatch(swatch)),
+    ),
+    ...document.groups.flatMap((group) => [
+      encodeBlock(BLOCK_TYPES.GROUP_START, encodeName(group.name)),
+      ...group.swatches.map((swatch) =>
+        encodeBlock(BLOCK_TYPES.COLOR, encodeSwatch(swatch)),
+      ),
+      encodeBlock(BLOCK_TYPES.GROUP_END, Buffer.alloc(0)),
+    ]),
+  ];
+
+  const header = Buffer.alloc(12);
+  header.write(ASE_SIGNATURE, 0, "latin1");
+  header.writeUInt16BE(ASE_VERSION[0], 4);
+  header.writeUInt16BE(ASE_VERSION[1], 6);
+  header.writeUInt32BE(blocks.length, 8);
+
+  return Buffer.concat([header, ...blocks]);
+}
+
+/**
+ * Reads a length-prefixed, null-terminated UTF-16BE name
+ */
+function decodeName(data: Buffer, offset: number): [string, number] {
+  if (offset + 2 > data.length) {
+    return ["", offset];
+  }
+
+  const length = data.readUInt16BE(offset);
+  const end = offset + 2 + length * 2;
+
+  if (end > data.length) {
+    throw new Error("Name runs past the end of its block");
+  }
+
+  let name = "";
+  for (let index = 0; index < length; index++) {
+    const code = data.readUInt16BE(offset + 2 + index * 2);
+    if (code === 0) {
+      break;
+    }
+    name += String.fromCharCode(code);
+  }
+
+  return [name, end];
+}
+
+/**
+ * Reads the data of a color block
+ */
+function decodeSwatch(data: Buffer): AseSwatch {
+  const [name, offset] = decodeName(data, 0);
+  const code = data.toString("latin1", offset, offset + 4);
+  const model = (Object.keys(MODEL_CODES) as AseColorModel[]).find(
+    (key) => MODEL_CODES[key].toLowerCase() === code.toLowerCase(),
+  );
+
+  if (!model) {
+    throw new Error(`Unsupported color model "${code.trim()}" in "${name}"`);
+  }
+
+  const channels = MODEL_CHANNELS[model];
+  const typeOffset = offset + 4 + channels * 4;
+
+  if (typeOffset > data.length) {
+    throw new Error(`Color "${name}" is truncated`);
+  }
+
+  const values = Array.from({ length: channels }, (_, index) =>
+    data.readFloatBE(offset + 4 + index * 4),
+  );
+  const type =
+    typeOffset + 2 <= data.length
+      ? (COLOR_TYPE_CODES[data.readUInt16BE(typeOffset)] ?? "process")
+      : "process";
+
+  return { name, model, values, type };
+}
+
+/**
+ * Reads an ASE file
+ * Unknown block types are skipped; swatches that cannot be read, such as
+ * swatches in an unsupported color model, are left out and described in
+ * `skipped`. A group start inside an open group closes the previous group,
+ * since ASE groups do not nest
+ */
+export function decodeAse(bytes: Uint8Array): DecodedAseDocument {
+  const data = Buffer.from(bytes);
+
+  if (!isAseFile(data) || data.length < 12) {
+    throw new Error("Not an Adobe Swatch Exchange file");
+  }
+
+  const major = data.readUInt16BE(4);
+  if (major !== ASE_VERSION[0]) {
+    throw new Error(`Unsupported ASE version ${major}`);
+  }
+
+  const blockCount = data.readUInt32BE(8);
+  const document: DecodedAseDocument = {
+    swatches: [],
+    groups: [],
+    skipped: [],
+  };
+  let group: AseGroup | undefined;
+  let offset = 12;
+
+  for (let block = 0; block < blockCount; block++) {
+    if (offset + 6 > data.length) {
+      throw new Error("File ends before its last block");
+    }
+
+    const type = data.readUInt16BE(offset);
+    const length = data.readUInt32BE(offset + 2);
+    const blockData = data.subarray(offset + 6, offset + 6 + length);
+
+    if (blockData.length < length) {
+      throw new Error("File ends in the middle of a block");
+    }
+
+    switch (type) {
+      case BLOCK_TYPES.GROUP_START:
+        group = { name: decodeName(blockData, 0)[0], swatches: [] };
+        document.groups.push(group);
+        break;
+      case BLOCK_TYPES.GROUP_END:
+        group = undefined;
+        break;
+      case BLOCK_TYPES.COLOR:
+        try {
+          (group ? group.swatches : document.swatches).push(
+            decodeSwatch(blockData),
+          );
+        } catch (error) {
+          document.skipped.push(
+            error instanceof Error ? error.message : String(error),
+          );
+        }
+        break;
+    }
+
+    offset += 6 + length;
+  }
+
+  return document;
+}
+
+/**
+ * Clamps a value to 0-1
+ */
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Converts a swatch to an sRGB color
+ * CMYK is converted without an ICC profile, so it is only an approximation;
+ * LAB values outside the sRGB gamut are gamut mapped
+ */
+export function aseSwatchToRgb(swatch: AseSwatch): RGB {
+  const to255 = (value: number) => Math.round(clamp01(value) * 255);
+
+  switch (swatch.model) {
+    case "RGB": {
+      const [r, g, b] = swatch.values.map(to255);
+      return { r, g, b };
+    }
+    case "CMYK": {
+      const [c, m, y, k] = swatch.values.map(clamp01);
+      return {
+        r: to255((1 - c) * (1 - k)),
+        g: to255((1 - m) * (1 - k)),
+        b: to255((1 - y) * (1 - k)),
+      };
+    }
+    case "LAB": {
+      const [l, a, b] = swatch.values;
+      const [red, green, blue] = gamutMapToSrgb(
+        convertToSrgb("lab", [l * 100, a, b]),
+      ).map(to255);
+      return { r: red, g: green, b: blue };
+    }
+    case "Gray": {
+      const gray = to255(swatch.values[0]);
+      return { r: gray, g: gray, b: gray };
+    }
+  }
+}
+
+/**
+ * Converts an sRGB color to a swatch in the given model; alpha is dropped
+ */
+export function rgbToAseSwatch(
+  name: string,
+  rgb: RGB,
+  model: AseColorModel = "RGB",
+  type: AseColorType = "global",
+): AseSwatch {
+  const [r, g, b] = [rgb.r / 255, rgb.g / 255, rgb.b / 255];
+
+  switch (model) {
+    case "RGB":
+      return { name, model, values: [r, g, b], type };
+    case "CMYK": {
+      const k = 1 - Math.max(r, g, b);
+      const ink = (channel: number) =>
+        k < 1 ? (1 - channel - k) / (1 - k) : 0;
+      return { name, model, values: [ink(r), ink(g), ink(b), k], type };
+    }
+    case "LAB": {
+      const [l, a, bValue] = convertFromSrgb("lab", [r, g, b]);
+      return { name, model, values: [l / 100, a, bValue], type };
+    }
+    case "Gray":
+      // Rec. 709 luma of the gamma-encoded channels
+      return {
+        name,
+        model,
+        values: [0.2126 * r + 0.7152 * g + 0.0722 * b],
+        type,
+      };
+  }
+}
@@ -1,6 +1,6 @@
-import { promises as fs } from "fs";
 import { ColorEntry } from "../types";
 import { getColorFilePath } from "./fileSystemUtils";
+import { getStorage } from "../services/storage";
 import { CachedColorOperations } from "./cacheUtils";
 
 /**
@@ -51,12 +51,18 @@ export class BackgroundSyncManager {
 
   /**
    * Checks if the color file has been modified externally
+   * Works against whichever storage backend is active
    */
   private async checkForFileChanges(): Promise<void> {
     try {
       const filePath = getColorFilePath();
-      const stats = await fs.stat(filePath);
-      const currentModTime = stats.mtime.getTime();
+      const stats = await getStorage().stat(filePath);
+
+      if (!stats) {
+        return; // File not created yet
+      }
+
+      const currentModTime = stats.lastModified;
 
       // Initialize last known mod time on first check
       if (this.lastKnownModTime === 0) {
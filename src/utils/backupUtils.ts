@@ -1,8 +1,25 @@
-import { promises as fs } from "fs";
 import { join } from "path";
-import { ColorEntry } from "../types";
+import { ColorEntry, PaletteStore } from "../types";
 import { getColorDirectory, getColorFilePath } from "./fileSystemUtils";
-import { FileOperationError } from "./errorUtils";
+import {
+  FileOperationError,
+  UnsupportedSchemaVersionError,
+} from "./errorUtils";
+import {
+  BACKUP_FORMAT_VERSION,
+  COLOR_STORE_SCHEMA_VERSION,
+} from "../constants/appConstants";
+import {
+  assertSupportedFormatVersion,
+  parseColorStore,
+  toStoreDocument,
+} from "../services/colorService/schemaMigrations";
+import { assertWithinColorLimit } from "./settingsUtils";
+import {
+  StorageBackend,
+  getStorage,
+  writeStorageJson,
+} from "../services/storage";
 
 /**
  * Backup metadata interface
@@ -11,15 +28,31 @@ interface BackupMetadata {
   timestamp: number;
   version: string;
   colorCount: number;
+  paletteCount?: number;
+  schemaVersion?: number; // Color store schema of `store`
   originalFilePath: string;
 }
 
 /**
  * Backup file structure
+ * `store` holds color store content in any known schema version and is
+ * migrated on restore; backups written before palettes existed only contain
+ * a flat colors array
  */
 interface BackupFile {
   metadata: BackupMetadata;
-  colors: ColorEntry[];
+  store?: unknown;
+  colors?: ColorEntry[];
+}
+
+/**
+ * Counts the colors across all palettes of a store
+ */
+function countColors(store: PaletteStore): number {
+  return store.palettes.reduce(
+    (count, palette) => count + palette.colors.length,
+    0,
+  );
 }
 
 /**
@@ -28,19 +61,79 @@ interface BackupFile {
 export class BackupManager {
   private backupDirectory: string;
   private maxBackups: number;
+  private customStorage?: StorageBackend;
 
-  constructor(maxBackups: number = 10) {
+  constructor(maxBackups: number = 10, storage?: StorageBackend) {
     this.backupDirectory = join(getColorDirectory(), "backups");
     this.maxBackups = maxBackups;
+    this.customStorage = storage;
+  }
+
+  /**
+   * Storage backend holding the backups, the active backend by default
+   */
+  private get storage(): StorageBackend {
+    return this.customStorage ?? getStorage();
   }
 
   /**
-   * Creates a backup of current color data
+   * Creates a backup of the current palette store
    */
-  async createBackup(colors: ColorEntry[], reason?: string): Promise<string> {
+  async createBackup(store: PaletteStore, reason?: string): Promise<string> {
+    return this.writeBackupFile(
+      toStoreDocument({
+        activePaletteId: store.activePaletteId,
+        palettes: store.palettes.map((palette) => ({
+          ...palette,
+          colors: palette.colors.map((color, index) => ({ ...color, index })),
+        })),
+      }),
+      COLOR_STORE_SCHEMA_VERSION,
+      store,
+      reason,
+    );
+  }
+
+  /**
+   * Backs up raw color store content verbatim before it is migrated
+   * Returns null instead of throwing so callers can skip the migration write
+   */
+  async createPreMigrationBackup(
+    rawData: unknown,
+    schemaVersion: number,
+  ): Promise<string | null> {
+    try {
+      let store: PaletteStore | null = null;
+      try {
+        store = parseColorStore(rawData);
+      } catch {
+        // Content that cannot be parsed is still worth keeping
+      }
+
+      return await this.writeBackupFile(
+        rawData,
+        schemaVersion,
+        store,
+        `pre-migration-v${schemaVersion}`,
+      );
+    } catch (error) {
+      console.warn("Failed to create pre-migration backup:", error);
+      return null;
+    }
+  }
+
+  /**
+   * Writes a backup file and prunes old backups
+   */
+  private async writeBackupFile(
+    content: unknown,
+    schemaVersion: number,
+    store: PaletteStore | null,
+    reason?: string,
+  ): Promise<string> {
     try {
       // Ensure backup directory exists
-      await fs.mkdir(this.backupDirectory, { recursive: true });
+      await this.storage.ensureDirectory(this.backupDirectory);
 
       // Create backup filename with timestamp
       const timestamp = Date.now();
@@ -55,19 +148,17 @@ export class BackupManager {
       const backupData: BackupFile = {
         metadata: {
           timestamp,
-          version: "1.0.0",
-          colorCount: colors.length,
+          version: BACKUP_FORMAT_VERSION,
+          colorCount: store ? countColors(store) : 0,
+          paletteCount: store ? store.palettes.length : 0,
+          schemaVersion,
           originalFilePath: getColorFilePath(),
         },
-        colors: colors.map((color, index) => ({ ...color, index })),
+        store: content,
       };
 
-      // Write backup file
-      await fs.writeFile(
-        backupFilePath,
-        JSON.stringify(backupData, null, 2),
-        "utf-8",
-      );
+      // Write backup file atomically
+      await writeStorageJson(backupFilePath, backupData, this.storage);
 
       // Clean up old backups
       await this.cleanupOldBackups();
@@ -80,26 +171,37 @@ export class BackupManager {
   }
 
   /**
-   * Restores colors from a backup file
+   * Reads and validates the palette store held by a backup file
+   * Backup content of older schema versions is migrated on read
    */
-  async restoreFromBackup(backupFilePath: string): Promise<ColorEntry[]> {
+  private async readBackupStore(
+    backupFilePath: string,
+  ): Promise<{ store: PaletteStore; metadata: BackupMetadata }> {
     try {
-      const backupContent = await fs.readFile(backupFilePath, "utf-8");
+      const backupContent = await this.storage.read(backupFilePath);
       const backupData: BackupFile = JSON.parse(backupContent);
 
       // Validate backup structure
-      if (!backupData.metadata || !Array.isArray(backupData.colors)) {
+      if (!backupData.metadata) {
         throw new Error("Invalid backup file format");
       }
 
-      console.log(
-        `Restoring from backup: ${backupData.colors.length} colors from ${new Date(
-          backupData.metadata.timestamp,
-        ).toISOString()}`,
+      assertSupportedFormatVersion(
+        backupData.metadata.version,
+        BACKUP_FORMAT_VERSION,
       );
 
-      return backupData.colors;
+      const store = parseColorStore(backupData.store ?? backupData.colors);
+
+      if (!store) {
+        throw new Error("Invalid backup file format");
+      }
+
+      return { store, metadata: backupData.metadata };
     } catch (error) {
+      if (error instanceof UnsupportedSchemaVersionError) {
+        throw error;
+      }
       throw new FileOperationError(
         `Failed to restore from backup: ${error}`,
         backupFilePath,
@@ -107,6 +209,26 @@ export class BackupManager {
     }
   }
 
+  /**
+   * Restores the palette store from a backup file
+   * Palettes above the color limit are rejected instead of truncated
+   */
+  async restoreFromBackup(backupFilePath: string): Promise<PaletteStore> {
+    const { store, metadata } = await this.readBackupStore(backupFilePath);
+
+    store.palettes.forEach((palette) =>
+      assertWithinColorLimit(palette.colors.length),
+    );
+
+    console.log(
+      `Restoring from backup: ${store.palettes.length} palettes from ${new Date(
+        metadata.timestamp,
+      ).toISOString()}`,
+    );
+
+    return store;
+  }
+
   /**
    * Lists available backup files
    */
@@ -116,21 +238,15 @@ export class BackupManager {
     try {
       const backups: Array<{ filePath: string; metadata: BackupMetadata }> = [];
 
-      // Check if backup directory exists
-      try {
-        await fs.access(this.backupDirectory);
-      } catch {
-        return backups; // No backups directory, return empty array
-      }
-
-      const files = await fs.readdir(this.backupDirectory);
+      // Missing backup directory lists as empty
+      const files = await this.storage.list(this.backupDirectory);
 
       for (const file of files) {
         if (file.endsWith(".json") && file.startsWith("colors-backup-")) {
           const filePath = join(this.backupDirectory, file);
 
           try {
-            const content = await fs.readFile(filePath, "utf-8");
+            const content = await this.storage.read(filePath);
             const backupData: BackupFile = JSON.parse(content);
 
             if (backupData.metadata) {
@@ -154,6 +270,32 @@ export class BackupManager {
     }
   }
 
+  /**
+   * Finds the newest backup that can actually be restored
+   * Backups without any colors are skipped, they cannot help recover data
+   */
+  async findNewestValidBackup(): Promise<{
+    filePath: string;
+    metadata: BackupMetadata;
+    store: PaletteStore;
+  } | null> {
+    const backups = await this.listBackups();
+
+    for (const backup of backups) {
+      try {
+        const { store } = await this.readBackupStore(backup.filePath);
+
+        if (countColors(store) > 0) {
+          return { ...backup, store };
+        }
+      } catch (error) {
+        console.warn(`Skipping unusable backup ${backup.filePath}:`, error);
+      }
+    }
+
+    return null;
+  }
+
   /**
    * Deletes old backup files to maintain the maximum count
    */
@@ -166,7 +308,7 @@ export class BackupManager {
 
         for (const backup of backupsToDelete) {
           try {
-            await fs.unlink(backup.filePath);
+            await this.storage.remove(backup.filePath);
             console.log(`Deleted old backup: ${backup.filePath}`);
           } catch (error) {
             console.warn(`Failed to delete backup ${backup.filePath}:`, error);
@@ -182,11 +324,11 @@ export class BackupManager {
    * Creates an automatic backup before risky operations
    */
   async createAutoBackup(
-    colors: ColorEntry[],
+    store: PaletteStore,
     operation: string,
   ): Promise<string | null> {
     try {
-      return await this.createBackup(colors, `auto-${operation}`);
+      return await this.createBackup(store, `auto-${operation}`);
     } catch (error) {
       console.warn("Failed to create automatic backup:", error);
       return null;
@@ -231,8 +373,8 @@ export class BackupManager {
 
       for (const backup of backups) {
         try {
-          const stats = await fs.stat(backup.filePath);
-          totalSize += stats.size;
+          const stats = await this.storage.stat(backup.filePath);
+          totalSize += stats?.size ?? 0;
         } catch (error) {
           console.warn(
             `Failed to get size for backup ${backup.filePath}:`,
@@ -1,4 +1,4 @@
-import { ColorEntry } from "../types";
+import { PaletteStore } from "../types";
 
 /**
  * Cache entry interface
@@ -99,9 +99,9 @@ class Cache<T> {
 }
 
 /**
- * Color data cache instance
+ * Palette store cache instance
  */
-export const colorCache = new Cache<ColorEntry[]>(10 * 60 * 1000); // 10 minutes TTL
+export const paletteStoreCache = new Cache<PaletteStore>(10 * 60 * 1000); // 10 minutes TTL
 
 /**
  * File metadata cache for tracking file changes
@@ -117,28 +117,28 @@ export const fileMetadataCache = new Cache<FileMetadata>(30 * 60 * 1000); // 30
  * Cached color operations
  */
 export class CachedColorOperations {
-  private static readonly COLORS_CACHE_KEY = "colors_data";
+  private static readonly PALETTE_STORE_CACHE_KEY = "palette_store";
   private static readonly FILE_METADATA_KEY = "file_metadata";
 
   /**
-   * Gets cached colors if available and valid
+   * Gets the cached palette store if available and valid
    */
-  static getCachedColors(): ColorEntry[] | null {
-    return colorCache.get(this.COLORS_CACHE_KEY);
+  static getCachedPaletteStore(): PaletteStore | null {
+    return paletteStoreCache.get(this.PALETTE_STORE_CACHE_KEY);
   }
 
   /**
-   * Caches color data
+   * Caches the palette store
    */
-  static setCachedColors(colors: ColorEntry[]): void {
-    colorCache.set(this.COLORS_CACHE_KEY, colors);
+  static setCachedPaletteStore(store: PaletteStore): void {
+    paletteStoreCache.set(this.PALETTE_STORE_CACHE_KEY, store);
   }
 
   /**
    * Invalidates color cache
    */
   static invalidateColorCache(): void {
-    colorCache.delete(this.COLORS_CACHE_KEY);
+    paletteStoreCache.delete(this.PALETTE_STORE_CACHE_KEY);
   }
 
   /**
@@ -175,7 +175,7 @@ export class CachedColorOperations {
    * Clears all caches
    */
   static clearAllCaches(): void {
-    colorCache.clear();
+    paletteStoreCache.clear();
     fileMetadataCache.clear();
   }
 
@@ -183,7 +183,7 @@ export class CachedColorOperations {
    * Performs cache cleanup
    */
   static cleanup(): void {
-    colorCache.cleanup();
+    paletteStoreCache.cleanup();
     fileMetadataCache.cleanup();
   }
 }
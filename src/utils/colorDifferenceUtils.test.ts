@@ -0,0 +1,93 @@
+import { PreciseColor, RGB } from "../types";
+import { Vector3 } from "./colorSpaceUtils";
+import {
+  getLabDeltaE2000,
+  groupNearDuplicates,
+  isNearDuplicate,
+} from "./colorDifferenceUtils";
+
+const gray = (value: number, a?: number) => ({
+  rgb: (a === undefined
+    ? { r: value, g: value, b: value }
+    : { r: value, g: value, b: value, a }) as RGB,
+});
+
+/**
+ * CIEDE2000 test data of Sharma, Wu and Dalal (2005), table 1
+ */
+const SHARMA_PAIRS: [Vector3, Vector3, number][] = [
+  [[50, 2.6772, -79.7751], [50, 0, -82.7485], 2.0425],
+  [[50, 3.1571, -77.2803], [50, 0, -82.7485], 2.8615],
+  [[50, 2.8361, -74.02], [50, 0, -82.7485], 3.4412],
+  [[50, -1.3802, -84.2814], [50, 0, -82.7485], 1.0],
+  [[50, -1.1848, -84.8006], [50, 0, -82.7485], 1.0],
+  [[50, -0.9009, -85.5211], [50, 0, -82.7485], 1.0],
+  [[50, 0, 0], [50, -1, 2], 2.3669],
+  [[50, -1, 2], [50, 0, 0], 2.3669],
+  [[50, 2.49, -0.001], [50, -2.49, 0.0009], 7.1792],
+  [[50, 2.49, -0.001], [50, -2.49, 0.001], 7.1792],
+  [[50, 2.49, -0.001], [50, -2.49, 0.0011], 7.2195],
+  [[50, 2.49, -0.001], [50, -2.49, 0.0012], 7.2195],
+  [[50, -0.001, 2.49], [50, 0.0009, -2.49], 4.8045],
+  [[50, -0.001, 2.49], [50, 0.001, -2.49], 4.8045],
+  [[50, -0.001, 2.49], [50, 0.0011, -2.49], 4.7461],
+  [[50, 2.5, 0], [50, 0, -2.5], 4.3065],
+  [[50, 2.5, 0], [73, 25, -18], 27.1492],
+  [[50, 2.5, 0], [61, -5, 29], 22.8977],
+  [[50, 2.5, 0], [56, -27, -3], 31.903],
+  [[50, 2.5, 0], [58, 24, 15], 19.4535],
+  [[50, 2.5, 0], [50, 3.1736, 0.5854], 1.0],
+  [[50, 2.5, 0], [50, 3.2972, 0], 1.0],
+  [[50, 2.5, 0], [50, 1.8634, 0.5757], 1.0],
+  [[50, 2.5, 0], [50, 3.2592, 0.335], 1.0],
+  [[60.2574, -34.0099, 36.2677], [60.4626, -34.1751, 39.4387], 1.2644],
+  [[63.0109, -31.0961, -5.8663], [62.8187, -29.7946, -4.0864], 1.263],
+  [[61.2901, 3.7196, -5.3901], [61.4292, 2.248, -4.962], 1.8731],
+  [[35.0831, -44.1164, 3.7933], [35.0232, -40.0716, 1.5901], 1.8645],
+  [[22.7233, 20.0904, -46.694], [23.0331, 14.973, -42.5619], 2.0373],
+  [[36.4612, 47.858, 18.3852], [36.2715, 50.5065, 21.2231], 1.4146],
+  [[90.8027, -2.0831, 1.441], [91.1528, -1.6435, 0.0447], 1.4441],
+  [[90.9257, -0.5406, -0.9208], [88.6381, -0.8985, -0.7239], 1.5381],
+  [[6.7747, -0.2908, -2.4247], [5.8714, -0.0985, -2.2286], 0.6377],
+  [[2.0776, 0.0795, -1.135], [0.9033, -0.0636, -0.5514], 0.9082],
+];
+
+describe("getLabDeltaE2000", () => {
+  it.each(SHARMA_PAIRS)("%p and %p differ by %f", (first, second, deltaE) => {
+    expect(getLabDeltaE2000(first, second)).toBeCloseTo(deltaE, 4);
+    expect(getLabDeltaE2000(second, first)).toBeCloseTo(deltaE, 4);
+  });
+});
+
+describe("groupNearDuplicates", () => {
+  it("does not chain a ramp of small steps into one group", () => {
+    // Neighbors differ by about ΔE 1.2, the ends by far more
+    const ramp = [100, 103, 106, 109, 112, 115].map((value) => gray(value));
+
+    const groups = groupNearDuplicates(ramp);
+
+    groups.forEach(([first, ...rest]) =>
+      rest.forEach((item) => expect(isNearDuplicate(first, item)).toBe(true)),
+    );
+    expect(groups).toEqual([
+      [ramp[0], ramp[1]],
+      [ramp[2], ramp[3]],
+      [ramp[4], ramp[5]],
+    ]);
+  });
+
+  it("keeps translucent and wide-gamut variants apart", () => {
+    const red = { rgb: { r: 255, g: 0, b: 0 } };
+    const translucent = { rgb: { r: 255, g: 0, b: 0, a: 0.5 } };
+    const precise: PreciseColor = { space: "display-p3", coords: [1, 0, 0] };
+    const wide = { rgb: { r: 255, g: 0, b: 0 }, precise };
+    const almostRed = { rgb: { r: 254, g: 1, b: 0 } };
+
+    expect(isNearDuplicate(red, translucent)).toBe(false);
+    expect(isNearDuplicate(red, wide)).toBe(false);
+    expect(groupNearDuplicates([red, translucent, wide, almostRed])).toEqual([
+      [red, almostRed],
+    ]);
+    expect(groupNearDuplicates([gray(50, 0.5), gray(51, 0.5)])).toHaveLength(1);
+  });
+});
@@ -0,0 +1,289 @@
+import { ColorEntry, PreciseColor, RGB } from "../types";
+import { Vector3, convertFromSrgb } from "./colorSpaceUtils";
+
+/**
+ * Perceptual color difference (delta E) between colors
+ */
+
+/**
+ * Delta E formulas: CIE76 and CIEDE2000 in CIE Lab, Euclidean distance in OKLab
+ */
+export type DeltaEMethod = "ciede2000" | "cie76" | "oklab";
+
+export const DELTA_E_METHODS: DeltaEMethod[] = ["ciede2000", "cie76", "oklab"];
+
+export const DELTA_E_METHOD_LABELS: Record<DeltaEMethod, string> = {
+  ciede2000: "CIEDE2000",
+  cie76: "CIE76",
+  oklab: "OKLab",
+};
+
+/**
+ * Differences below which two colors count as near-identical
+ * Around one just-noticeable difference for each formula; OKLab distances are
+ * on a 0-1 lightness scale
+ */
+export const NEAR_DUPLICATE_THRESHOLDS: Record<DeltaEMethod, number> = {
+  ciede2000: 2,
+  cie76: 2.3,
+  oklab: 0.02,
+};
+
+/**
+ * Converts an RGB color (0-255) into CIE Lab
+ */
+export function rgbToLab(rgb: RGB): Vector3 {
+  return convertFromSrgb("lab", [rgb.r / 255, rgb.g / 255, rgb.b / 255]);
+}
+
+/**
+ * Hue angle in degrees (0-360) of the a/b components
+ */
+function hueAngle(a: number, b: number): number {
+  if (a === 0 && b === 0) {
+    return 0;
+  }
+  const angle = (Math.atan2(b, a) * 180) / Math.PI;
+  return angle < 0 ? angle + 360 : angle;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * CIEDE2000 difference of two Lab colors
+ * Follows Sharma, Wu and Dalal (2005) with unit weighting factors
+ */
+export function getLabDeltaE2000(
+  [l1, a1, b1]: Vector3,
+  [l2, a2, b2]: Vector3,
+): number {
+  const c1 = Math.hypot(a1, b1);
+  const c2 = Math.hypot(a2, b2);
+  const meanC7 = Math.pow((c1 + c2) / 2, 7);
+  const g = 0.5 * (1 - Math.sqrt(meanC7 / (meanC7 + Math.pow(25, 7))));
+
+  const a1Prime = a1 * (1 + g);
+  const a2Prime = a2 * (1 + g);
+  const c1Prime = Math.hypot(a1Prime, b1);
+  const c2Prime = Math.hypot(a2Prime, b2);
+  const h1Prime = hueAngle(a1Prime, b1);
+  const h2Prime = hueAngle(a2Prime, b2);
+
+  const deltaL = l2 - l1;
+  const deltaC = c2Prime - c1Prime;
+
+  let deltaHue = 0;
+  if (c1Prime * c2Prime !== 0) {
+    deltaHue = h2Prime - h1Prime;
+    if (deltaHue > 180) {
+      deltaHue -= 360;
+    } else if (deltaHue < -180) {
+      deltaHue += 360;
+    }
+  }
+  const deltaH =
+    2 * Math.sqrt(c1Prime * c2Prime) * Math.sin(toRadians(deltaHue / 2));
+
+  const meanL = (l1 + l2) / 2;
+  const meanCPrime = (c1Prime + c2Prime) / 2;
+
+  let meanH = h1Prime + h2Prime;
+  if (c1Prime * c2Prime !== 0) {
+    if (Math.abs(h1Prime - h2Prime) <= 180) {
+      meanH /= 2;
+    } else if (h1Prime + h2Prime < 360) {
+      meanH = (meanH + 360) / 2;
+    } else {
+      meanH = (meanH - 360) / 2;
+    }
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos(toRadians(meanH - 30)) +
+    0.24 * Math.cos(toRadians(2 * meanH)) +
+    0.32 * Math.cos(toRadians(3 * meanH + 6)) -
+    0.2 * Math.cos(toRadians(4 * meanH - 63));
+
+  const meanL50 = Math.pow(meanL - 50, 2);
+  const sL = 1 + (0.015 * meanL50) / Math.sqrt(20 + meanL50);
+  const sC = 1 + 0.045 * meanCPrime;
+  const sH = 1 + 0.015 * meanCPrime * t;
+
+  const meanCPrime7 = Math.pow(meanCPrime, 7);
+  const rC = 2 * Math.sqrt(meanCPrime7 / (meanCPrime7 + Math.pow(25, 7)));
+  const deltaTheta = 30 * Math.exp(-Math.pow((meanH - 275) / 25, 2));
+  const rT = -Math.sin(toRadians(2 * deltaTheta)) * rC;
+
+  return Math.sqrt(
+    Math.pow(deltaL / sL, 2) +
+      Math.pow(deltaC / sC, 2) +
+      Math.pow(deltaH / sH, 2) +
+      rT * (deltaC / sC) * (deltaH / sH),
+  );
+}
+
+/**
+ * CIEDE2000 difference of two colors; about 1 is the smallest visible step
+ * Alpha is ignored
+ */
+export function getDeltaE2000(first: RGB, second: RGB): number {
+  return getLabDeltaE2000(rgbToLab(first), rgbToLab(second));
+}
+
+/**
+ * CIE76 difference of two colors: Euclidean distance in CIE Lab
+ */
+export function getDeltaE76(first: RGB, second: RGB): number {
+  const [l1, a1, b1] = rgbToLab(first);
+  const [l2, a2, b2] = rgbToLab(second);
+  return Math.hypot(l1 - l2, a1 - a2, b1 - b2);
+}
+
+/**
+ * OKLab difference of two colors: Euclidean distance in OKLab (0-1 scale)
+ */
+export function getDeltaEOK(first: RGB, second: RGB): number {
+  const [l1, a1, b1] = convertFromSrgb("oklab", [
+    first.r / 255,
+    first.g / 255,
+    first.b / 255,
+  ]);
+  const [l2, a2, b2] = convertFromSrgb("oklab", [
+    second.r / 255,
+    second.g / 255,
+    second.b / 255,
+  ]);
+  return Math.hypot(l1 - l2, a1 - a2, b1 - b2);
+}
+
+/**
+ * Difference of two colors with the given formula
+ */
+export function getDeltaE(
+  first: RGB,
+  second: RGB,
+  method: DeltaEMethod = "ciede2000",
+): number {
+  switch (method) {
+    case "cie76":
+      return getDeltaE76(first, second);
+    case "oklab":
+      return getDeltaEOK(first, second);
+    case "ciede2000":
+      return getDeltaE2000(first, second);
+  }
+}
+
+/**
+ * Formats a difference for display, e.g. "ΔE 1.24" or "ΔE 0.012" for OKLab
+ */
+export function formatDeltaE(
+  deltaE: number,
+  method: DeltaEMethod = "ciede2000",
+): string {
+  return `ΔE ${deltaE.toFixed(method === "oklab" ? 3 : 2)}`;
+}
+
+/**
+ * Existing color that is perceptually near-identical to another color
+ */
+export interface NearDuplicateMatch {
+  color: ColorEntry;
+  deltaE: number;
+}
+
+/**
+ * Finds the colors that are near-identical to an RGB color, closest first
+ * Alpha is ignored, so translucent variants of a color also match
+ */
+export function findNearDuplicates(
+  rgb: RGB,
+  colors: ColorEntry[],
+  method: DeltaEMethod = "ciede2000",
+  threshold: number = NEAR_DUPLICATE_THRESHOLDS[method],
+): NearDuplicateMatch[] {
+  return colors
+    .map((color) => ({ color, deltaE: getDeltaE(rgb, color.rgb, method) }))
+    .filter((match) => match.deltaE < threshold)
+    .sort((a, b) => a.deltaE - b.deltaE);
+}
+
+/**
+ * Color compared when grouping near-duplicates
+ */
+interface ComparableColor {
+  rgb: RGB;
+  precise?: PreciseColor;
+}
+
+/**
+ * Checks whether two precise values are the same, or both absent
+ */
+function isSamePrecise(first?: PreciseColor, second?: PreciseColor): boolean {
+  if (!first || !second) {
+    return first === second;
+  }
+
+  return (
+    first.space === second.space &&
+    first.coords.every((value, index) => value === second.coords[index])
+  );
+}
+
+/**
+ * Checks whether two colors are near-identical and could replace each other
+ * Unlike findNearDuplicates, alpha and the precise value must match exactly:
+ * a translucent or wide-gamut variant is a different color
+ */
+export function isNearDuplicate(
+  first: ComparableColor,
+  second: ComparableColor,
+  method: DeltaEMethod = "ciede2000",
+  threshold: number = NEAR_DUPLICATE_THRESHOLDS[method],
+): boolean {
+  return (
+    (first.rgb.a ?? 1) === (second.rgb.a ?? 1) &&
+    isSamePrecise(first.precise, second.precise) &&
+    getDeltaE(first.rgb, second.rgb, method) < threshold
+  );
+}
+
+/**
+ * Groups near-identical colors around the first color of each group
+ * Every color of a group is near-identical to that first color; colors are
+ * not chained, so a ramp of small steps is never lumped into one group
+ * Groups keep the order of the input and have at least two colors
+ */
+export function groupNearDuplicates<T extends ComparableColor>(
+  items: T[],
+  method: DeltaEMethod = "ciede2000",
+  threshold: number = NEAR_DUPLICATE_THRESHOLDS[method],
+): T[][] {
+  const grouped = new Set<T>();
+  const groups: T[][] = [];
+
+  items.forEach((first, index) => {
+    if (grouped.has(first)) {
+      return;
+    }
+
+    const group = [
+      first,
+      ...items
+        .slice(index + 1)
+        .filter(
+          (item) =>
+            !grouped.has(item) &&
+            isNearDuplicate(first, item, method, threshold),
+        ),
+    ];
+
+    if (group.length > 1) {
+      group.forEach((item) => grouped.add(item));
+      groups.push(group);
+    }
+  });
+
+  return groups;
+}
@@ -0,0 +1,131 @@
+import { RGB, PreciseColor } from "../types";
+import { SUPPORTED_COLOR_FORMATS } from "../constants/appConstants";
+import { formatAsColorFunction, formatColorAs } from "./colorFormatUtils";
+import { parseColor, parseColorValue } from "./colorParserUtils";
+
+/**
+ * Deterministic pseudo-random numbers (0-1) so failures can be reproduced
+ */
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+}
+
+/**
+ * Random 8-bit colors; every other one is translucent with a stored
+ * (three-decimal) alpha
+ */
+function createColors(count: number): RGB[] {
+  const random = createRandom(42);
+  const byte = () => Math.floor(random() * 256);
+
+  return Array.from({ length: count }, (_, index) => {
+    const rgb: RGB = { r: byte(), g: byte(), b: byte() };
+    return index % 2 === 0
+      ? rgb
+      : { ...rgb, a: Math.round(random() * 999) / 1000 };
+  });
+}
+
+const COLORS: RGB[] = [
+  { r: 0, g: 0, b: 0 },
+  { r: 255, g: 255, b: 255 },
+  { r: 255, g: 0, b: 0, a: 0 },
+  { r: 128, g: 128, b: 128, a: 0.999 },
+  ...createColors(500),
+];
+
+describe("format → parse → format round trip", () => {
+  it.each(SUPPORTED_COLOR_FORMATS)("is stable for %s", (format) => {
+    COLORS.forEach((rgb) => {
+      const formatted = formatColorAs(rgb, format);
+      const parsed = parseColor(formatted);
+
+      expect({
+        value: formatted,
+        reformatted: formatColorAs(parsed, format),
+      }).toEqual({ value: formatted, reformatted: formatted });
+      expect({
+        value: formatted,
+        r: parsed.r,
+        g: parsed.g,
+        b: parsed.b,
+      }).toEqual({ value: formatted, r: rgb.r, g: rgb.g, b: rgb.b });
+    });
+  });
+
+  it.each(
+    SUPPORTED_COLOR_FORMATS.filter(
+      (format) => format !== "cmyk" && format !== "hex",
+    ),
+  )("keeps alpha exactly in %s", (format) => {
+    COLORS.forEach((rgb) => {
+      const formatted = formatColorAs(rgb, format);
+      expect({ value: formatted, a: parseColor(formatted).a }).toEqual({
+        value: formatted,
+        a: rgb.a,
+      });
+    });
+  });
+
+  it("keeps precise color() values", () => {
+    const random = createRandom(7);
+    const spaces: PreciseColor["space"][] = ["srgb", "display-p3", "rec2020"];
+
+    spaces.forEach((space) => {
+      for (let index = 0; index < 200; index++) {
+        const precise: PreciseColor = {
+          space,
+          coords: [random(), random(), random()].map(
+            (value) => Math.round(value * 1e5) / 1e5,
+          ) as PreciseColor["coords"],
+        };
+        const { rgb } = parseColorValue(
+          `color(${space} ${precise.coords.join(" ")} / 0.25)`,
+        );
+        const formatted = formatAsColorFunction(rgb, precise);
+        const parsed = parseColorValue(formatted);
+
+        expect(parsed.precise).toEqual(precise);
+        expect(parsed.rgb).toEqual(rgb);
+        expect(formatAsColorFunction(parsed.rgb, parsed.precise)).toBe(
+          formatted,
+        );
+      }
+    });
+  });
+});
+
+describe("out-of-range color() channels", () => {
+  it("keeps them as entered and gamut maps only the sRGB fallback", () => {
+    const { rgb, precise } = parseColorValue("color(display-p3 1.2 -0.1 0)");
+
+    expect(precise).toEqual({ space: "display-p3", coords: [1.2, -0.1, 0] });
+    expect(formatAsColorFunction(rgb, precise)).toBe(
+      "color(display-p3 1.2 -0.1 0)",
+    );
+    [rgb.r, rgb.g, rgb.b].forEach((channel) => {
+      expect(channel).toBeGreaterThanOrEqual(0);
+      expect(channel).toBeLessThanOrEqual(255);
+    });
+  });
+});
+
+describe("documented round-trip losses", () => {
+  it("quantizes alpha to a byte in hex", () => {
+    const formatted = formatColorAs({ r: 255, g: 0, b: 0, a: 0.5 }, "hex");
+
+    expect(formatted).toBe("#ff000080");
+    expect(parseColor(formatted)).toEqual({ r: 255, g: 0, b: 0, a: 0.502 });
+  });
+
+  it("drops alpha in CMYK", () => {
+    const formatted = formatColorAs({ r: 255, g: 0, b: 0, a: 0.5 }, "cmyk");
+
+    expect(formatted).toBe("cmyk(0%, 100%, 100%, 0%)");
+    expect(parseColor(formatted)).toEqual({ r: 255, g: 0, b: 0 });
+  });
+});
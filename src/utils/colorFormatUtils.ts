@@ -1,4 +1,7 @@
-import { RGB, ColorEntry } from "../types";
+import { RGB, ColorEntry, PreciseColor } from "../types";
+import { ColorFormat } from "../constants/appConstants";
+import { Vector3, convertFromSrgb } from "./colorSpaceUtils";
+import { tryParseColor } from "./colorParserUtils";
 
 /**
  * Color formatting utilities supporting multiple formats
@@ -12,65 +15,124 @@ function toHex(value: number): string {
   return hex.length === 1 ? "0" + hex : hex;
 }
 
+/**
+ * Checks whether a color is translucent (alpha below 1)
+ */
+export function hasAlpha(rgb: RGB): boolean {
+  return rgb.a !== undefined && rgb.a < 1;
+}
+
+/**
+ * Formats an alpha value with at most three decimals, e.g. "0.5"
+ */
+function formatAlpha(alpha: number): string {
+  return String(Math.round(Math.max(0, Math.min(1, alpha)) * 1000) / 1000);
+}
+
 /**
  * Formats RGB values as hex color string "#RRGGBB"
+ * Translucent colors get an alpha byte: "#RRGGBBAA"
  */
 export function formatAsHex(rgb: RGB): string {
-  return `#${toHex(rgb.r)}${toHex(rgb.g)}${toHex(rgb.b)}`;
+  const alphaByte = hasAlpha(rgb) ? toHex((rgb.a as number) * 255) : "ff";
+  // Alpha close to 1 rounds to "ff", which is the same as no alpha byte
+  const alpha = alphaByte === "ff" ? "" : alphaByte;
+  return `#${toHex(rgb.r)}${toHex(rgb.g)}${toHex(rgb.b)}${alpha}`;
 }
 
 /**
  * Formats RGB values as CSS rgb() string
+ * Translucent colors are formatted as rgba()
  */
 export function formatAsRgb(rgb: RGB): string {
   const r = Math.max(0, Math.min(255, Math.round(rgb.r)));
   const g = Math.max(0, Math.min(255, Math.round(rgb.g)));
   const b = Math.max(0, Math.min(255, Math.round(rgb.b)));
+
+  if (hasAlpha(rgb)) {
+    return `rgba(${r}, ${g}, ${b}, ${formatAlpha(rgb.a as number)})`;
+  }
+
   return `rgb(${r}, ${g}, ${b})`;
 }
 
 /**
- * Formats RGB values as HSL string
+ * Converts RGB (0-255) to unit sRGB channels for the color space helpers
  */
-export function formatAsHsl(rgb: RGB): string {
-  const r = rgb.r / 255;
-  const g = rgb.g / 255;
-  const b = rgb.b / 255;
+function toUnitRgb(rgb: RGB): Vector3 {
+  return [rgb.r / 255, rgb.g / 255, rgb.b / 255];
+}
+
+/**
+ * Rounds to a fixed number of decimals without trailing zeros
+ */
+function round(value: number, decimals: number): number {
+  const rounded = Number(value.toFixed(decimals));
+  return rounded === 0 ? 0 : rounded; // Avoid "-0"
+}
+
+/**
+ * CSS Color 4 alpha suffix, e.g. " / 0.5", empty for opaque colors
+ */
+function alphaSuffix(rgb: RGB): string {
+  return hasAlpha(rgb) ? ` / ${formatAlpha(rgb.a as number)}` : "";
+}
 
-  const max = Math.max(r, g, b);
-  const min = Math.min(r, g, b);
-  const diff = max - min;
+/**
+ * Most decimals added on top of a format's usual precision
+ */
+const MAX_EXTRA_DECIMALS = 3;
 
-  // Calculate lightness
-  const l = (max + min) / 2;
+/**
+ * Formats with the fewest decimals that still parse back to the same RGB
+ * values, so that format -> parse -> format is stable; `build` receives the
+ * number of extra decimals to use
+ */
+function formatRoundTrip(rgb: RGB, build: (extra: number) => string): string {
+  const target = {
+    r: Math.round(rgb.r),
+    g: Math.round(rgb.g),
+    b: Math.round(rgb.b),
+  };
 
-  // Calculate saturation
-  let s = 0;
-  if (diff !== 0) {
-    s = l > 0.5 ? diff / (2 - max - min) : diff / (max + min);
-  }
+  for (let extra = 0; extra < MAX_EXTRA_DECIMALS; extra++) {
+    const value = build(extra);
+    const parsed = tryParseColor(value);
 
-  // Calculate hue
-  let h = 0;
-  if (diff !== 0) {
-    switch (max) {
-      case r:
-        h = ((g - b) / diff + (g < b ? 6 : 0)) / 6;
-        break;
-      case g:
-        h = ((b - r) / diff + 2) / 6;
-        break;
-      case b:
-        h = ((r - g) / diff + 4) / 6;
-        break;
+    if (
+      parsed &&
+      parsed.r === target.r &&
+      parsed.g === target.g &&
+      parsed.b === target.b
+    ) {
+      return value;
     }
   }
 
-  return `hsl(${Math.round(h * 360)}, ${Math.round(s * 100)}%, ${Math.round(l * 100)}%)`;
+  return build(MAX_EXTRA_DECIMALS);
+}
+
+/**
+ * Formats RGB values as HSL string
+ * Translucent colors are formatted as hsla()
+ */
+export function formatAsHsl(rgb: RGB): string {
+  const [h, s, l] = convertFromSrgb("hsl", toUnitRgb(rgb));
+
+  return formatRoundTrip(rgb, (extra) => {
+    const hsl = `${round(h, extra)}, ${round(s * 100, extra)}%, ${round(l * 100, extra)}%`;
+
+    if (hasAlpha(rgb)) {
+      return `hsla(${hsl}, ${formatAlpha(rgb.a as number)})`;
+    }
+
+    return `hsl(${hsl})`;
+  });
 }
 
 /**
  * Formats RGB values as CMYK string
+ * CMYK has no alpha channel, so opacity is not included
  */
 export function formatAsCmyk(rgb: RGB): string {
   const r = rgb.r / 255;
@@ -82,7 +144,168 @@ export function formatAsCmyk(rgb: RGB): string {
   const m = k === 1 ? 0 : (1 - g - k) / (1 - k);
   const y = k === 1 ? 0 : (1 - b - k) / (1 - k);
 
-  return `cmyk(${Math.round(c * 100)}%, ${Math.round(m * 100)}%, ${Math.round(y * 100)}%, ${Math.round(k * 100)}%)`;
+  return formatRoundTrip(
+    rgb,
+    (extra) =>
+      `cmyk(${round(c * 100, extra)}%, ${round(m * 100, extra)}%, ${round(y * 100, extra)}%, ${round(k * 100, extra)}%)`,
+  );
+}
+
+/**
+ * Formats RGB values as HSV string "hsv(204, 76%, 86%)"
+ * HSV has no CSS syntax; translucent colors are formatted as hsva()
+ */
+export function formatAsHsv(rgb: RGB): string {
+  const [h, s, v] = convertFromSrgb("hsv", toUnitRgb(rgb));
+
+  return formatRoundTrip(rgb, (extra) => {
+    const hsv = `${round(h, extra)}, ${round(s * 100, extra)}%, ${round(v * 100, extra)}%`;
+
+    if (hasAlpha(rgb)) {
+      return `hsva(${hsv}, ${formatAlpha(rgb.a as number)})`;
+    }
+
+    return `hsv(${hsv})`;
+  });
+}
+
+/**
+ * Formats RGB values as CSS hwb() string
+ */
+export function formatAsHwb(rgb: RGB): string {
+  const [h, w, b] = convertFromSrgb("hwb", toUnitRgb(rgb));
+
+  return formatRoundTrip(
+    rgb,
+    (extra) =>
+      `hwb(${round(h, extra)} ${round(w * 100, extra)}% ${round(b * 100, extra)}%${alphaSuffix(rgb)})`,
+  );
+}
+
+/**
+ * Formats RGB values as CSS lab() string (CIE Lab, D50)
+ */
+export function formatAsLab(rgb: RGB): string {
+  const [l, a, b] = convertFromSrgb("lab", toUnitRgb(rgb));
+
+  return formatRoundTrip(
+    rgb,
+    (extra) =>
+      `lab(${round(l, 2 + extra)}% ${round(a, 2 + extra)} ${round(b, 2 + extra)}${alphaSuffix(rgb)})`,
+  );
+}
+
+/**
+ * Formats RGB values as CSS lch() string
+ */
+export function formatAsLch(rgb: RGB): string {
+  const [l, c, h] = convertFromSrgb("lch", toUnitRgb(rgb));
+
+  return formatRoundTrip(
+    rgb,
+    (extra) =>
+      `lch(${round(l, 2 + extra)}% ${round(c, 2 + extra)} ${round(h, 2 + extra)}${alphaSuffix(rgb)})`,
+  );
+}
+
+/**
+ * Formats RGB values as CSS oklab() string
+ */
+export function formatAsOklab(rgb: RGB): string {
+  const [l, a, b] = convertFromSrgb("oklab", toUnitRgb(rgb));
+
+  return formatRoundTrip(
+    rgb,
+    (extra) =>
+      `oklab(${round(l * 100, 2 + extra)}% ${round(a, 4 + extra)} ${round(b, 4 + extra)}${alphaSuffix(rgb)})`,
+  );
+}
+
+/**
+ * Formats RGB values as CSS oklch() string
+ */
+export function formatAsOklch(rgb: RGB): string {
+  const [l, c, h] = convertFromSrgb("oklch", toUnitRgb(rgb));
+
+  return formatRoundTrip(
+    rgb,
+    (extra) =>
+      `oklch(${round(l * 100, 2 + extra)}% ${round(c, 4 + extra)} ${round(h, 2 + extra)}${alphaSuffix(rgb)})`,
+  );
+}
+
+/**
+ * Formats RGB values as CSS color(xyz-d65 ...) string
+ */
+export function formatAsXyz(rgb: RGB): string {
+  const [x, y, z] = convertFromSrgb("xyz-d65", toUnitRgb(rgb));
+
+  return formatRoundTrip(
+    rgb,
+    (extra) =>
+      `color(xyz-d65 ${round(x, 4 + extra)} ${round(y, 4 + extra)} ${round(z, 4 + extra)}${alphaSuffix(rgb)})`,
+  );
+}
+
+/**
+ * Formats a color as CSS color() string
+ * Precise colors keep their own space, e.g. "color(display-p3 1 0.2 0.1)";
+ * 8-bit colors are written as color(srgb ...)
+ */
+export function formatAsColorFunction(
+  rgb: RGB,
+  precise?: PreciseColor,
+): string {
+  if (precise) {
+    const [c1, c2, c3] = precise.coords.map((value) => round(value, 5));
+    return `color(${precise.space} ${c1} ${c2} ${c3}${alphaSuffix(rgb)})`;
+  }
+
+  const [r, g, b] = toUnitRgb(rgb);
+
+  return formatRoundTrip(
+    rgb,
+    (extra) =>
+      `color(srgb ${round(r, 4 + extra)} ${round(g, 4 + extra)} ${round(b, 4 + extra)}${alphaSuffix(rgb)})`,
+  );
+}
+
+/**
+ * Formats RGB values in any supported color format
+ * Only the color() format uses the precise value, the others use the sRGB
+ * fallback
+ */
+export function formatColorAs(
+  rgb: RGB,
+  format: ColorFormat,
+  precise?: PreciseColor,
+): string {
+  switch (format) {
+    case "color":
+      return formatAsColorFunction(rgb, precise);
+    case "rgb":
+      return formatAsRgb(rgb);
+    case "hsl":
+      return formatAsHsl(rgb);
+    case "hsv":
+      return formatAsHsv(rgb);
+    case "hwb":
+      return formatAsHwb(rgb);
+    case "cmyk":
+      return formatAsCmyk(rgb);
+    case "lab":
+      return formatAsLab(rgb);
+    case "lch":
+      return formatAsLch(rgb);
+    case "oklab":
+      return formatAsOklab(rgb);
+    case "oklch":
+      return formatAsOklch(rgb);
+    case "xyz":
+      return formatAsXyz(rgb);
+    default:
+      return formatAsHex(rgb);
+  }
 }
 
 /**
@@ -115,7 +338,7 @@ export function formatCmykString(color: ColorEntry): string {
 
 /**
  * Validates if a string is a valid hex color code
- * Supports both #RRGGBB and #RGB formats
+ * Supports #RRGGBB, #RGB, #RRGGBBAA and #RGBA formats
  */
 export function isValidHex(hex: string): boolean {
   if (!hex || typeof hex !== "string") {
@@ -124,8 +347,8 @@ export function isValidHex(hex: string): boolean {
 
   const cleanHex = hex.replace("#", "");
 
-  // Check for 3-digit or 6-digit hex
-  if (cleanHex.length !== 3 && cleanHex.length !== 6) {
+  // Check for 3, 4, 6 or 8-digit hex
+  if (![3, 4, 6, 8].includes(cleanHex.length)) {
     return false;
   }
 
@@ -134,8 +357,8 @@ export function isValidHex(hex: string): boolean {
 }
 
 /**
- * Normalizes hex color code to 6-digit format
- * Converts #RGB to #RRGGBB and ensures # prefix
+ * Normalizes hex color code to 6-digit (or 8-digit with alpha) format
+ * Converts #RGB to #RRGGBB, #RGBA to #RRGGBBAA and ensures # prefix
  */
 export function normalizeHex(hex: string): string {
   if (!hex) {
@@ -144,8 +367,8 @@ export function normalizeHex(hex: string): string {
 
   let cleanHex = hex.replace("#", "").toUpperCase();
 
-  // Convert 3-digit to 6-digit format
-  if (cleanHex.length === 3) {
+  // Convert 3/4-digit to 6/8-digit format
+  if (cleanHex.length === 3 || cleanHex.length === 4) {
     cleanHex = cleanHex
       .split("")
       .map((char) => char + char)
@@ -157,7 +380,7 @@ export function normalizeHex(hex: string): string {
 
 /**
  * Converts hex color code to RGB values
- * Supports both #RRGGBB and #RGB formats
+ * Supports #RRGGBB, #RGB, #RRGGBBAA and #RGBA formats
  */
 export function hexToRgb(hex: string): RGB | null {
   if (!isValidHex(hex)) {
@@ -175,6 +398,13 @@ export function hexToRgb(hex: string): RGB | null {
     return null;
   }
 
+  if (cleanHex.length === 8) {
+    const a =
+      Math.round((parseInt(cleanHex.substring(6, 8), 16) / 255) * 1000) / 1000;
+    // Fully opaque colors omit alpha
+    return a < 1 ? { r, g, b, a } : { r, g, b };
+  }
+
   return { r, g, b };
 }
 
@@ -0,0 +1,39 @@
+import { parseColorValue } from "./colorParserUtils";
+
+describe("parseColorValue", () => {
+  it.each([
+    ["rgb(300 0 0)", { r: 255, g: 0, b: 0 }],
+    ["rgb(-10 0 0)", { r: 0, g: 0, b: 0 }],
+    ["rgb(120%, 50%, -5%)", { r: 255, g: 128, b: 0 }],
+    ["hsl(0 150% 50%)", { r: 255, g: 0, b: 0 }],
+    ["hsl(0 100% 120%)", { r: 255, g: 255, b: 255 }],
+    ["hwb(0 -20% 0%)", { r: 255, g: 0, b: 0 }],
+    ["hsv(0, 130%, 100%)", { r: 255, g: 0, b: 0 }],
+    ["cmyk(-10%, 120%, 100%, 0%)", { r: 255, g: 0, b: 0 }],
+  ])(
+    "clamps the sRGB syntax %s instead of widening its gamut",
+    (value, rgb) => {
+      expect(parseColorValue(value)).toEqual({ rgb });
+    },
+  );
+
+  it("keeps lab, lch, oklab and oklch colors outside sRGB as precise colors", () => {
+    [
+      "lab(50 120 0)",
+      "lch(50 150 0)",
+      "oklab(0.6 0.3 0)",
+      "oklch(0.7 0.35 150)",
+    ]
+      .map(parseColorValue)
+      .forEach(({ precise }) =>
+        expect(precise).toEqual({
+          space: expect.stringMatching(/^(display-p3|rec2020)$/),
+          coords: expect.any(Array),
+        }),
+      );
+  });
+
+  it("keeps in-gamut lab colors as plain sRGB", () => {
+    expect(parseColorValue("lab(50 10 10)").precise).toBeUndefined();
+  });
+});
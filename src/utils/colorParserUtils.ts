@@ -0,0 +1,750 @@
+import { PreciseColor, RGB } from "../types";
+import { CSS_NAMED_COLORS } from "../constants/cssNamedColors";
+import { ColorParseError } from "./errorUtils";
+import {
+  Vector3,
+  a98RgbToXyz,
+  displayP3ToXyz,
+  hslToSrgb,
+  hsvToSrgb,
+  hwbToSrgb,
+  labToXyzD50,
+  linearToSrgb,
+  oklabToXyz,
+  polarToRectangular,
+  prophotoRgbToXyzD50,
+  rec2020ToXyz,
+  xyzD50ToD65,
+  xyzD65ToSrgb,
+} from "./colorSpaceUtils";
+import {
+  gamutMapToSrgb,
+  isInGamut,
+  preciseColorToSrgb,
+  toPreciseColor,
+} from "./gamutUtils";
+
+/**
+ * CSS color string parser
+ * Understands every CSS Color Module Level 4 syntax: hex, named colors,
+ * rgb(), hsl(), hwb(), lab(), lch(), oklab(), oklch() and color(), plus the
+ * hsv() and cmyk() strings produced by the copy formats
+ * Channels of the sRGB syntaxes (rgb(), hsl(), hwb(), hsv(), cmyk()) are
+ * clamped to their ranges; lab(), lch(), oklab(), oklch() and color() colors
+ * outside sRGB keep a precise Display P3 or Rec. 2020 value and get a
+ * gamut-mapped sRGB fallback
+ */
+
+/**
+ * How a single channel is read: the percentage reference and allowed forms
+ */
+interface ChannelSpec {
+  label: string;
+  percentScale?: number; // Value that 100% maps to, percentages rejected if omitted
+  numberScale?: number; // Factor applied to plain numbers, defaults to 1
+  isHue?: boolean;
+  clamped?: boolean; // Clamp to 0 through percentScale instead of keeping the value
+}
+
+/**
+ * Parsed color before it is turned into 8-bit RGB
+ * `srgb` may lie outside 0-1 for wide-gamut colors
+ */
+interface ParsedColor {
+  srgb: Vector3;
+  alpha?: number;
+  precise?: PreciseColor; // Set when color() names an RGB space explicitly
+}
+
+/**
+ * Result of parsing a color string: the sRGB color and, for float-precision
+ * or wide-gamut input, the precise original
+ */
+export interface ParsedColorValue {
+  rgb: RGB;
+  precise?: PreciseColor;
+}
+
+/**
+ * Channels of a parsed function before conversion to sRGB
+ */
+interface ParsedFunction {
+  channels: Vector3;
+  alpha?: number;
+}
+
+const NUMBER_WITH_UNIT_PATTERN =
+  /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)([a-z%]*)$/;
+
+/**
+ * Hue units and how many degrees one unit spans
+ */
+const HUE_UNITS: Record<string, number> = {
+  "": 1,
+  deg: 1,
+  grad: 0.9,
+  rad: 180 / Math.PI,
+  turn: 360,
+};
+
+/**
+ * Looks up a key without falling through to Object.prototype members
+ */
+function lookup<T>(record: Record<string, T>, key: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(record, key)
+    ? record[key]
+    : undefined;
+}
+
+/**
+ * Converts a 0-1 channel to a 0-255 byte value
+ */
+function toByte(value: number): number {
+  return Math.max(0, Math.min(255, Math.round(value * 255)));
+}
+
+/**
+ * Builds an RGB value from 0-1 sRGB channels
+ * Alpha is rounded to three decimals and omitted when fully opaque
+ */
+function toRgb([r, g, b]: Vector3, alpha?: number): RGB {
+  const rgb: RGB = { r: toByte(r), g: toByte(g), b: toByte(b) };
+
+  if (alpha !== undefined) {
+    const a = Math.round(Math.max(0, Math.min(1, alpha)) * 1000) / 1000;
+    if (a < 1) {
+      rgb.a = a;
+    }
+  }
+
+  return rgb;
+}
+
+/**
+ * Parses hex digits (without "#") into RGB
+ */
+function parseHexDigits(digits: string, input: string): ParsedColor {
+  if (!/^[0-9a-f]*$/.test(digits)) {
+    throw new ColorParseError(
+      `"${input}" contains characters that are not hex digits`,
+      input,
+    );
+  }
+
+  if (![3, 4, 6, 8].includes(digits.length)) {
+    throw new ColorParseError(
+      `Hex colors need 3, 4, 6 or 8 digits, "${input}" has ${digits.length}`,
+      input,
+    );
+  }
+
+  const expanded =
+    digits.length <= 4
+      ? digits
+          .split("")
+          .map((char) => char + char)
+          .join("")
+      : digits;
+  const byte = (position: number) =>
+    parseInt(expanded.substring(position, position + 2), 16) / 255;
+
+  return {
+    srgb: [byte(0), byte(2), byte(4)],
+    alpha: expanded.length === 8 ? byte(6) : undefined,
+  };
+}
+
+/**
+ * Reads one channel token: a number, a percentage, a hue angle or "none"
+ */
+function parseChannel(
+  token: string,
+  spec: ChannelSpec,
+  functionName: string,
+  input: string,
+): number {
+  if (token === "none") {
+    return 0;
+  }
+
+  const match = NUMBER_WITH_UNIT_PATTERN.exec(token);
+  const invalid = (reason: string) =>
+    new ColorParseError(
+      `Invalid ${spec.label} "${token}" in ${functionName}(): ${reason}`,
+      input,
+    );
+
+  if (!match) {
+    throw invalid("not a number");
+  }
+
+  const value = parseFloat(match[1]);
+  const unit = match[2];
+
+  if (spec.isHue) {
+    const degreesPerUnit = lookup(HUE_UNITS, unit);
+    if (degreesPerUnit === undefined) {
+      throw invalid("use deg, rad, grad or turn");
+    }
+    return value * degreesPerUnit;
+  }
+
+  let scaled: number;
+  if (unit === "%") {
+    if (spec.percentScale === undefined) {
+      throw invalid("percentages are not allowed here");
+    }
+    scaled = (value / 100) * spec.percentScale;
+  } else if (unit) {
+    throw invalid(`unexpected unit "${unit}"`);
+  } else {
+    scaled = value * (spec.numberScale ?? 1);
+  }
+
+  return spec.clamped
+    ? Math.max(0, Math.min(spec.percentScale ?? 1, scaled))
+    : scaled;
+}
+
+/**
+ * Reads an alpha token: a number 0-1 or a percentage
+ */
+function parseAlpha(
+  token: string,
+  functionName: string,
+  input: string,
+): number {
+  return parseChannel(
+    token,
+    { label: "alpha", percentScale: 1 },
+    functionName,
+    input,
+  );
+}
+
+/**
+ * Splits function arguments into channel tokens and an optional alpha token
+ * Supports the modern "a b c / alpha" syntax and, where allowed, the legacy
+ * comma-separated syntax
+ */
+function splitArguments(
+  args: string,
+  functionName: string,
+  channelCount: number,
+  allowLegacy: boolean,
+  input: string,
+): { tokens: string[]; alpha?: string } {
+  if (args.includes(",")) {
+    if (!allowLegacy) {
+      throw new ColorParseError(
+        `${functionName}() does not accept commas, separate values with spaces`,
+        input,
+      );
+    }
+    if (args.includes("/")) {
+      throw new ColorParseError(
+        `Mixing commas and "/" is not allowed in ${functionName}()`,
+        input,
+      );
+    }
+
+    const tokens = args.split(",").map((token) => token.trim());
+    if (tokens.some((token) => token.length === 0)) {
+      throw new ColorParseError(
+        `Empty value between commas in ${functionName}()`,
+        input,
+      );
+    }
+    if (tokens.length !== channelCount && tokens.length !== channelCount + 1) {
+      throw new ColorParseError(
+        `${functionName}() expects ${channelCount} values plus optional alpha, got ${tokens.length}`,
+        input,
+      );
+    }
+
+    return {
+      tokens: tokens.slice(0, channelCount),
+      alpha: tokens[channelCount],
+    };
+  }
+
+  const parts = args.split("/");
+  if (parts.length > 2) {
+    throw new ColorParseError(
+      `Only one "/" is allowed in ${functionName}()`,
+      input,
+    );
+  }
+
+  const tokens = parts[0].trim().split(/\s+/).filter(Boolean);
+  if (tokens.length !== channelCount) {
+    throw new ColorParseError(
+      `${functionName}() expects ${channelCount} values, got ${tokens.length}`,
+      input,
+    );
+  }
+
+  const alpha = parts[1]?.trim();
+  if (parts.length === 2 && !alpha) {
+    throw new ColorParseError(
+      `Missing alpha after "/" in ${functionName}()`,
+      input,
+    );
+  }
+  if (alpha && /\s/.test(alpha)) {
+    throw new ColorParseError(
+      `Alpha in ${functionName}() must be a single value`,
+      input,
+    );
+  }
+
+  return { tokens, alpha };
+}
+
+/**
+ * Parses the arguments of a function with three channels and optional alpha
+ */
+function parseFunctionArguments(
+  args: string,
+  functionName: string,
+  specs: [ChannelSpec, ChannelSpec, ChannelSpec],
+  allowLegacy: boolean,
+  input: string,
+): ParsedFunction {
+  const { tokens, alpha } = splitArguments(
+    args,
+    functionName,
+    specs.length,
+    allowLegacy,
+    input,
+  );
+
+  return {
+    channels: tokens.map((token, i) =>
+      parseChannel(token, specs[i], functionName, input),
+    ) as Vector3,
+    alpha:
+      alpha !== undefined ? parseAlpha(alpha, functionName, input) : undefined,
+  };
+}
+
+// The sRGB syntaxes cannot describe wider colors, so their channels are clamped
+const RGB_CHANNEL = { percentScale: 255, clamped: true };
+const HUE_CHANNEL = { label: "hue", isHue: true };
+// Saturation, lightness, whiteness and blackness: 50% and 50 are the same
+const PERCENT_CHANNEL = { percentScale: 1, numberScale: 0.01, clamped: true };
+const LAB_LIGHTNESS = { label: "lightness", percentScale: 100 };
+const OKLAB_LIGHTNESS = { label: "lightness", percentScale: 1 };
+
+/**
+ * Predefined color spaces of color() and their conversion to sRGB
+ */
+const COLOR_SPACES: Record<string, (channels: Vector3) => Vector3> = {
+  srgb: (channels) => channels,
+  "srgb-linear": (channels) => linearToSrgb(channels),
+  "display-p3": (channels) => xyzD65ToSrgb(displayP3ToXyz(channels)),
+  "a98-rgb": (channels) => xyzD65ToSrgb(a98RgbToXyz(channels)),
+  "prophoto-rgb": (channels) =>
+    xyzD65ToSrgb(xyzD50ToD65(prophotoRgbToXyzD50(channels))),
+  rec2020: (channels) => xyzD65ToSrgb(rec2020ToXyz(channels)),
+  xyz: (channels) => xyzD65ToSrgb(channels),
+  "xyz-d65": (channels) => xyzD65ToSrgb(channels),
+  "xyz-d50": (channels) => xyzD65ToSrgb(xyzD50ToD65(channels)),
+};
+
+/**
+ * Checks whether 0-1 channels are (within rounding) exact 8-bit values
+ */
+function isByteExact(channels: Vector3): boolean {
+  return channels.every(
+    (value) =>
+      value >= 0 &&
+      value <= 1 &&
+      Math.abs(value * 255 - Math.round(value * 255)) < 0.05,
+  );
+}
+
+/**
+ * Parses color(<space> c1 c2 c3 [/ alpha])
+ */
+function parseColorFunction(args: string, input: string): ParsedColor {
+  const [space, ...rest] = args.trim().split(/\s+/);
+  const toSrgb = lookup(COLOR_SPACES, space);
+
+  if (!space || /^[\d.+-]/.test(space)) {
+    throw new ColorParseError(
+      "color() needs a color space first, e.g. color(display-p3 1 0 0)",
+      input,
+    );
+  }
+
+  if (!toSrgb) {
+    throw new ColorParseError(
+      `Unknown color space "${space}" in color(). Supported: ${Object.keys(COLOR_SPACES).join(", ")}`,
+      input,
+    );
+  }
+
+  const channel = { label: "channel", percentScale: 1 };
+  const { channels, alpha } = parseFunctionArguments(
+    rest.join(" "),
+    "color",
+    [channel, channel, channel],
+    false,
+    input,
+  );
+
+  // RGB spaces keep their float channels as entered, even outside 0-1; only
+  // the sRGB fallback is gamut mapped. 8-bit sRGB needs no precise copy
+  if (
+    space === "display-p3" ||
+    space === "rec2020" ||
+    (space === "srgb" && !isByteExact(channels))
+  ) {
+    const precise: PreciseColor = { space, coords: channels };
+    return { srgb: preciseColorToSrgb(precise), alpha, precise };
+  }
+
+  return { srgb: toSrgb(channels), alpha };
+}
+
+const CMYK_CHANNELS = ["cyan", "magenta", "yellow", "black"];
+
+/**
+ * Parses cmyk(c, m, y, k) and device-cmyk(c m y k [/ alpha])
+ * Channels are percentages or numbers from 0 to 1, clamped to that range;
+ * naive conversion to sRGB
+ */
+function parseCmykFunction(
+  args: string,
+  functionName: string,
+  input: string,
+): ParsedColor {
+  const { tokens, alpha } = splitArguments(
+    args,
+    functionName,
+    CMYK_CHANNELS.length,
+    true,
+    input,
+  );
+
+  const [c, m, y, k] = tokens.map((token, i) =>
+    parseChannel(
+      token,
+      { label: CMYK_CHANNELS[i], percentScale: 1, clamped: true },
+      functionName,
+      input,
+    ),
+  );
+
+  return {
+    srgb: [(1 - c) * (1 - k), (1 - m) * (1 - k), (1 - y) * (1 - k)],
+    alpha:
+      alpha !== undefined ? parseAlpha(alpha, functionName, input) : undefined,
+  };
+}
+
+/**
+ * Parses a CSS color function such as rgb(...) or oklch(...)
+ */
+function parseColorFunctionCall(
+  functionName: string,
+  args: string,
+  input: string,
+): ParsedColor {
+  if (/(^|\s)from(\s|$)/.test(args.trim())) {
+    throw new ColorParseError(
+      'Relative colors ("from") cannot be stored, use an absolute color',
+      input,
+    );
+  }
+
+  switch (functionName) {
+    case "rgb":
+    case "rgba": {
+      const { channels, alpha } = parseFunctionArguments(
+        args,
+        functionName,
+        [
+          { label: "red", ...RGB_CHANNEL },
+          { label: "green", ...RGB_CHANNEL },
+          { label: "blue", ...RGB_CHANNEL },
+        ],
+        true,
+        input,
+      );
+      return {
+        srgb: channels.map((value) => value / 255) as Vector3,
+        alpha,
+      };
+    }
+
+    case "hsl":
+    case "hsla": {
+      const { channels, alpha } = parseFunctionArguments(
+        args,
+        functionName,
+        [
+          HUE_CHANNEL,
+          { label: "saturation", ...PERCENT_CHANNEL },
+          { label: "lightness", ...PERCENT_CHANNEL },
+        ],
+        true,
+        input,
+      );
+      return { srgb: hslToSrgb(channels), alpha };
+    }
+
+    case "hsv":
+    case "hsva": {
+      const { channels, alpha } = parseFunctionArguments(
+        args,
+        functionName,
+        [
+          HUE_CHANNEL,
+          { label: "saturation", ...PERCENT_CHANNEL },
+          { label: "value", ...PERCENT_CHANNEL },
+        ],
+        true,
+        input,
+      );
+      return { srgb: hsvToSrgb(channels), alpha };
+    }
+
+    case "cmyk":
+    case "device-cmyk":
+      return parseCmykFunction(args, functionName, input);
+
+    case "hwb": {
+      const { channels, alpha } = parseFunctionArguments(
+        args,
+        functionName,
+        [
+          HUE_CHANNEL,
+          { label: "whiteness", ...PERCENT_CHANNEL },
+          { label: "blackness", ...PERCENT_CHANNEL },
+        ],
+        false,
+        input,
+      );
+      return { srgb: hwbToSrgb(channels), alpha };
+    }
+
+    case "lab": {
+      const { channels, alpha } = parseFunctionArguments(
+        args,
+        functionName,
+        [
+          LAB_LIGHTNESS,
+          { label: "a", percentScale: 125 },
+          { label: "b", percentScale: 125 },
+        ],
+        false,
+        input,
+      );
+      return { srgb: xyzD65ToSrgb(xyzD50ToD65(labToXyzD50(channels))), alpha };
+    }
+
+    case "lch": {
+      const { channels, alpha } = parseFunctionArguments(
+        args,
+        functionName,
+        [LAB_LIGHTNESS, { label: "chroma", percentScale: 150 }, HUE_CHANNEL],
+        false,
+        input,
+      );
+      return {
+        srgb: xyzD65ToSrgb(
+          xyzD50ToD65(labToXyzD50(polarToRectangular(channels))),
+        ),
+        alpha,
+      };
+    }
+
+    case "oklab": {
+      const { channels, alpha } = parseFunctionArguments(
+        args,
+        functionName,
+        [
+          OKLAB_LIGHTNESS,
+          { label: "a", percentScale: 0.4 },
+          { label: "b", percentScale: 0.4 },
+        ],
+        false,
+        input,
+      );
+      return { srgb: xyzD65ToSrgb(oklabToXyz(channels)), alpha };
+    }
+
+    case "oklch": {
+      const { channels, alpha } = parseFunctionArguments(
+        args,
+        functionName,
+        [OKLAB_LIGHTNESS, { label: "chroma", percentScale: 0.4 }, HUE_CHANNEL],
+        false,
+        input,
+      );
+      return {
+        srgb: xyzD65ToSrgb(oklabToXyz(polarToRectangular(channels))),
+        alpha,
+      };
+    }
+
+    case "color":
+      return parseColorFunction(args, input);
+
+    default:
+      throw new ColorParseError(
+        `Unsupported color function "${functionName}()"`,
+        input,
+      );
+  }
+}
+
+/**
+ * Parses any supported color string without converting it to 8-bit RGB
+ */
+function parseColorString(value: string): ParsedColor {
+  const input = typeof value === "string" ? value.trim() : "";
+  const normalized = input.toLowerCase();
+
+  if (!normalized) {
+    throw new ColorParseError("Color value is empty", input);
+  }
+
+  if (normalized.startsWith("#")) {
+    return parseHexDigits(normalized.slice(1), input);
+  }
+
+  const functionMatch = /^([a-z][a-z0-9-]*)\s*\(([\s\S]*)$/.exec(normalized);
+  if (functionMatch) {
+    const [, functionName, rest] = functionMatch;
+
+    if (!rest.endsWith(")")) {
+      throw new ColorParseError(
+        `Missing closing parenthesis in ${functionName}()`,
+        input,
+      );
+    }
+
+    if (/\b(var|calc|env)\(/.test(normalized)) {
+      throw new ColorParseError(
+        "CSS functions like var() or calc() cannot be resolved here",
+        input,
+      );
+    }
+
+    const args = rest.slice(0, -1);
+    if (/[()]/.test(args)) {
+      throw new ColorParseError(
+        `Unexpected parenthesis in ${functionName}()`,
+        input,
+      );
+    }
+
+    return parseColorFunctionCall(functionName, args, input);
+  }
+
+  if (normalized === "transparent") {
+    return { srgb: [0, 0, 0], alpha: 0 };
+  }
+
+  if (normalized === "currentcolor") {
+    throw new ColorParseError(
+      '"currentColor" depends on where it is used and cannot be stored',
+      input,
+    );
+  }
+
+  const namedHex = lookup(CSS_NAMED_COLORS, normalized);
+  if (namedHex) {
+    return parseHexDigits(namedHex.slice(1), input);
+  }
+
+  // Bare hex digits without "#"
+  if (/^[0-9a-f]+$/.test(normalized)) {
+    return parseHexDigits(normalized, input);
+  }
+
+  throw new ColorParseError(
+    `"${input}" is not a color. Use hex, a CSS color name or a function like rgb(), hsl() or oklch()`,
+    input,
+  );
+}
+
+/**
+ * Parses any CSS color string into sRGB plus, where it matters, the precise
+ * original: explicit color(display-p3 | rec2020 ...) values, non 8-bit
+ * color(srgb ...) values and lab(), lch(), oklab() or oklch() colors outside
+ * sRGB; the sRGB syntaxes are clamped while parsing and never get one
+ * Throws ColorParseError describing the problem
+ */
+export function parseColorValue(value: string): ParsedColorValue {
+  const parsed = parseColorString(value);
+  const precise =
+    parsed.precise ??
+    (isInGamut(parsed.srgb, "srgb") ? undefined : toPreciseColor(parsed.srgb));
+
+  if (!precise) {
+    return { rgb: toRgb(parsed.srgb, parsed.alpha) };
+  }
+
+  return {
+    rgb: toRgb(gamutMapToSrgb(preciseColorToSrgb(precise)), parsed.alpha),
+    precise,
+  };
+}
+
+/**
+ * Parses any CSS color string into RGB
+ * Accepts hex (with or without "#"), named colors, "transparent" and every
+ * CSS Color Level 4 function; throws ColorParseError describing the problem
+ * Wide-gamut colors are gamut-mapped into sRGB
+ */
+export function parseColor(value: string): RGB {
+  return parseColorValue(value).rgb;
+}
+
+/**
+ * Parses a CSS color string, returning null instead of throwing
+ */
+export function tryParseColor(value: string): RGB | null {
+  try {
+    return parseColor(value);
+  } catch (error) {
+    if (error instanceof ColorParseError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parses a CSS color string with its precise original, returning null
+ * instead of throwing
+ */
+export function tryParseColorValue(value: string): ParsedColorValue | null {
+  try {
+    return parseColorValue(value);
+  } catch (error) {
+    if (error instanceof ColorParseError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Describes why a CSS color string cannot be parsed, or undefined if it can
+ */
+export function getColorParseError(value: string): string | undefined {
+  try {
+    parseColor(value);
+    return undefined;
+  } catch (error) {
+    if (error instanceof ColorParseError) {
+      return error.message;
+    }
+    throw error;
+  }
+}
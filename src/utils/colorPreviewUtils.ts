@@ -1,15 +1,41 @@
 import { Color } from "@raycast/api";
+import { RGB } from "../types";
+import { formatAsHex } from "./colorFormatUtils";
 
 /**
  * Convert RGB values to Raycast Color format
+ * Alpha (0-1) is included as "#RRGGBBAA" when the color is translucent
  */
-export function rgbToRaycastColor(r: number, g: number, b: number): Color {
-  const toHex = (value: number) => {
-    const hex = Math.max(0, Math.min(255, Math.round(value))).toString(16);
-    return hex.length === 1 ? "0" + hex : hex;
-  };
+export function rgbToRaycastColor(
+  r: number,
+  g: number,
+  b: number,
+  a?: number,
+): Color {
+  return formatAsHex({ r, g, b, a }) as Color;
+}
+
+/**
+ * Parses an alpha percentage input ("50" or "50%") into 0-1
+ * Empty or invalid input means fully opaque
+ */
+export function parseAlphaPercent(
+  value: string | undefined,
+): number | undefined {
+  const alpha = Number((value ?? "").trim().replace(/%$/, ""));
 
-  return `#${toHex(r)}${toHex(g)}${toHex(b)}` as Color;
+  if (!value?.trim() || isNaN(alpha) || alpha < 0 || alpha >= 100) {
+    return undefined;
+  }
+
+  return alpha / 100;
+}
+
+/**
+ * Formats alpha (0-1) as a percentage input value
+ */
+export function formatAlphaPercent(alpha: number | undefined): string {
+  return alpha === undefined ? "100" : String(Math.round(alpha * 1000) / 10);
 }
 
 /**
@@ -33,8 +59,8 @@ export function isValidRgb(r: number, g: number, b: number): boolean {
  * Get current color for preview with fallback
  */
 export function getCurrentPreviewColor(
-  rgbValues: { r: string; g: string; b: string },
-  fallbackRgb?: { r: number; g: number; b: number },
+  rgbValues: { r: string; g: string; b: string; a?: string },
+  fallbackRgb?: RGB,
 ): Color {
   const r = parseInt(rgbValues.r, 10);
   const g = parseInt(rgbValues.g, 10);
@@ -42,11 +68,16 @@ export function getCurrentPreviewColor(
 
   // Use valid RGB values or fallback
   if (isValidRgb(r, g, b)) {
-    return rgbToRaycastColor(r, g, b);
+    return rgbToRaycastColor(r, g, b, parseAlphaPercent(rgbValues.a));
   }
 
   if (fallbackRgb) {
-    return rgbToRaycastColor(fallbackRgb.r, fallbackRgb.g, fallbackRgb.b);
+    return rgbToRaycastColor(
+      fallbackRgb.r,
+      fallbackRgb.g,
+      fallbackRgb.b,
+      fallbackRgb.a,
+    );
   }
 
   return "#808080" as Color; // Default gray color
@@ -0,0 +1,504 @@
+/**
+ * Color space conversion utilities
+ * Matrices and transfer functions follow the CSS Color Module Level 4 sample
+ * code; channel values are unit floats (0-1) unless noted otherwise
+ */
+
+/**
+ * Three color channels, e.g. linear RGB, XYZ or Lab
+ */
+export type Vector3 = [number, number, number];
+
+type Matrix3 = [Vector3, Vector3, Vector3];
+
+/**
+ * Color spaces the conversion helpers can go to and from sRGB
+ * Channel ranges: RGB spaces, HSL/HSV/HWB saturation, value, whiteness and
+ * blackness are 0-1; Lab/LCH lightness is 0-100; OKLab/OKLCH lightness is
+ * 0-1; hues are in degrees
+ */
+export type ColorSpace =
+  | "srgb"
+  | "srgb-linear"
+  | "display-p3"
+  | "rec2020"
+  | "xyz-d65"
+  | "xyz-d50"
+  | "lab"
+  | "lch"
+  | "oklab"
+  | "oklch"
+  | "hsl"
+  | "hsv"
+  | "hwb";
+
+/**
+ * D50 reference white as XYZ
+ */
+const D50_WHITE: Vector3 = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+
+const LAB_EPSILON = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+
+const D50_TO_D65: Matrix3 = [
+  [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+  [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+  [0.012314014864481998, -0.020507649298898964, 1.330365926242124],
+];
+
+const D65_TO_D50: Matrix3 = [
+  [1.0479298208405488, 0.022946793341019088, -0.05019222954313557],
+  [0.029627815688159344, 0.990434484573249, -0.01707382502938514],
+  [-0.009243058152591178, 0.015055144896577895, 0.7518742899580008],
+];
+
+const LINEAR_SRGB_TO_XYZ: Matrix3 = [
+  [506752 / 1228815, 87881 / 245763, 12673 / 70218],
+  [87098 / 409605, 175762 / 245763, 12673 / 175545],
+  [7918 / 409605, 87881 / 737289, 1001167 / 1053270],
+];
+
+const XYZ_TO_LINEAR_SRGB: Matrix3 = [
+  [12831 / 3959, -329 / 214, -1974 / 3959],
+  [-851781 / 878810, 1648619 / 878810, 36519 / 878810],
+  [705 / 12673, -2585 / 12673, 705 / 667],
+];
+
+const LINEAR_DISPLAY_P3_TO_XYZ: Matrix3 = [
+  [608311 / 1250200, 189793 / 714400, 198249 / 1000160],
+  [35783 / 156275, 247089 / 357200, 198249 / 2500400],
+  [0, 32229 / 714400, 5220557 / 5000800],
+];
+
+const XYZ_TO_LINEAR_DISPLAY_P3: Matrix3 = [
+  [446124 / 178915, -333277 / 357830, -72051 / 178915],
+  [-14852 / 17905, 63121 / 35810, 423 / 17905],
+  [11844 / 330415, -50337 / 660830, 316169 / 330415],
+];
+
+const LINEAR_A98_RGB_TO_XYZ: Matrix3 = [
+  [573536 / 994567, 263643 / 1420810, 187206 / 994567],
+  [591459 / 1989134, 6239551 / 9945670, 374412 / 4972835],
+  [53769 / 1989134, 351524 / 4972835, 4929758 / 4972835],
+];
+
+const LINEAR_PROPHOTO_RGB_TO_XYZ_D50: Matrix3 = [
+  [0.7977666449006423, 0.13518129740053308, 0.0313477341283922],
+  [0.2880748288194013, 0.711835234241873, 0.00008993693872564],
+  [0, 0, 0.8251046025104602],
+];
+
+const LINEAR_REC2020_TO_XYZ: Matrix3 = [
+  [63426534 / 99577255, 20160776 / 139408157, 47086771 / 278816314],
+  [26158966 / 99577255, 472592308 / 697040785, 8267143 / 139408157],
+  [0, 19567812 / 697040785, 295819943 / 278816314],
+];
+
+const XYZ_TO_LINEAR_REC2020: Matrix3 = [
+  [30757411 / 17917100, -6372589 / 17917100, -4539589 / 17917100],
+  [-0.666684351832489, 1.616481236634939, 467509 / 29648200],
+  [792561 / 44930125, -1921689 / 44930125, 0.942103121235474],
+];
+
+const OKLAB_TO_LMS: Matrix3 = [
+  [1, 0.3963377773761749, 0.2158037573099136],
+  [1, -0.1055613458156586, -0.0638541728258133],
+  [1, -0.0894841775298119, -1.2914855480194092],
+];
+
+const XYZ_TO_LMS: Matrix3 = [
+  [0.819022437996703, 0.3619062600528904, -0.1288737815209879],
+  [0.0329836539323885, 0.9292868615863434, 0.0361446663506424],
+  [0.0481771893596242, 0.2642395317527308, 0.6335478284694309],
+];
+
+const LMS_TO_OKLAB: Matrix3 = [
+  [0.210454268309314, 0.7936177747023054, -0.0040720430116193],
+  [1.9779985324311684, -2.4285922420485799, 0.450593709617411],
+  [0.0259040424655478, 0.7827717124575296, -0.8086757549230774],
+];
+
+const LMS_TO_XYZ: Matrix3 = [
+  [1.2268798758459243, -0.5578149944602171, 0.2813910456659647],
+  [-0.0405757452148008, 1.112286803280317, -0.0717110580655164],
+  [-0.0763729366746601, -0.4214933324022432, 1.5869240198367816],
+];
+
+const REC2020_ALPHA = 1.09929682680944;
+const REC2020_BETA = 0.018053968510807;
+
+/**
+ * Multiplies a 3x3 matrix with a vector
+ */
+function multiply(matrix: Matrix3, vector: Vector3): Vector3 {
+  return matrix.map(
+    (row) => row[0] * vector[0] + row[1] * vector[1] + row[2] * vector[2],
+  ) as Vector3;
+}
+
+/**
+ * Applies a transfer function to every channel, preserving the sign so that
+ * out-of-range values stay meaningful
+ */
+function mapChannels(
+  values: Vector3,
+  transfer: (value: number) => number,
+): Vector3 {
+  return values.map(
+    (value) => Math.sign(value) * transfer(Math.abs(value)),
+  ) as Vector3;
+}
+
+/**
+ * Converts a hue in degrees to the 0-360 range
+ */
+export function normalizeHue(hue: number): number {
+  return ((hue % 360) + 360) % 360;
+}
+
+/**
+ * Converts gamma-encoded sRGB (or Display P3) channels to linear light
+ */
+export function srgbToLinear(rgb: Vector3): Vector3 {
+  return mapChannels(rgb, (value) =>
+    value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4),
+  );
+}
+
+/**
+ * Converts linear-light sRGB (or Display P3) channels to gamma-encoded values
+ */
+export function linearToSrgb(rgb: Vector3): Vector3 {
+  return mapChannels(rgb, (value) =>
+    value <= 0.0031308
+      ? value * 12.92
+      : 1.055 * Math.pow(value, 1 / 2.4) - 0.055,
+  );
+}
+
+/**
+ * Converts XYZ relative to D65 to gamma-encoded sRGB
+ */
+export function xyzD65ToSrgb(xyz: Vector3): Vector3 {
+  return linearToSrgb(multiply(XYZ_TO_LINEAR_SRGB, xyz));
+}
+
+/**
+ * Converts gamma-encoded sRGB to XYZ relative to D65
+ */
+export function srgbToXyzD65(rgb: Vector3): Vector3 {
+  return multiply(LINEAR_SRGB_TO_XYZ, srgbToLinear(rgb));
+}
+
+/**
+ * Adapts XYZ from the D65 to the D50 white point (Bradford)
+ */
+export function xyzD65ToD50(xyz: Vector3): Vector3 {
+  return multiply(D65_TO_D50, xyz);
+}
+
+/**
+ * Adapts XYZ from the D50 to the D65 white point (Bradford)
+ */
+export function xyzD50ToD65(xyz: Vector3): Vector3 {
+  return multiply(D50_TO_D65, xyz);
+}
+
+/**
+ * Converts gamma-encoded Display P3 to XYZ relative to D65
+ */
+export function displayP3ToXyz(rgb: Vector3): Vector3 {
+  return multiply(LINEAR_DISPLAY_P3_TO_XYZ, srgbToLinear(rgb));
+}
+
+/**
+ * Converts XYZ relative to D65 to gamma-encoded Display P3
+ */
+export function xyzToDisplayP3(xyz: Vector3): Vector3 {
+  return linearToSrgb(multiply(XYZ_TO_LINEAR_DISPLAY_P3, xyz));
+}
+
+/**
+ * Converts gamma-encoded Adobe RGB (1998) to XYZ relative to D65
+ */
+export function a98RgbToXyz(rgb: Vector3): Vector3 {
+  return multiply(
+    LINEAR_A98_RGB_TO_XYZ,
+    mapChannels(rgb, (value) => Math.pow(value, 563 / 256)),
+  );
+}
+
+/**
+ * Converts gamma-encoded ProPhoto RGB to XYZ relative to D50
+ */
+export function prophotoRgbToXyzD50(rgb: Vector3): Vector3 {
+  return multiply(
+    LINEAR_PROPHOTO_RGB_TO_XYZ_D50,
+    mapChannels(rgb, (value) =>
+      value <= 16 / 512 ? value / 16 : Math.pow(value, 1.8),
+    ),
+  );
+}
+
+/**
+ * Converts gamma-encoded Rec. 2020 to XYZ relative to D65
+ */
+export function rec2020ToXyz(rgb: Vector3): Vector3 {
+  return multiply(
+    LINEAR_REC2020_TO_XYZ,
+    mapChannels(rgb, (value) =>
+      value < REC2020_BETA * 4.5
+        ? value / 4.5
+        : Math.pow((value + REC2020_ALPHA - 1) / REC2020_ALPHA, 1 / 0.45),
+    ),
+  );
+}
+
+/**
+ * Converts XYZ relative to D65 to gamma-encoded Rec. 2020
+ */
+export function xyzToRec2020(xyz: Vector3): Vector3 {
+  return mapChannels(multiply(XYZ_TO_LINEAR_REC2020, xyz), (value) =>
+    value < REC2020_BETA
+      ? value * 4.5
+      : REC2020_ALPHA * Math.pow(value, 0.45) - (REC2020_ALPHA - 1),
+  );
+}
+
+/**
+ * Converts CIE Lab (D50, L in 0-100) to XYZ relative to D50
+ */
+export function labToXyzD50([l, a, b]: Vector3): Vector3 {
+  const fy = (l + 16) / 116;
+  const fx = a / 500 + fy;
+  const fz = fy - b / 200;
+
+  const x =
+    Math.pow(fx, 3) > LAB_EPSILON
+      ? Math.pow(fx, 3)
+      : (116 * fx - 16) / LAB_KAPPA;
+  const y = l > LAB_KAPPA * LAB_EPSILON ? Math.pow(fy, 3) : l / LAB_KAPPA;
+  const z =
+    Math.pow(fz, 3) > LAB_EPSILON
+      ? Math.pow(fz, 3)
+      : (116 * fz - 16) / LAB_KAPPA;
+
+  return [x * D50_WHITE[0], y * D50_WHITE[1], z * D50_WHITE[2]];
+}
+
+/**
+ * Converts XYZ relative to D50 to CIE Lab (L in 0-100)
+ */
+export function xyzD50ToLab(xyz: Vector3): Vector3 {
+  const [fx, fy, fz] = xyz.map((value, i) => {
+    const scaled = value / D50_WHITE[i];
+    return scaled > LAB_EPSILON
+      ? Math.cbrt(scaled)
+      : (LAB_KAPPA * scaled + 16) / 116;
+  });
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+/**
+ * Converts polar LCH (lightness, chroma, hue in degrees) to rectangular form
+ * Works for both CIE LCH -> Lab and OKLCH -> OKLab
+ */
+export function polarToRectangular([l, c, h]: Vector3): Vector3 {
+  const radians = (h * Math.PI) / 180;
+  return [l, c * Math.cos(radians), c * Math.sin(radians)];
+}
+
+/**
+ * Converts rectangular Lab or OKLab to polar form (hue in degrees, 0-360)
+ * Achromatic colors get a hue of 0; the threshold also absorbs the rounding
+ * noise that sRGB grays pick up in Lab
+ */
+export function rectangularToPolar([l, a, b]: Vector3): Vector3 {
+  const chroma = Math.sqrt(a * a + b * b);
+  const hue =
+    chroma < 1e-4 ? 0 : normalizeHue((Math.atan2(b, a) * 180) / Math.PI);
+  return [l, chroma, hue];
+}
+
+/**
+ * Converts XYZ relative to D65 to OKLab (L in 0-1)
+ */
+export function xyzToOklab(xyz: Vector3): Vector3 {
+  const lms = multiply(XYZ_TO_LMS, xyz).map(Math.cbrt) as Vector3;
+  return multiply(LMS_TO_OKLAB, lms);
+}
+
+/**
+ * Converts OKLab (L in 0-1) to XYZ relative to D65
+ */
+export function oklabToXyz(lab: Vector3): Vector3 {
+  const lms = multiply(OKLAB_TO_LMS, lab).map((value) =>
+    Math.pow(value, 3),
+  ) as Vector3;
+  return multiply(LMS_TO_XYZ, lms);
+}
+
+/**
+ * Converts HSL (hue in degrees, saturation and lightness 0-1) to sRGB
+ */
+export function hslToSrgb([h, s, l]: Vector3): Vector3 {
+  const hue = normalizeHue(h);
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const a = s * Math.min(l, 1 - l);
+    return l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+  };
+
+  return [channel(0), channel(8), channel(4)];
+}
+
+/**
+ * Converts HWB (hue in degrees, whiteness and blackness 0-1) to sRGB
+ */
+export function hwbToSrgb([h, w, b]: Vector3): Vector3 {
+  // Whiteness and blackness adding up to 100% or more give a gray
+  if (w + b >= 1) {
+    const gray = w / (w + b);
+    return [gray, gray, gray];
+  }
+
+  return hslToSrgb([h, 1, 0.5]).map(
+    (value) => value * (1 - w - b) + w,
+  ) as Vector3;
+}
+
+/**
+ * Converts sRGB to HSL (hue in degrees, saturation and lightness 0-1)
+ */
+export function srgbToHsl([r, g, b]: Vector3): Vector3 {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const diff = max - min;
+  const l = (max + min) / 2;
+  const s = diff === 0 ? 0 : diff / (1 - Math.abs(2 * l - 1));
+
+  return [srgbHue([r, g, b], max, diff), s, l];
+}
+
+/**
+ * Converts sRGB to HSV (hue in degrees, saturation and value 0-1)
+ */
+export function srgbToHsv([r, g, b]: Vector3): Vector3 {
+  const max = Math.max(r, g, b);
+  const diff = max - Math.min(r, g, b);
+
+  return [srgbHue([r, g, b], max, diff), max === 0 ? 0 : diff / max, max];
+}
+
+/**
+ * Converts HSV (hue in degrees, saturation and value 0-1) to sRGB
+ */
+export function hsvToSrgb([h, s, v]: Vector3): Vector3 {
+  const hue = normalizeHue(h);
+  const channel = (n: number) => {
+    const k = (n + hue / 60) % 6;
+    return v - v * s * Math.max(0, Math.min(k, 4 - k, 1));
+  };
+
+  return [channel(5), channel(3), channel(1)];
+}
+
+/**
+ * Converts sRGB to HWB (hue in degrees, whiteness and blackness 0-1)
+ */
+export function srgbToHwb([r, g, b]: Vector3): Vector3 {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+
+  return [srgbHue([r, g, b], max, max - min), min, 1 - max];
+}
+
+/**
+ * Hue shared by HSL, HSV and HWB; 0 for grays
+ */
+function srgbHue([r, g, b]: Vector3, max: number, diff: number): number {
+  if (diff === 0) {
+    return 0;
+  }
+
+  let hue: number;
+  if (max === r) {
+    hue = (g - b) / diff + (g < b ? 6 : 0);
+  } else if (max === g) {
+    hue = (b - r) / diff + 2;
+  } else {
+    hue = (r - g) / diff + 4;
+  }
+
+  return hue * 60;
+}
+
+/**
+ * Converts gamma-encoded sRGB channels (0-1) into the given color space
+ */
+export function convertFromSrgb(space: ColorSpace, rgb: Vector3): Vector3 {
+  switch (space) {
+    case "srgb":
+      return rgb;
+    case "srgb-linear":
+      return srgbToLinear(rgb);
+    case "display-p3":
+      return xyzToDisplayP3(srgbToXyzD65(rgb));
+    case "rec2020":
+      return xyzToRec2020(srgbToXyzD65(rgb));
+    case "xyz-d65":
+      return srgbToXyzD65(rgb);
+    case "xyz-d50":
+      return xyzD65ToD50(srgbToXyzD65(rgb));
+    case "lab":
+      return xyzD50ToLab(xyzD65ToD50(srgbToXyzD65(rgb)));
+    case "lch":
+      return rectangularToPolar(convertFromSrgb("lab", rgb));
+    case "oklab":
+      return xyzToOklab(srgbToXyzD65(rgb));
+    case "oklch":
+      return rectangularToPolar(convertFromSrgb("oklab", rgb));
+    case "hsl":
+      return srgbToHsl(rgb);
+    case "hsv":
+      return srgbToHsv(rgb);
+    case "hwb":
+      return srgbToHwb(rgb);
+  }
+}
+
+/**
+ * Converts channels of the given color space to gamma-encoded sRGB (0-1)
+ * Out-of-gamut results are returned unclipped
+ */
+export function convertToSrgb(space: ColorSpace, values: Vector3): Vector3 {
+  switch (space) {
+    case "srgb":
+      return values;
+    case "srgb-linear":
+      return linearToSrgb(values);
+    case "display-p3":
+      return xyzD65ToSrgb(displayP3ToXyz(values));
+    case "rec2020":
+      return xyzD65ToSrgb(rec2020ToXyz(values));
+    case "xyz-d65":
+      return xyzD65ToSrgb(values);
+    case "xyz-d50":
+      return xyzD65ToSrgb(xyzD50ToD65(values));
+    case "lab":
+      return xyzD65ToSrgb(xyzD50ToD65(labToXyzD50(values)));
+    case "lch":
+      return convertToSrgb("lab", polarToRectangular(values));
+    case "oklab":
+      return xyzD65ToSrgb(oklabToXyz(values));
+    case "oklch":
+      return convertToSrgb("oklab", polarToRectangular(values));
+    case "hsl":
+      return hslToSrgb(values);
+    case "hsv":
+      return hsvToSrgb(values);
+    case "hwb":
+      return hwbToSrgb(values);
+  }
+}
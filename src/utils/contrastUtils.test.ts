@@ -0,0 +1,60 @@
+import { RGB } from "../types";
+import {
+  formatContrastRatio,
+  getApcaContrast,
+  getContrastRatio,
+  getWcagLevel,
+} from "./contrastUtils";
+
+const hex = (value: string): RGB => {
+  const digits =
+    value.length === 4 ? value.replace(/\w/g, (char) => char + char) : value;
+  return {
+    r: parseInt(digits.slice(1, 3), 16),
+    g: parseInt(digits.slice(3, 5), 16),
+    b: parseInt(digits.slice(5, 7), 16),
+  };
+};
+
+describe("WCAG 2.1 contrast ratio", () => {
+  // Ratios as shown by the WebAIM contrast checker
+  it.each([
+    ["#000000", "#ffffff", "21:1", "AAA"],
+    ["#767676", "#ffffff", "4.54:1", "AA"],
+    ["#777777", "#ffffff", "4.47:1", "AA Large"],
+    ["#595959", "#ffffff", "7:1", "AAA"],
+    ["#0000ff", "#ffffff", "8.59:1", "AAA"],
+    ["#ff0000", "#ffffff", "3.99:1", "AA Large"],
+    ["#ffffff", "#ffffff", "1:1", "Fail"],
+  ])("%s on %s is %s", (foreground, background, formatted, level) => {
+    const ratio = getContrastRatio(hex(foreground), hex(background));
+
+    expect(formatContrastRatio(ratio)).toBe(formatted);
+    expect(getWcagLevel(ratio)).toBe(level);
+    expect(getContrastRatio(hex(background), hex(foreground))).toBe(ratio);
+  });
+
+  it("composites translucent text over its background", () => {
+    expect(
+      getContrastRatio({ r: 0, g: 0, b: 0, a: 0.5 }, hex("#ffffff")),
+    ).toBeCloseTo(getContrastRatio(hex("#808080"), hex("#ffffff")), 1);
+  });
+});
+
+describe("APCA lightness contrast", () => {
+  // Reference values published with the APCA 0.0.98G-4g implementation
+  it.each([
+    ["#888", "#fff", 63.056469930209424],
+    ["#fff", "#888", -68.54146436644962],
+    ["#000", "#aaa", 58.146262578561334],
+    ["#aaa", "#000", -56.24113336839742],
+    ["#123", "#def", 91.66830811481631],
+    ["#def", "#123", -93.06770049484275],
+  ])("text %s on %s is Lc %d", (text, background, lc) => {
+    expect(getApcaContrast(hex(text), hex(background))).toBeCloseTo(lc, 6);
+  });
+
+  it("reports no contrast for nearly equal colors", () => {
+    expect(getApcaContrast(hex("#777777"), hex("#787878"))).toBe(0);
+  });
+});
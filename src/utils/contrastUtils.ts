@@ -0,0 +1,249 @@
+import { RGB } from "../types";
+import { srgbToLinear } from "./colorSpaceUtils";
+
+/**
+ * Contrast calculations: WCAG 2.1 contrast ratio and APCA lightness contrast
+ * Translucent colors are composited over their background first
+ */
+
+/**
+ * WCAG 2.1 minimum contrast ratios (success criteria 1.4.3 and 1.4.6)
+ * Large text is at least 18pt, or 14pt bold
+ */
+export const WCAG_THRESHOLDS = {
+  AA_NORMAL: 4.5,
+  AA_LARGE: 3,
+  AAA_NORMAL: 7,
+  AAA_LARGE: 4.5,
+} as const;
+
+/**
+ * APCA 0.0.98G-4g constants (sRGB)
+ */
+const APCA = {
+  MAIN_TRC: 2.4,
+  COEFFICIENTS: [0.2126729, 0.7151522, 0.072175],
+  NORM_BG: 0.56,
+  NORM_TXT: 0.57,
+  REV_TXT: 0.62,
+  REV_BG: 0.65,
+  BLACK_THRESHOLD: 0.022,
+  BLACK_CLAMP: 1.414,
+  SCALE: 1.14,
+  LOW_OFFSET: 0.027,
+  LOW_CLIP: 0.1,
+  DELTA_Y_MIN: 0.0005,
+} as const;
+
+/**
+ * APCA readability levels by absolute Lc value, from the APCA bronze guidance
+ */
+const APCA_LEVELS: { minLc: number; usage: string }[] = [
+  { minLc: 90, usage: "Preferred for body text" },
+  { minLc: 75, usage: "Body text" },
+  { minLc: 60, usage: "Content text (16px and up)" },
+  { minLc: 45, usage: "Large text and headlines" },
+  { minLc: 30, usage: "Spot text, placeholders and non-text elements" },
+  { minLc: 15, usage: "Minimum for non-text elements" },
+];
+
+/**
+ * WCAG 2.1 pass/fail results for one color pair
+ */
+export interface WcagCompliance {
+  aaNormal: boolean;
+  aaLarge: boolean;
+  aaaNormal: boolean;
+  aaaLarge: boolean;
+}
+
+/**
+ * Contrast of a foreground (text) color on a background color
+ */
+export interface ContrastResult {
+  ratio: number; // WCAG contrast ratio, 1 to 21
+  wcag: WcagCompliance;
+  apcaLc: number; // APCA Lc, positive for dark text on light backgrounds
+  apcaUsage: string; // What the APCA value is sufficient for
+}
+
+/**
+ * Composites a translucent color over an opaque background
+ * A translucent background is first composited over white
+ */
+export function compositeOver(foreground: RGB, background: RGB): RGB {
+  const base: RGB =
+    background.a !== undefined && background.a < 1
+      ? compositeOver(background, { r: 255, g: 255, b: 255 })
+      : { r: background.r, g: background.g, b: background.b };
+  const alpha = foreground.a ?? 1;
+
+  return {
+    r: foreground.r * alpha + base.r * (1 - alpha),
+    g: foreground.g * alpha + base.g * (1 - alpha),
+    b: foreground.b * alpha + base.b * (1 - alpha),
+  };
+}
+
+/**
+ * WCAG relative luminance of an opaque color (0 for black, 1 for white)
+ */
+export function getRelativeLuminance(rgb: RGB): number {
+  const [r, g, b] = srgbToLinear([rgb.r / 255, rgb.g / 255, rgb.b / 255]);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * WCAG 2.1 contrast ratio between two colors, from 1 to 21
+ * The ratio is symmetric; the foreground is composited over the background
+ */
+export function getContrastRatio(foreground: RGB, background: RGB): number {
+  const opaqueBackground = compositeOver(background, {
+    r: 255,
+    g: 255,
+    b: 255,
+  });
+  const first = getRelativeLuminance(
+    compositeOver(foreground, opaqueBackground),
+  );
+  const second = getRelativeLuminance(opaqueBackground);
+
+  const lighter = Math.max(first, second);
+  const darker = Math.min(first, second);
+
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+/**
+ * Checks a contrast ratio against the WCAG 2.1 AA and AAA thresholds
+ */
+export function getWcagCompliance(ratio: number): WcagCompliance {
+  return {
+    aaNormal: ratio >= WCAG_THRESHOLDS.AA_NORMAL,
+    aaLarge: ratio >= WCAG_THRESHOLDS.AA_LARGE,
+    aaaNormal: ratio >= WCAG_THRESHOLDS.AAA_NORMAL,
+    aaaLarge: ratio >= WCAG_THRESHOLDS.AAA_LARGE,
+  };
+}
+
+/**
+ * Highest WCAG 2.1 level a color pair reaches, "AA Large" passes for large text only
+ */
+export type WcagLevel = "AAA" | "AA" | "AA Large" | "Fail";
+
+/**
+ * WCAG levels from strictest to most lenient
+ */
+export const WCAG_LEVELS: WcagLevel[] = ["AAA", "AA", "AA Large", "Fail"];
+
+/**
+ * Gets the highest WCAG 2.1 level a contrast ratio reaches for normal text,
+ * falling back to the large text level
+ */
+export function getWcagLevel(ratio: number): WcagLevel {
+  if (ratio >= WCAG_THRESHOLDS.AAA_NORMAL) {
+    return "AAA";
+  }
+  if (ratio >= WCAG_THRESHOLDS.AA_NORMAL) {
+    return "AA";
+  }
+  if (ratio >= WCAG_THRESHOLDS.AA_LARGE) {
+    return "AA Large";
+  }
+  return "Fail";
+}
+
+/**
+ * Checks whether a level is at least as strict as the required level
+ */
+export function meetsWcagLevel(level: WcagLevel, required: WcagLevel): boolean {
+  return WCAG_LEVELS.indexOf(level) <= WCAG_LEVELS.indexOf(required);
+}
+
+/**
+ * APCA screen luminance, with the soft clamp for near-black colors
+ */
+function getApcaLuminance(rgb: RGB): number {
+  const y = [rgb.r, rgb.g, rgb.b].reduce(
+    (sum, channel, i) =>
+      sum +
+      APCA.COEFFICIENTS[i] *
+        Math.pow(Math.max(0, channel) / 255, APCA.MAIN_TRC),
+    0,
+  );
+
+  return y > APCA.BLACK_THRESHOLD
+    ? y
+    : y + Math.pow(APCA.BLACK_THRESHOLD - y, APCA.BLACK_CLAMP);
+}
+
+/**
+ * APCA lightness contrast (Lc) of text on a background, roughly -108 to 106
+ * Unlike the WCAG ratio it depends on which color is the text: positive
+ * values are dark text on a light background, negative values the reverse
+ */
+export function getApcaContrast(text: RGB, background: RGB): number {
+  const opaqueBackground = compositeOver(background, {
+    r: 255,
+    g: 255,
+    b: 255,
+  });
+  const textY = getApcaLuminance(compositeOver(text, opaqueBackground));
+  const backgroundY = getApcaLuminance(opaqueBackground);
+
+  if (Math.abs(backgroundY - textY) < APCA.DELTA_Y_MIN) {
+    return 0;
+  }
+
+  let contrast: number;
+
+  if (backgroundY > textY) {
+    // Dark text on a light background
+    const sapc =
+      (Math.pow(backgroundY, APCA.NORM_BG) - Math.pow(textY, APCA.NORM_TXT)) *
+      APCA.SCALE;
+    contrast = sapc < APCA.LOW_CLIP ? 0 : sapc - APCA.LOW_OFFSET;
+  } else {
+    // Light text on a dark background
+    const sapc =
+      (Math.pow(backgroundY, APCA.REV_BG) - Math.pow(textY, APCA.REV_TXT)) *
+      APCA.SCALE;
+    contrast = sapc > -APCA.LOW_CLIP ? 0 : sapc + APCA.LOW_OFFSET;
+  }
+
+  return contrast * 100;
+}
+
+/**
+ * Describes what an APCA Lc value is sufficient for
+ */
+export function getApcaUsage(lc: number): string {
+  const level = APCA_LEVELS.find(({ minLc }) => Math.abs(lc) >= minLc);
+  return level ? level.usage : "Not readable, decorative use only";
+}
+
+/**
+ * Full contrast check of a foreground (text) color on a background color
+ */
+export function checkContrast(
+  foreground: RGB,
+  background: RGB,
+): ContrastResult {
+  const ratio = getContrastRatio(foreground, background);
+  const apcaLc = getApcaContrast(foreground, background);
+
+  return {
+    ratio,
+    wcag: getWcagCompliance(ratio),
+    apcaLc,
+    apcaUsage: getApcaUsage(apcaLc),
+  };
+}
+
+/**
+ * Formats a contrast ratio the way WCAG tools show it, e.g. "4.54:1"
+ * Truncated rather than rounded so that 4.499 never reads as passing 4.5
+ */
+export function formatContrastRatio(ratio: number): string {
+  return `${Math.floor(ratio * 100) / 100}:1`;
+}
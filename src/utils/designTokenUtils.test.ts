@@ -0,0 +1,201 @@
+import { ColorEntry, Palette, PreciseColor } from "../types";
+import {
+  DESIGN_TOKEN_EXTENSION,
+  DesignTokenNode,
+  DesignTokenPalette,
+  createDesignTokens,
+  parseDesignTokens,
+} from "./designTokenUtils";
+import { getSrgbFallback } from "./gamutUtils";
+
+/**
+ * Turns parsed token palettes into stored palettes, as an import does
+ */
+function toPalettes(parsed: DesignTokenPalette[]): Palette[] {
+  return parsed.map((palette) => ({
+    id: palette.name,
+    name: palette.name,
+    colors: palette.colors.map((color, index) => {
+      const entry: ColorEntry = {
+        ...color,
+        id: color.id ?? color.name,
+        index,
+      };
+
+      // Leave out optional values that are not set, as stored colors do
+      (Object.keys(entry) as (keyof ColorEntry)[]).forEach(
+        (key) => entry[key] === undefined && delete entry[key],
+      );
+      return entry;
+    }),
+  }));
+}
+
+const withId = (id: string) => ({
+  $extensions: { [DESIGN_TOKEN_EXTENSION]: { id } },
+});
+
+describe("design token extension values", () => {
+  const precise: PreciseColor = { space: "display-p3", coords: [1, 0, 0] };
+  const wideGamut: ColorEntry = {
+    id: "p3-red",
+    index: 0,
+    name: "P3 Red",
+    rgb: getSrgbFallback(precise, 0.3),
+    precise,
+  };
+
+  it("reads exact alpha and wide-gamut values back", () => {
+    const tokens = createDesignTokens([
+      { id: "brand", name: "Brand", colors: [wideGamut] },
+    ]);
+    const { palettes } = parseDesignTokens(tokens, "Tokens");
+
+    expect(palettes[0].colors[0]).toEqual(
+      expect.objectContaining({
+        rgb: wideGamut.rgb,
+        precise: wideGamut.precise,
+      }),
+    );
+  });
+
+  it("ignores them once another tool changed $value", () => {
+    const tokens = createDesignTokens([
+      { id: "brand", name: "Brand", colors: [wideGamut] },
+    ]);
+    const token = (tokens.Brand as DesignTokenNode)[
+      "P3 Red"
+    ] as DesignTokenNode;
+    token.$value = "#00ff0080";
+
+    const { palettes } = parseDesignTokens(tokens, "Tokens");
+
+    expect(palettes[0].colors[0].rgb).toEqual({
+      r: 0,
+      g: 255,
+      b: 0,
+      a: expect.closeTo(128 / 255, 3),
+    });
+    expect(palettes[0].colors[0].precise).toBeUndefined();
+  });
+});
+
+describe("design token aliases and nested groups", () => {
+  const source: DesignTokenNode = {
+    primitives: {
+      $type: "color",
+      blue: {
+        "100": { $value: "#dbeafe", ...withId("blue-100") },
+        "500": {
+          $value: "#3b82f6",
+          $description: "Base blue",
+          ...withId("blue-500"),
+        },
+      },
+    },
+    semantic: {
+      $type: "color",
+      action: {
+        primary: { $value: "{primitives.blue.500}", ...withId("primary") },
+      },
+      background: { $value: "{primitives.blue.100}", ...withId("background") },
+    },
+  };
+
+  it("writes imported paths and aliases back as they were", () => {
+    const { palettes, errors } = parseDesignTokens(source, "Tokens");
+
+    expect(errors).toEqual([]);
+    expect(
+      palettes[1].colors.map(({ name, token }) => ({ name, token })),
+    ).toEqual([
+      {
+        name: "action primary",
+        token: { path: ["action", "primary"], alias: "primitives.blue.500" },
+      },
+      {
+        name: "background",
+        token: { path: ["background"], alias: "primitives.blue.100" },
+      },
+    ]);
+    expect(createDesignTokens(toPalettes(palettes))).toEqual(source);
+  });
+
+  it("writes the value instead of an alias the export cannot keep", () => {
+    const palettes = toPalettes(parseDesignTokens(source, "Tokens").palettes);
+    const [primitives, semantic] = palettes;
+
+    // The target changed, and the other target is not exported
+    primitives.colors[1] = {
+      ...primitives.colors[1],
+      rgb: { r: 0, g: 0, b: 255 },
+    };
+    const tokens = createDesignTokens([
+      { ...primitives, colors: [primitives.colors[1]] },
+      semantic,
+    ]);
+
+    expect(tokens.semantic).toEqual(
+      expect.objectContaining({
+        action: { primary: expect.objectContaining({ $value: "#3b82f6" }) },
+        background: expect.objectContaining({ $value: "#dbeafe" }),
+      }),
+    );
+  });
+
+  it("keeps a color at the top of its group when a token is in the way", () => {
+    const tokens = createDesignTokens([
+      {
+        id: "brand",
+        name: "Brand",
+        colors: [
+          { id: "blue", index: 0, name: "blue", rgb: { r: 0, g: 0, b: 255 } },
+          {
+            id: "blue-500",
+            index: 1,
+            name: "blue 500",
+            rgb: { r: 0, g: 0, b: 200 },
+            token: { path: ["blue", "500"] },
+          },
+        ],
+      },
+    ]);
+
+    expect(Object.keys(tokens.Brand as DesignTokenNode)).toEqual([
+      "$type",
+      "blue",
+      "blue 500",
+    ]);
+    expect(parseDesignTokens(tokens, "Tokens").palettes[0].colors).toEqual([
+      expect.objectContaining({ name: "blue" }),
+      expect.objectContaining({ name: "blue 500", token: undefined }),
+    ]);
+  });
+
+  it("never writes aliases that reference each other", () => {
+    const color = (id: string, alias: string): ColorEntry => ({
+      id,
+      index: 0,
+      name: id,
+      rgb: { r: 1, g: 2, b: 3 },
+      token: { path: [id], alias },
+    });
+
+    const tokens = createDesignTokens([
+      {
+        id: "loop",
+        name: "loop",
+        colors: [color("first", "loop.second"), color("second", "loop.first")],
+      },
+    ]);
+    const { palettes, errors } = parseDesignTokens(tokens, "Tokens");
+
+    expect(errors).toEqual([]);
+    expect(
+      palettes[0].colors.map(({ name, token }) => [name, token?.alias]),
+    ).toEqual([
+      ["first", "loop.second"],
+      ["second", undefined],
+    ]);
+  });
+});
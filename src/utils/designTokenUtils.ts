@@ -0,0 +1,498 @@
+import {
+  ColorEntry,
+  DesignTokenSource,
+  Palette,
+  PreciseColor,
+  RGB,
+  isValidPreciseColor,
+} from "../types";
+import { formatAsHex } from "./colorFormatUtils";
+import { parseColorValue } from "./colorParserUtils";
+import { getSrgbFallback } from "./gamutUtils";
+import { COLOR_NAME_MAX_LENGTH } from "../constants/appConstants";
+
+/**
+ * Design Tokens Community Group (DTCG) format
+ * Tokens are objects with a `$value`; every other object is a group whose
+ * `$type` is inherited by the tokens inside it. Names may not contain ".",
+ * "{" or "}" and may not start with "$"; aliases reference another token by
+ * its dotted path, e.g. "{brand.primary}"
+ */
+
+/**
+ * Node of a design token file: a token, a group, or a `$` property
+ */
+export type DesignTokenNode = { [key: string]: unknown };
+
+/**
+ * Key of the `$extensions` entry holding what the DTCG format cannot express
+ * (color ids, original names and wide-gamut values)
+ */
+export const DESIGN_TOKEN_EXTENSION = "com.raycast.mycolor";
+
+/**
+ * MyColor data kept in a token's or group's `$extensions`
+ */
+interface MyColorExtension {
+  id?: string;
+  name?: string;
+  alpha?: number; // Only when the hex value cannot hold it exactly
+  precise?: PreciseColor;
+}
+
+/**
+ * Color read from a token file
+ */
+export interface DesignTokenColor {
+  id?: string;
+  name: string;
+  rgb: RGB;
+  precise?: PreciseColor;
+  description?: string;
+  token?: DesignTokenSource;
+}
+
+/**
+ * Palette read from a token file: a top-level group or the top-level tokens
+ */
+export interface DesignTokenPalette {
+  name: string;
+  colors: DesignTokenColor[];
+}
+
+const ALIAS_PATTERN = /^\{([^{}]+)\}$/;
+
+/**
+ * Checks whether a value is a plain object
+ */
+function isObject(value: unknown): value is DesignTokenNode {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Turns a color or palette name into a valid token name
+ */
+export function toDesignTokenName(name: string): string {
+  return name.trim().replace(/[.{}]/g, "-").replace(/^\$+/, "") || "color";
+}
+
+/**
+ * Builds the `$extensions` of a node, keeping only the values that are set
+ */
+function toExtensions(
+  extension: MyColorExtension,
+): { $extensions: DesignTokenNode } | Record<string, never> {
+  const values = Object.fromEntries(
+    Object.entries(extension).filter(([, value]) => value !== undefined),
+  );
+
+  return Object.keys(values).length > 0
+    ? { $extensions: { [DESIGN_TOKEN_EXTENSION]: values } }
+    : {};
+}
+
+/**
+ * Gets a token name not used in a group, numbering it if needed
+ */
+function getAvailableTokenName(group: DesignTokenNode, name: string): string {
+  let candidate = name;
+
+  for (let suffix = 2; candidate in group; suffix++) {
+    candidate = `${name}-${suffix}`;
+  }
+
+  return candidate;
+}
+
+/**
+ * Gets the group a token path below `group` goes into, creating the nested
+ * groups on the way, or undefined if a token is in the way
+ */
+function getNestedGroup(
+  group: DesignTokenNode,
+  path: string[],
+): DesignTokenNode | undefined {
+  return path.reduce<DesignTokenNode | undefined>((parent, key) => {
+    if (!parent) {
+      return undefined;
+    }
+    if (!(key in parent)) {
+      parent[key] = {};
+    }
+
+    const child = parent[key];
+    return isObject(child) && !("$value" in child) ? child : undefined;
+  }, group);
+}
+
+/**
+ * Checks whether two colors have the same value, alpha and precise original
+ */
+function isSameColorValue(first: ColorEntry, second: ColorEntry): boolean {
+  return (
+    formatAsHex(first.rgb) === formatAsHex(second.rgb) &&
+    first.rgb.a === second.rgb.a &&
+    JSON.stringify(first.precise) === JSON.stringify(second.precise)
+  );
+}
+
+/**
+ * Converts a color into a color token
+ * `$value` is the hex value tools understand, or `alias` when the color
+ * references another token; names that differ from the token path, alpha
+ * values finer than a hex byte and wide-gamut values are kept in
+ * `$extensions`
+ */
+function toColorToken(
+  color: ColorEntry,
+  path: string[],
+  alias?: string,
+): DesignTokenNode {
+  const alpha = color.rgb.a;
+
+  return {
+    $value: alias !== undefined ? `{${alias}}` : formatAsHex(color.rgb),
+    ...(color.description ? { $description: color.description } : {}),
+    ...toExtensions({
+      id: color.id,
+      name: path.join(" ") === color.name ? undefined : color.name,
+      alpha:
+        alpha !== undefined && Math.round(alpha * 255) / 255 !== alpha
+          ? alpha
+          : undefined,
+      precise: color.precise,
+    }),
+  };
+}
+
+/**
+ * Converts palettes into a design token file with one group per palette
+ * Colors imported from nested groups go back to their path, and aliases are
+ * written again when their target is exported with the same value
+ */
+export function createDesignTokens(palettes: Palette[]): DesignTokenNode {
+  const root: DesignTokenNode = {};
+  const placed: {
+    color: ColorEntry;
+    group: DesignTokenNode;
+    tokenName: string;
+    path: string[]; // Below the palette group
+  }[] = [];
+  const byPath = new Map<string, ColorEntry>();
+
+  palettes.forEach((palette) => {
+    const groupName = getAvailableTokenName(
+      root,
+      toDesignTokenName(palette.name),
+    );
+    const group: DesignTokenNode = {
+      $type: "color",
+      ...toExtensions({
+        name: groupName === palette.name ? undefined : palette.name,
+      }),
+    };
+
+    palette.colors.forEach((color) => {
+      const path = color.token?.path.map(toDesignTokenName) ?? [
+        toDesignTokenName(color.name),
+      ];
+      const nested = getNestedGroup(group, path.slice(0, -1));
+
+      // A token in the way of the nested path leaves the color at the top
+      const parent = nested ?? group;
+      const parentPath = nested ? path.slice(0, -1) : [];
+      const tokenName = getAvailableTokenName(
+        parent,
+        nested ? path[path.length - 1] : toDesignTokenName(color.name),
+      );
+
+      // Holds the name until the token is written, aliases need every path
+      parent[tokenName] = { $value: null };
+      placed.push({
+        color,
+        group: parent,
+        tokenName,
+        path: [...parentPath, tokenName],
+      });
+      byPath.set([groupName, ...parentPath, tokenName].join("."), color);
+    });
+
+    root[groupName] = group;
+  });
+
+  // Aliases are decided once per color, targets first; an alias that would
+  // lead back to a color being decided is written as a plain value, so the
+  // file never holds a cycle
+  const aliases = new Map<ColorEntry, string | undefined>();
+  const deciding = new Set<ColorEntry>();
+  const getAlias = (color: ColorEntry): string | undefined => {
+    if (aliases.has(color)) {
+      return aliases.get(color);
+    }
+
+    const alias = color.token?.alias;
+    const target = alias !== undefined ? byPath.get(alias) : undefined;
+    deciding.add(color);
+
+    const isWritten =
+      target !== undefined &&
+      !deciding.has(target) &&
+      isSameColorValue(color, target);
+    if (isWritten) {
+      getAlias(target);
+    }
+
+    deciding.delete(color);
+    aliases.set(color, isWritten ? alias : undefined);
+    return aliases.get(color);
+  };
+
+  placed.forEach(({ color, group, tokenName, path }) => {
+    group[tokenName] = toColorToken(color, path, getAlias(color));
+  });
+
+  return root;
+}
+
+/**
+ * Checks whether parsed JSON looks like a design token file: an object with
+ * a `$value` somewhere below it, and not a palette export with a color list
+ */
+export function isDesignTokenFile(data: unknown): boolean {
+  if (!isObject(data) || Array.isArray(data.colors)) {
+    return false;
+  }
+
+  return Object.entries(data).some(
+    ([key, value]) =>
+      !key.startsWith("$") &&
+      isObject(value) &&
+      ("$value" in value || isDesignTokenFile(value)),
+  );
+}
+
+/**
+ * Token found while walking a token file
+ */
+interface TokenEntry {
+  path: string[];
+  type?: string;
+  token: DesignTokenNode;
+}
+
+/**
+ * Collects every token with the `$type` it inherits from its groups
+ */
+function collectTokens(
+  node: DesignTokenNode,
+  path: string[] = [],
+  inheritedType?: string,
+): TokenEntry[] {
+  const type =
+    typeof node.$type === "string" ? (node.$type as string) : inheritedType;
+
+  if (path.length > 0 && "$value" in node) {
+    return [{ path, type, token: node }];
+  }
+
+  return Object.entries(node)
+    .filter(([key, value]) => !key.startsWith("$") && isObject(value))
+    .flatMap(([key, value]) =>
+      collectTokens(value as DesignTokenNode, [...path, key], type),
+    );
+}
+
+/**
+ * Formats a DTCG color object as a CSS color string
+ * e.g. { colorSpace: "display-p3", components: [1, 0, 0] } → color(display-p3 1 0 0)
+ */
+function colorObjectToCss(value: DesignTokenNode): string {
+  const { colorSpace, components, alpha, hex } = value;
+
+  if (typeof colorSpace !== "string" || !Array.isArray(components)) {
+    if (typeof hex === "string") {
+      return hex;
+    }
+    throw new Error("Color value needs a colorSpace and components");
+  }
+
+  const channels = components
+    .map((component, index) =>
+      component === "none"
+        ? "none"
+        : colorSpace === "hsl" || colorSpace === "hwb"
+          ? index === 0
+            ? `${component}`
+            : `${component}%`
+          : `${component}`,
+    )
+    .join(" ");
+  const alphaSuffix =
+    typeof alpha === "number" && alpha < 1 ? ` / ${alpha}` : "";
+
+  return ["hsl", "hwb", "lab", "lch", "oklab", "oklch"].includes(colorSpace)
+    ? `${colorSpace}(${channels}${alphaSuffix})`
+    : `color(${colorSpace} ${channels}${alphaSuffix})`;
+}
+
+/**
+ * Parses the `$value` of a color token: a CSS color string (usually hex) or
+ * a DTCG color object
+ */
+function parseColorTokenValue(value: unknown): {
+  rgb: RGB;
+  precise?: PreciseColor;
+} {
+  if (typeof value === "string") {
+    return parseColorValue(value);
+  }
+  if (isObject(value)) {
+    return parseColorValue(colorObjectToCss(value));
+  }
+
+  throw new Error("Color value must be a string or a color object");
+}
+
+/**
+ * Reads the MyColor extension of a node
+ */
+function getExtension(node: DesignTokenNode): MyColorExtension {
+  const extensions = node.$extensions;
+
+  return isObject(extensions) && isObject(extensions[DESIGN_TOKEN_EXTENSION])
+    ? (extensions[DESIGN_TOKEN_EXTENSION] as MyColorExtension)
+    : {};
+}
+
+/**
+ * Applies the alpha and wide-gamut values of a token's extension to its
+ * parsed value; they are left out when `$value` was changed after export
+ * and no longer matches them
+ */
+function withExtensionValues(
+  parsed: { rgb: RGB; precise?: PreciseColor },
+  extension: MyColorExtension,
+): { rgb: RGB; precise?: PreciseColor } {
+  const { alpha, precise } = extension;
+  const toAlphaByte = (value = 1) => Math.round(value * 255);
+  const hasAlpha =
+    typeof alpha === "number" &&
+    alpha >= 0 &&
+    alpha <= 1 &&
+    toAlphaByte(alpha) === toAlphaByte(parsed.rgb.a);
+
+  // The exported hex value is the 8-bit sRGB fallback of the precise color
+  const fallback = isValidPreciseColor(precise)
+    ? getSrgbFallback(precise)
+    : undefined;
+  const hasPrecise =
+    fallback !== undefined &&
+    (["r", "g", "b"] as const).every(
+      (channel) => Math.abs(fallback[channel] - parsed.rgb[channel]) <= 1,
+    );
+
+  return {
+    rgb: hasAlpha ? { ...parsed.rgb, a: alpha } : parsed.rgb,
+    precise: hasPrecise ? precise : parsed.precise,
+  };
+}
+
+/**
+ * Reads the color tokens of a token file as palettes
+ * Top-level groups become palettes and the tokens at the top level go into a
+ * palette named `defaultName`; tokens in nested groups are named after their
+ * path below the palette (e.g. "blue 500"). Aliases are resolved to the color
+ * they reference; the path and alias are kept in `token` so the color exports
+ * back in place. Tokens of other types are ignored. Tokens that cannot be
+ * read are reported in `errors` and left out
+ */
+export function parseDesignTokens(
+  data: unknown,
+  defaultName: string,
+): { palettes: DesignTokenPalette[]; errors: string[] } {
+  if (!isObject(data)) {
+    throw new Error("Design token file must be a JSON object");
+  }
+
+  const tokens = collectTokens(data);
+  const byPath = new Map(tokens.map((entry) => [entry.path.join("."), entry]));
+  const errors: string[] = [];
+
+  // Follow aliases until a concrete value, refusing cycles and missing tokens
+  const resolve = (entry: TokenEntry, seen: string[] = []): TokenEntry => {
+    const value = entry.token.$value;
+    const alias = typeof value === "string" && value.match(ALIAS_PATTERN);
+
+    if (!alias) {
+      return entry;
+    }
+
+    const target = byPath.get(alias[1]);
+    if (!target) {
+      throw new Error(`Alias ${value} references a missing token`);
+    }
+    if (seen.includes(alias[1])) {
+      throw new Error(`Alias ${value} is circular`);
+    }
+
+    return resolve(target, [...seen, entry.path.join(".")]);
+  };
+
+  const palettes = new Map<string, DesignTokenPalette>();
+
+  tokens.forEach((entry) => {
+    const tokenPath = entry.path.join(".");
+
+    try {
+      const resolved = resolve(entry);
+
+      // Aliases without their own $type take the type of their target
+      if ((entry.type ?? resolved.type) !== "color") {
+        return;
+      }
+
+      const isTopLevel = entry.path.length === 1;
+      const groupKey = isTopLevel ? "" : entry.path[0];
+      const group = isTopLevel ? undefined : data[groupKey];
+      const paletteName = isTopLevel
+        ? defaultName
+        : (isObject(group) && getExtension(group).name) || groupKey;
+
+      const extension = getExtension(entry.token);
+      const path = entry.path.slice(isTopLevel ? 0 : 1);
+      const name = (extension.name ?? path.join(" ")).slice(
+        0,
+        COLOR_NAME_MAX_LENGTH,
+      );
+      const parsed = parseColorTokenValue(resolved.token.$value);
+      const value = entry.token.$value;
+      const alias =
+        typeof value === "string" ? value.match(ALIAS_PATTERN)?.[1] : undefined;
+
+      const palette = palettes.get(groupKey) ?? {
+        name: paletteName,
+        colors: [],
+      };
+      palette.colors.push({
+        id: extension.id,
+        name,
+        ...withExtensionValues(parsed, extension),
+        description:
+          typeof entry.token.$description === "string"
+            ? entry.token.$description
+            : undefined,
+        token:
+          path.length > 1 || alias !== undefined
+            ? { path, ...(alias !== undefined ? { alias } : {}) }
+            : undefined,
+      });
+      palettes.set(groupKey, palette);
+    } catch (error) {
+      errors.push(
+        `Token "${tokenPath}": ${error instanceof Error ? error.message : error}`,
+      );
+    }
+  });
+
+  return { palettes: [...palettes.values()], errors };
+}
@@ -12,6 +12,16 @@ export class ColorValidationError extends Error {
   }
 }
 
+export class ColorParseError extends Error {
+  constructor(
+    message: string,
+    public readonly input?: string,
+  ) {
+    super(message);
+    this.name = "ColorParseError";
+  }
+}
+
 export class FileOperationError extends Error {
   constructor(
     message: string,
@@ -37,14 +47,49 @@ export class DuplicateColorError extends Error {
 }
 
 export class MaxColorsReachedError extends Error {
-  constructor(maxColors: number) {
+  constructor(maxColors: number, colorCount?: number) {
     super(
-      `Cannot add more colors. Maximum limit of ${maxColors} colors reached`,
+      colorCount === undefined
+        ? `Cannot add more colors. Maximum limit of ${maxColors} colors reached`
+        : `${colorCount} colors exceed the limit of ${maxColors} colors. Raise the Color Limit preference to continue`,
     );
     this.name = "MaxColorsReachedError";
   }
 }
 
+export class PaletteNotFoundError extends Error {
+  constructor(identifier: string) {
+    super(`Palette not found: ${identifier}`);
+    this.name = "PaletteNotFoundError";
+  }
+}
+
+export class DuplicatePaletteError extends Error {
+  constructor(paletteName: string) {
+    super(`A palette with the name "${paletteName}" already exists`);
+    this.name = "DuplicatePaletteError";
+  }
+}
+
+export class LastPaletteError extends Error {
+  constructor() {
+    super("Cannot delete the only remaining palette");
+    this.name = "LastPaletteError";
+  }
+}
+
+export class UnsupportedSchemaVersionError extends Error {
+  constructor(
+    public readonly foundVersion: string | number,
+    public readonly supportedVersion: string | number,
+  ) {
+    super(
+      `Data was written by a newer version of MyColor (format ${foundVersion}, supported up to ${supportedVersion}). Please update the extension`,
+    );
+    this.name = "UnsupportedSchemaVersionError";
+  }
+}
+
 /**
  * Wraps async operations with consistent error handling
  */
@@ -60,10 +105,15 @@ export async function withErrorHandling<T>(
     // Re-throw known error types
     if (
       error instanceof ColorValidationError ||
+      error instanceof ColorParseError ||
       error instanceof FileOperationError ||
       error instanceof ColorNotFoundError ||
       error instanceof DuplicateColorError ||
-      error instanceof MaxColorsReachedError
+      error instanceof MaxColorsReachedError ||
+      error instanceof PaletteNotFoundError ||
+      error instanceof DuplicatePaletteError ||
+      error instanceof LastPaletteError ||
+      error instanceof UnsupportedSchemaVersionError
     ) {
       throw error;
     }
@@ -83,6 +133,10 @@ export function formatErrorMessage(error: unknown): string {
     return `Validation Error: ${error.message}`;
   }
 
+  if (error instanceof ColorParseError) {
+    return `Invalid Color: ${error.message}`;
+  }
+
   if (error instanceof FileOperationError) {
     return `File Error: ${error.message}`;
   }
@@ -99,6 +153,22 @@ export function formatErrorMessage(error: unknown): string {
     return `Limit Reached: ${error.message}`;
   }
 
+  if (error instanceof PaletteNotFoundError) {
+    return `Not Found: ${error.message}`;
+  }
+
+  if (error instanceof DuplicatePaletteError) {
+    return `Duplicate: ${error.message}`;
+  }
+
+  if (error instanceof LastPaletteError) {
+    return `Not Allowed: ${error.message}`;
+  }
+
+  if (error instanceof UnsupportedSchemaVersionError) {
+    return `Unsupported Version: ${error.message}`;
+  }
+
   if (error instanceof Error) {
     return error.message;
   }
@@ -0,0 +1,199 @@
+import { promises as fs } from "fs";
+import { homedir, tmpdir } from "os";
+import { join } from "path";
+import { FILE_LOCK } from "../constants/appConstants";
+import { FileOperationError } from "./errorUtils";
+import {
+  getColorDirectory,
+  getFreeExportPath,
+  getPlatformColorDirectory,
+  withFileLock,
+  writeFileAtomic,
+} from "./fileSystemUtils";
+
+let mockPreferences: Record<string, unknown> = {};
+
+// The Raycast runtime is not available in tests
+jest.mock(
+  "@raycast/api",
+  () => ({
+    getPreferenceValues: () => mockPreferences,
+    environment: { supportPath: "/tmp/mycolor-test" },
+  }),
+  { virtual: true },
+);
+
+describe("color storage directory", () => {
+  beforeEach(() => {
+    mockPreferences = {};
+  });
+
+  it.each([
+    ["darwin", {}, join(homedir(), "Library/Application Support")],
+    [
+      "win32",
+      { APPDATA: "C:\\Users\\me\\AppData\\Roaming" },
+      "C:\\Users\\me\\AppData\\Roaming",
+    ],
+    ["win32", {}, join(homedir(), "AppData", "Roaming")],
+    ["linux", { XDG_DATA_HOME: "/data" }, "/data"],
+    [
+      "linux",
+      { XDG_DATA_HOME: "relative/data" },
+      join(homedir(), ".local/share"),
+    ],
+    ["freebsd", {}, join(homedir(), ".local/share")],
+  ] as [NodeJS.Platform, NodeJS.ProcessEnv, string][])(
+    "uses the platform default on %s with %p",
+    (platform, env, parent) => {
+      expect(getPlatformColorDirectory(platform, env)).toBe(
+        join(parent, "raycast-my-color"),
+      );
+      expect(getColorDirectory(platform, env)).toBe(
+        join(parent, "raycast-my-color"),
+      );
+    },
+  );
+
+  it("prefers MYCOLOR_DATA_DIR over the preference over the default", () => {
+    const env = { XDG_DATA_HOME: "/data" };
+    mockPreferences = { dataDirectory: "~/Colors" };
+
+    expect(getColorDirectory("linux", env)).toBe(join(homedir(), "Colors"));
+    expect(
+      getColorDirectory("linux", { ...env, MYCOLOR_DATA_DIR: "/srv/colors" }),
+    ).toBe("/srv/colors");
+    expect(getColorDirectory("linux", { ...env, MYCOLOR_DATA_DIR: "  " })).toBe(
+      join(homedir(), "Colors"),
+    );
+
+    mockPreferences = { dataDirectory: " " };
+    expect(getColorDirectory("darwin", { MYCOLOR_DATA_DIR: "~" })).toBe(
+      homedir(),
+    );
+  });
+});
+
+describe("file system utilities", () => {
+  let directory: string;
+  let filePath: string;
+  let lockPath: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), "mycolor-"));
+    filePath = join(directory, "colors.json");
+    lockPath = `${filePath}.lock`;
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  describe("withFileLock", () => {
+    it("holds a lock file while the operation runs and re-enters it", async () => {
+      const result = await withFileLock(filePath, async () => {
+        expect(await fs.readFile(lockPath, "utf-8")).toBe(String(process.pid));
+        return withFileLock(filePath, async () => "nested");
+      });
+
+      expect(result).toBe("nested");
+      await expect(fs.access(lockPath)).rejects.toThrow();
+    });
+
+    it("runs concurrent operations one after another", async () => {
+      const events: string[] = [];
+      const run = (name: string) =>
+        withFileLock(filePath, async () => {
+          events.push(`${name} start`);
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          events.push(`${name} end`);
+        });
+
+      await Promise.all([run("first"), run("second")]);
+
+      expect(events).toEqual([
+        "first start",
+        "first end",
+        "second start",
+        "second end",
+      ]);
+    });
+
+    it("takes over a lock older than STALE_AFTER", async () => {
+      jest.spyOn(console, "warn").mockImplementation(() => undefined);
+      await fs.writeFile(lockPath, String(process.pid));
+      const abandoned = new Date(Date.now() - FILE_LOCK.STALE_AFTER - 1000);
+      await fs.utimes(lockPath, abandoned, abandoned);
+
+      await expect(withFileLock(filePath, async () => "done")).resolves.toBe(
+        "done",
+      );
+      expect(console.warn).toHaveBeenCalledWith(
+        `Removing stale lock: ${lockPath}`,
+      );
+    });
+
+    it("gives up after the timeout while another holder is alive", async () => {
+      await fs.writeFile(lockPath, String(process.pid));
+      const operation = jest.fn(async () => undefined);
+
+      // Every clock reading after the first is past the deadline
+      const start = Date.now();
+      let readings = 0;
+      jest
+        .spyOn(Date, "now")
+        .mockImplementation(() =>
+          readings++ === 0 ? start : start + FILE_LOCK.TIMEOUT,
+        );
+
+      await expect(withFileLock(filePath, operation)).rejects.toThrow(
+        FileOperationError,
+      );
+      expect(operation).not.toHaveBeenCalled();
+      expect(await fs.readFile(lockPath, "utf-8")).toBe(String(process.pid));
+    });
+  });
+
+  describe("getFreeExportPath", () => {
+    it("numbers the name until no file uses it", async () => {
+      const firstPath = join(directory, "brand-colors.ase");
+
+      expect(await getFreeExportPath("Brand Colors!", "ase", directory)).toBe(
+        firstPath,
+      );
+
+      await fs.writeFile(firstPath, "");
+      await fs.writeFile(join(directory, "brand-colors 2.ase"), "");
+
+      expect(await getFreeExportPath("Brand Colors", "ase", directory)).toBe(
+        join(directory, "brand-colors 3.ase"),
+      );
+      expect(await getFreeExportPath("", "tokens.json", directory)).toBe(
+        join(directory, "palette.tokens.json"),
+      );
+    });
+  });
+
+  describe("writeFileAtomic", () => {
+    it("replaces the file without leaving temporary files", async () => {
+      await fs.writeFile(filePath, "old");
+
+      await writeFileAtomic(filePath, "new");
+      await writeFileAtomic(filePath, new Uint8Array([1, 2, 3]));
+
+      expect([...(await fs.readFile(filePath))]).toEqual([1, 2, 3]);
+      expect(await fs.readdir(directory)).toEqual(["colors.json"]);
+    });
+
+    it("keeps the old content and removes the temporary file on failure", async () => {
+      // Renaming a file over a directory fails after the data was written
+      await fs.mkdir(filePath);
+
+      await expect(writeFileAtomic(filePath, "new")).rejects.toThrow();
+
+      expect((await fs.stat(filePath)).isDirectory()).toBe(true);
+      expect(await fs.readdir(directory)).toEqual(["colors.json"]);
+    });
+  });
+});
@@ -1,16 +1,89 @@
 import { promises as fs } from "fs";
-import { join } from "path";
+import { dirname, isAbsolute, join, resolve } from "path";
 import { homedir } from "os";
+import { randomBytes } from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
+import { FILE_LOCK, STORAGE } from "../constants/appConstants";
+import { FileOperationError } from "./errorUtils";
+import { getUserPreferences } from "./settingsUtils";
 
 /**
  * File system utility functions for color data management
  */
 
+/**
+ * Location used by earlier versions on every platform
+ */
+const LEGACY_COLOR_DIRECTORY = join(
+  homedir(),
+  "Library",
+  "Application Support",
+  STORAGE.DIRECTORY_NAME,
+);
+
+/**
+ * Expands a leading "~" and resolves relative paths against the working directory
+ */
+function expandPath(path: string): string {
+  if (path === "~" || path.startsWith("~/")) {
+    return join(homedir(), path.slice(1));
+  }
+  return resolve(path);
+}
+
+/**
+ * Gets the default color storage directory for a platform
+ * macOS: ~/Library/Application Support, Windows: %APPDATA%,
+ * Linux and others: $XDG_DATA_HOME (falling back to ~/.local/share)
+ */
+export function getPlatformColorDirectory(
+  platform: NodeJS.Platform = process.platform,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  if (platform === "darwin") {
+    return LEGACY_COLOR_DIRECTORY;
+  }
+
+  if (platform === "win32") {
+    return join(
+      env.APPDATA || join(homedir(), "AppData", "Roaming"),
+      STORAGE.DIRECTORY_NAME,
+    );
+  }
+
+  // The XDG spec says relative values must be ignored
+  const xdgDataHome = env.XDG_DATA_HOME;
+  const dataHome =
+    xdgDataHome && isAbsolute(xdgDataHome)
+      ? xdgDataHome
+      : join(homedir(), ".local", "share");
+
+  return join(dataHome, STORAGE.DIRECTORY_NAME);
+}
+
 /**
  * Gets the color storage directory path
+ * Resolution order: MYCOLOR_DATA_DIR environment variable, the "Data
+ * Directory" preference, then the platform default
+ */
+export function getColorDirectory(
+  platform: NodeJS.Platform = process.platform,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  const override =
+    env[STORAGE.DIRECTORY_ENV_VAR]?.trim() ||
+    getUserPreferences().dataDirectory;
+
+  return override
+    ? expandPath(override)
+    : getPlatformColorDirectory(platform, env);
+}
+
+/**
+ * Storage locations that may hold data from before the location changed
  */
-export function getColorDirectory(): string {
-  return join(homedir(), "Library", "Application Support", "raycast-my-color");
+export function getPreviousColorDirectories(): string[] {
+  return [...new Set([getPlatformColorDirectory(), LEGACY_COLOR_DIRECTORY])];
 }
 
 /**
@@ -20,6 +93,38 @@ export function getColorFilePath(): string {
   return join(getColorDirectory(), "colors.json");
 }
 
+/**
+ * Gets the directory that reports and other exports are saved to
+ */
+export function getExportDirectory(): string {
+  return join(homedir(), "Downloads");
+}
+
+/**
+ * Gets a path in a directory (the export directory by default) that no file
+ * uses yet, so exports never overwrite earlier ones
+ * The name is slugged, e.g. "Brand Colors" → "brand-colors.ase"; taken names
+ * are numbered: "brand-colors 2.ase", "brand-colors 3.ase"
+ */
+export async function getFreeExportPath(
+  name: string,
+  extension: string,
+  directory: string = getExportDirectory(),
+): Promise<string> {
+  const baseName =
+    name
+      .toLowerCase()
+      .replace(/\s+/g, "-")
+      .replace(/[^a-z0-9-]/g, "") || "palette";
+
+  let filePath = join(directory, `${baseName}.${extension}`);
+  for (let number = 2; await fileExists(filePath); number++) {
+    filePath = join(directory, `${baseName} ${number}.${extension}`);
+  }
+
+  return filePath;
+}
+
 /**
  * Ensures a directory exists, creating it if necessary
  */
@@ -57,8 +162,55 @@ export async function readJsonFile<T>(filePath: string): Promise<T> {
   }
 }
 
+/**
+ * Flushes a directory entry to disk so that a completed rename survives a crash
+ * Not supported on every platform, so failures are ignored
+ */
+async function syncDirectory(dirPath: string): Promise<void> {
+  let handle: fs.FileHandle | undefined;
+  try {
+    handle = await fs.open(dirPath, "r");
+    await handle.sync();
+  } catch {
+    // Directory fsync is best-effort
+  } finally {
+    await handle?.close().catch(() => undefined);
+  }
+}
+
+/**
+ * Writes a file atomically: data goes to a temporary file in the same
+ * directory, is flushed with fsync and then renamed over the target, so
+ * readers only ever see the old or the new content, never a partial write
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  content: string | Uint8Array,
+): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${randomBytes(6).toString("hex")}.tmp`;
+  let handle: fs.FileHandle | undefined;
+
+  try {
+    handle = await fs.open(tempPath, "wx");
+    await (typeof content === "string"
+      ? handle.writeFile(content, "utf-8")
+      : handle.writeFile(content));
+    await handle.sync();
+    await handle.close();
+    handle = undefined;
+
+    await fs.rename(tempPath, filePath);
+    await syncDirectory(dirname(filePath));
+  } catch (error) {
+    await handle?.close().catch(() => undefined);
+    await fs.unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
+
 /**
  * Writes data to JSON file with proper formatting
+ * Uses an atomic write so that a crash never leaves a truncated file
  */
 export async function writeJsonFile<T>(
   filePath: string,
@@ -66,9 +218,110 @@ export async function writeJsonFile<T>(
 ): Promise<void> {
   try {
     const jsonString = JSON.stringify(data, null, 2);
-    await fs.writeFile(filePath, jsonString, "utf-8");
+    await writeFileAtomic(filePath, jsonString);
   } catch (error) {
     console.error(`Failed to write JSON file ${filePath}:`, error);
     throw new Error(`Failed to write file: ${filePath}`);
   }
 }
+
+/**
+ * Lock files currently held by the running async call chain
+ * Allows nested locked operations (e.g., addColor -> saveColors) to re-enter
+ */
+const heldLocks = new AsyncLocalStorage<Set<string>>();
+
+/**
+ * Checks whether an existing lock file was abandoned by a crashed process
+ */
+async function isStaleLock(lockPath: string): Promise<boolean> {
+  try {
+    const stats = await fs.stat(lockPath);
+
+    if (Date.now() - stats.mtime.getTime() > FILE_LOCK.STALE_AFTER) {
+      return true;
+    }
+
+    const pid = parseInt(await fs.readFile(lockPath, "utf-8"), 10);
+
+    if (!isNaN(pid) && pid !== process.pid) {
+      try {
+        // Signal 0 only checks whether the process exists
+        process.kill(pid, 0);
+      } catch (error) {
+        return (error as NodeJS.ErrnoException).code === "ESRCH";
+      }
+    }
+
+    return false;
+  } catch {
+    // Lock vanished or is unreadable, let the next attempt decide
+    return false;
+  }
+}
+
+/**
+ * Acquires a lock file using exclusive creation, retrying until the timeout
+ */
+async function acquireLock(lockPath: string): Promise<void> {
+  const deadline = Date.now() + FILE_LOCK.TIMEOUT;
+
+  for (;;) {
+    try {
+      const handle = await fs.open(lockPath, "wx");
+      await handle.writeFile(String(process.pid), "utf-8");
+      await handle.close();
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+
+    if (await isStaleLock(lockPath)) {
+      console.warn(`Removing stale lock: ${lockPath}`);
+      await fs.unlink(lockPath).catch(() => undefined);
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new FileOperationError(
+        `Timed out waiting for another process to finish writing`,
+        lockPath,
+      );
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, FILE_LOCK.RETRY_DELAY));
+  }
+}
+
+/**
+ * Runs an operation while holding a cross-process lock on a file
+ * The lock is a sibling "<file>.lock" created exclusively, so other Raycast
+ * commands or scripts using the same convention wait instead of clobbering
+ */
+export async function withFileLock<T>(
+  filePath: string,
+  operation: () => Promise<T>,
+): Promise<T> {
+  const lockPath = `${filePath}.lock`;
+  const currentLocks = heldLocks.getStore();
+
+  // Re-entrant: the current call chain already owns this lock
+  if (currentLocks?.has(lockPath)) {
+    return operation();
+  }
+
+  await ensureDirectoryExists(dirname(filePath));
+  await acquireLock(lockPath);
+
+  try {
+    const locks = new Set(currentLocks);
+    locks.add(lockPath);
+    return await heldLocks.run(locks, operation);
+  } finally {
+    await fs.unlink(lockPath).catch((error) => {
+      console.warn(`Failed to release lock ${lockPath}:`, error);
+    });
+  }
+}
@@ -0,0 +1,184 @@
+import { PreciseColor, PreciseColorSpace, RGB } from "../types";
+import { Vector3, convertFromSrgb, convertToSrgb } from "./colorSpaceUtils";
+
+/**
+ * Gamut checks and CSS Color Module Level 4 gamut mapping
+ * Wide-gamut colors keep their precise value and get an sRGB fallback that
+ * preserves lightness and hue, reducing chroma until the color fits
+ */
+
+/**
+ * Tolerance for channels that end up just outside 0-1 through rounding
+ */
+const GAMUT_EPSILON = 0.000075;
+
+/**
+ * Just noticeable difference in OKLab used by the mapping algorithm
+ */
+const JND = 0.02;
+
+/**
+ * Chroma precision at which the binary search stops
+ */
+const CHROMA_EPSILON = 0.0001;
+
+/**
+ * Gamuts from smallest to largest, used to pick where a color fits
+ */
+const GAMUTS_BY_SIZE: PreciseColorSpace[] = ["srgb", "display-p3", "rec2020"];
+
+/**
+ * Display names of the precise color spaces
+ */
+export const PRECISE_COLOR_SPACE_LABELS: Record<PreciseColorSpace, string> = {
+  srgb: "sRGB",
+  "display-p3": "Display P3",
+  rec2020: "Rec. 2020",
+};
+
+/**
+ * Checks whether RGB channels lie inside their gamut (0-1)
+ */
+function isWithinUnitRange(channels: Vector3): boolean {
+  return channels.every(
+    (value) => value >= -GAMUT_EPSILON && value <= 1 + GAMUT_EPSILON,
+  );
+}
+
+/**
+ * Clamps channels to 0-1
+ */
+function clip(channels: Vector3): Vector3 {
+  return channels.map((value) => Math.max(0, Math.min(1, value))) as Vector3;
+}
+
+/**
+ * Euclidean distance in OKLab, the deltaE used by CSS gamut mapping
+ */
+function deltaEOK(first: Vector3, second: Vector3): number {
+  return Math.hypot(
+    first[0] - second[0],
+    first[1] - second[1],
+    first[2] - second[2],
+  );
+}
+
+/**
+ * Checks whether an unbounded sRGB color is displayable in the given gamut
+ */
+export function isInGamut(srgb: Vector3, space: PreciseColorSpace): boolean {
+  return isWithinUnitRange(convertFromSrgb(space, srgb));
+}
+
+/**
+ * Maps an unbounded sRGB color into the sRGB gamut (CSS Color 4 algorithm)
+ * Binary-searches the OKLCH chroma, accepting a clipped color once it is
+ * within a just noticeable difference of the reduced-chroma color
+ */
+export function gamutMapToSrgb(srgb: Vector3): Vector3 {
+  if (isWithinUnitRange(srgb)) {
+    return clip(srgb);
+  }
+
+  const [lightness, chroma, hue] = convertFromSrgb("oklch", srgb);
+
+  // Out-of-range lightness maps to the gamut's white or black
+  if (lightness >= 1) {
+    return [1, 1, 1];
+  }
+  if (lightness <= 0) {
+    return [0, 0, 0];
+  }
+
+  const toSrgb = (c: number) => convertToSrgb("oklch", [lightness, c, hue]);
+  const distance = (candidate: Vector3, clipped: Vector3) =>
+    deltaEOK(
+      convertFromSrgb("oklab", candidate),
+      convertFromSrgb("oklab", clipped),
+    );
+
+  let clipped = clip(srgb);
+  if (distance(srgb, clipped) < JND) {
+    return clipped;
+  }
+
+  let min = 0;
+  let max = chroma;
+  let minInGamut = true;
+
+  while (max - min > CHROMA_EPSILON) {
+    const current = (min + max) / 2;
+    const candidate = toSrgb(current);
+
+    if (minInGamut && isWithinUnitRange(candidate)) {
+      min = current;
+      continue;
+    }
+
+    clipped = clip(candidate);
+    const error = distance(candidate, clipped);
+
+    if (error < JND) {
+      if (JND - error < CHROMA_EPSILON) {
+        return clipped;
+      }
+      minInGamut = false;
+      min = current;
+    } else {
+      max = current;
+    }
+  }
+
+  return clipped;
+}
+
+/**
+ * Smallest of sRGB, Display P3 and Rec. 2020 that contains the color
+ * Colors beyond Rec. 2020 report Rec. 2020 and are clipped when stored
+ */
+export function getSmallestGamut(srgb: Vector3): PreciseColorSpace {
+  return (
+    GAMUTS_BY_SIZE.find((space) => isInGamut(srgb, space)) ??
+    GAMUTS_BY_SIZE[GAMUTS_BY_SIZE.length - 1]
+  );
+}
+
+/**
+ * Converts a precise color to unbounded sRGB channels
+ */
+export function preciseColorToSrgb(precise: PreciseColor): Vector3 {
+  return convertToSrgb(precise.space, precise.coords);
+}
+
+/**
+ * Checks whether a precise color lies outside the sRGB gamut
+ */
+export function isOutOfSrgbGamut(precise?: PreciseColor): boolean {
+  return (
+    precise !== undefined && !isInGamut(preciseColorToSrgb(precise), "srgb")
+  );
+}
+
+/**
+ * Builds the 8-bit sRGB fallback of a precise color through gamut mapping
+ */
+export function getSrgbFallback(precise: PreciseColor, alpha?: number): RGB {
+  const [r, g, b] = gamutMapToSrgb(preciseColorToSrgb(precise)).map((value) =>
+    Math.round(value * 255),
+  );
+
+  return alpha !== undefined && alpha < 1 ? { r, g, b, a: alpha } : { r, g, b };
+}
+
+/**
+ * Expresses an unbounded sRGB color in the smallest gamut that holds it
+ * Colors beyond the largest gamut keep their channels outside 0-1 rather
+ * than being clipped
+ */
+export function toPreciseColor(srgb: Vector3): PreciseColor {
+  const space = getSmallestGamut(srgb);
+  const coords = convertFromSrgb(space, srgb);
+
+  // Only rounding noise is clipped for colors inside the gamut
+  return { space, coords: isInGamut(srgb, space) ? clip(coords) : coords };
+}
@@ -0,0 +1,128 @@
+import { RGB } from "../types";
+import {
+  Vector3,
+  convertFromSrgb,
+  convertToSrgb,
+  normalizeHue,
+} from "./colorSpaceUtils";
+import { gamutMapToSrgb } from "./gamutUtils";
+
+/**
+ * Color harmonies: colors at fixed angles from a base color on a hue wheel
+ * The HSL wheel matches classic color pickers; the OKLCH wheel keeps
+ * perceived lightness and chroma equal across the harmony
+ */
+
+/**
+ * Hue wheel the harmony is computed on
+ */
+export type HarmonyMode = "hsl" | "oklch";
+
+export const HARMONY_MODE_LABELS: Record<HarmonyMode, string> = {
+  hsl: "HSL Wheel",
+  oklch: "OKLCH Wheel",
+};
+
+/**
+ * Harmony schemes
+ */
+export type HarmonyScheme =
+  | "complementary"
+  | "analogous"
+  | "triadic"
+  | "split-complementary"
+  | "tetradic"
+  | "square";
+
+export const HARMONY_SCHEMES: HarmonyScheme[] = [
+  "complementary",
+  "analogous",
+  "triadic",
+  "split-complementary",
+  "tetradic",
+  "square",
+];
+
+export const HARMONY_SCHEME_LABELS: Record<HarmonyScheme, string> = {
+  complementary: "Complementary",
+  analogous: "Analogous",
+  triadic: "Triadic",
+  "split-complementary": "Split Complementary",
+  tetradic: "Tetradic",
+  square: "Square",
+};
+
+/**
+ * Hue offsets in degrees of the colors each scheme adds to the base color
+ * Tetradic is the rectangle of two complementary pairs 60° apart
+ */
+export const HARMONY_HUE_OFFSETS: Record<HarmonyScheme, number[]> = {
+  complementary: [180],
+  analogous: [-30, 30],
+  triadic: [120, 240],
+  "split-complementary": [150, 210],
+  tetradic: [60, 180, 240],
+  square: [90, 180, 270],
+};
+
+/**
+ * Color of a harmony
+ */
+export interface HarmonyColor {
+  rgb: RGB;
+  hueOffset: number; // Degrees from the base color
+}
+
+/**
+ * Rotates the hue of a color on the given wheel, keeping alpha
+ * Rotated OKLCH colors that leave the sRGB gamut are gamut mapped
+ */
+export function rotateHue(
+  rgb: RGB,
+  degrees: number,
+  mode: HarmonyMode = "hsl",
+): RGB {
+  const values = convertFromSrgb(mode, [rgb.r / 255, rgb.g / 255, rgb.b / 255]);
+
+  // HSL keeps the hue first, OKLCH last
+  const hueIndex = mode === "hsl" ? 0 : 2;
+  const rotated = values.map((value, index) =>
+    index === hueIndex ? normalizeHue(value + degrees) : value,
+  ) as Vector3;
+  const [r, g, b] = gamutMapToSrgb(convertToSrgb(mode, rotated)).map(
+    (channel) => Math.round(channel * 255),
+  );
+
+  return rgb.a !== undefined ? { r, g, b, a: rgb.a } : { r, g, b };
+}
+
+/**
+ * Generates the colors a harmony scheme adds to a base color
+ * Achromatic colors (grays) have no hue, so every harmony color equals the base
+ */
+export function generateHarmony(
+  rgb: RGB,
+  scheme: HarmonyScheme,
+  mode: HarmonyMode = "hsl",
+): HarmonyColor[] {
+  return HARMONY_HUE_OFFSETS[scheme].map((hueOffset) => ({
+    rgb: rotateHue(rgb, hueOffset, mode),
+    hueOffset,
+  }));
+}
+
+/**
+ * Names a harmony color after its base color, e.g. "Brand Triadic +120°"
+ */
+export function formatHarmonyColorName(
+  baseName: string,
+  scheme: HarmonyScheme,
+  hueOffset: number,
+): string {
+  const label = HARMONY_SCHEME_LABELS[scheme];
+  const offset = `${hueOffset > 0 ? "+" : ""}${hueOffset}°`;
+
+  return HARMONY_HUE_OFFSETS[scheme].length === 1
+    ? `${baseName.trim()} ${label}`
+    : `${baseName.trim()} ${label} ${offset}`;
+}
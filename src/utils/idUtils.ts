@@ -0,0 +1,33 @@
+import { randomUUID } from "crypto";
+
+/**
+ * Identifier utilities for persisted entities
+ */
+
+/**
+ * Generates a unique identifier, optionally prefixed (e.g., "palette")
+ */
+export function generateId(prefix?: string): string {
+  const id = randomUUID();
+  return prefix ? `${prefix}-${id}` : id;
+}
+
+/**
+ * Ensures every item carries an id that is unique within `usedIds`
+ * Existing ids are kept; missing or already-taken ids are replaced
+ * The set is updated in place so it can be shared across several lists
+ */
+export function ensureUniqueIds<T extends { id?: string }>(
+  items: T[],
+  usedIds: Set<string> = new Set(),
+): Array<T & { id: string }> {
+  return items.map((item) => {
+    const id =
+      typeof item.id === "string" && item.id.length > 0 && !usedIds.has(item.id)
+        ? item.id
+        : generateId();
+
+    usedIds.add(id);
+    return { ...item, id };
+  });
+}
@@ -0,0 +1,297 @@
+import { MemoryStorage, StorageBackend, setStorage } from "../services/storage";
+import { ColorEntry } from "../types";
+import {
+  describeImportNearDuplicates,
+  exportToDesignTokens,
+  exportToGPL,
+  formatGimpPalette,
+  importSwatchFile,
+  parseGimpPalette,
+} from "./importExportUtils";
+import { encodeAse, rgbToAseSwatch } from "./aseUtils";
+
+// The Raycast runtime is not available in tests
+jest.mock(
+  "@raycast/api",
+  () => ({
+    getPreferenceValues: () => ({}),
+    environment: { supportPath: "/tmp/mycolor-test" },
+  }),
+  { virtual: true },
+);
+
+const color = (name: string, r: number, g: number, b: number): ColorEntry => ({
+  id: name,
+  index: 0,
+  name,
+  rgb: { r, g, b },
+});
+
+describe("importSwatchFile", () => {
+  let storage: MemoryStorage;
+  let previous: StorageBackend;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    previous = setStorage(storage);
+  });
+
+  afterEach(() => {
+    setStorage(previous);
+  });
+
+  it("reads a MyColor JSON export into a palette named after the file", async () => {
+    await storage.write(
+      "/imports/brand.json",
+      JSON.stringify({
+        version: "1.0.0",
+        colors: [color("Red", 255, 0, 0), { name: "Blue", value: "#0000ff" }],
+      }),
+    );
+
+    const {
+      palettes: [palette, ...rest],
+      skipped,
+    } = await importSwatchFile("/imports/brand.json");
+
+    expect(rest).toHaveLength(0);
+    expect(skipped).toEqual([]);
+    expect(palette.name).toBe("brand");
+    expect(palette.colors.map(({ name, rgb }) => ({ name, rgb }))).toEqual([
+      { name: "Red", rgb: { r: 255, g: 0, b: 0 } },
+      { name: "Blue", rgb: { r: 0, g: 0, b: 255 } },
+    ]);
+  });
+
+  it("reports every JSON entry it leaves out with the reason", async () => {
+    await storage.write(
+      "/imports/mixed.json",
+      JSON.stringify([
+        "#ff0000",
+        "#ggg",
+        { name: "", rgb: { r: 0, g: 0, b: 255 } },
+        { name: "Bad", index: 0, rgb: { r: 300, g: 0, b: 0 } },
+      ]),
+    );
+
+    const { palettes, skipped } = await importSwatchFile("/imports/mixed.json");
+
+    expect(palettes[0].colors.map((color) => color.name)).toEqual(["#ff0000"]);
+    expect(skipped).toEqual([
+      expect.stringMatching(/^Color 2: /),
+      expect.stringMatching(/^Color 3: /),
+      expect.stringMatching(/^Color 4: RGB values/),
+    ]);
+  });
+
+  it("exports imported design tokens back with their groups and aliases", async () => {
+    const source = {
+      primitives: {
+        $type: "color",
+        blue: {
+          "500": {
+            $value: "#3b82f6",
+            $extensions: { "com.raycast.mycolor": { id: "blue-500" } },
+          },
+        },
+      },
+      semantic: {
+        $type: "color",
+        action: {
+          primary: {
+            $value: "{primitives.blue.500}",
+            $description: "Buttons and links",
+            $extensions: { "com.raycast.mycolor": { id: "primary" } },
+          },
+        },
+      },
+    };
+    await storage.write("/imports/brand.tokens.json", JSON.stringify(source));
+
+    const { palettes } = await importSwatchFile("/imports/brand.tokens.json");
+    await exportToDesignTokens(
+      palettes.map((palette) => ({ id: palette.name, ...palette })),
+      "/exports/brand.tokens.json",
+    );
+
+    expect(
+      JSON.parse(await storage.read("/exports/brand.tokens.json")),
+    ).toEqual(source);
+  });
+
+  it("skips ASE swatches in unsupported color models and reports them", async () => {
+    const data = Buffer.from(
+      encodeAse({
+        swatches: [
+          rgbToAseSwatch("Red", { r: 255, g: 0, b: 0 }),
+          rgbToAseSwatch("Odd", { r: 0, g: 255, b: 0 }),
+        ],
+        groups: [],
+      }),
+    );
+    // Give the second swatch a color model MyColor cannot read
+    const oddModel = data.lastIndexOf("RGB ", undefined, "latin1");
+    data.write("XYZ ", oddModel, "latin1");
+    await storage.writeBinary("/imports/mixed.ase", data);
+
+    const { palettes, skipped } = await importSwatchFile("/imports/mixed.ase");
+
+    expect(palettes).toEqual([
+      expect.objectContaining({
+        name: "mixed",
+        colors: [expect.objectContaining({ name: "Red" })],
+      }),
+    ]);
+    expect(skipped).toEqual(['Unsupported color model "XYZ" in "Odd"']);
+  });
+  it("does not turn an ASE group of skipped swatches into a palette", async () => {
+    const data = Buffer.from(
+      encodeAse({
+        swatches: [rgbToAseSwatch("Red", { r: 255, g: 0, b: 0 })],
+        groups: [
+          {
+            name: "Odd Group",
+            swatches: [rgbToAseSwatch("Odd", { r: 0, g: 255, b: 0 })],
+          },
+        ],
+      }),
+    );
+    const oddModel = data.lastIndexOf("RGB ", undefined, "latin1");
+    data.write("XYZ ", oddModel, "latin1");
+    await storage.writeBinary("/imports/groups.ase", data);
+
+    const { palettes, skipped } = await importSwatchFile("/imports/groups.ase");
+
+    expect(palettes.map((palette) => palette.name)).toEqual(["groups"]);
+    expect(skipped).toEqual(['Unsupported color model "XYZ" in "Odd"']);
+  });
+});
+
+describe("GIMP palettes", () => {
+  it("reads headers, comments and names with spaces", () => {
+    const { palette, errors } = parseGimpPalette(
+      [
+        "\uFEFFGIMP Palette",
+        "name:  Brand Colors",
+        "COLUMNS: 4",
+        "# Exported by hand",
+        "",
+        "255   0\t0\tPrimary Red",
+        "  0 150 255 Sky  Blue ",
+        "  0   0   0",
+      ].join("\r\n"),
+    );
+
+    expect(errors).toEqual([]);
+    expect(palette).toEqual({
+      name: "Brand Colors",
+      columns: 4,
+      lines: [
+        { kind: "comment", text: " Exported by hand" },
+        { kind: "color", name: "Primary Red", rgb: { r: 255, g: 0, b: 0 } },
+        { kind: "color", name: "Sky  Blue", rgb: { r: 0, g: 150, b: 255 } },
+        { kind: "color", name: "", rgb: { r: 0, g: 0, b: 0 } },
+      ],
+    });
+  });
+
+  it("reports malformed lines and keeps reading", () => {
+    const { palette, errors } = parseGimpPalette(
+      "GIMP Palette\nColumns: wide\n256 0 0 Too Bright\nred\n1 2 3 Fine\n",
+    );
+
+    expect(palette.columns).toBeUndefined();
+    expect(palette.lines).toEqual([
+      { kind: "color", name: "Fine", rgb: { r: 1, g: 2, b: 3 } },
+    ]);
+    expect(errors).toEqual([
+      'Line 2: invalid column count "wide"',
+      'Line 3: expected "R G B Name" with values 0-255',
+      'Line 4: expected "R G B Name" with values 0-255',
+    ]);
+  });
+
+  it("refuses content without the header", () => {
+    expect(() => parseGimpPalette("\n\nName: Brand\n0 0 0 Black")).toThrow(
+      'Missing "GIMP Palette" header',
+    );
+  });
+
+  it("formats headers, comments and aligned channels the way GIMP does", () => {
+    const formatted = formatGimpPalette({
+      name: "Brand\nColors",
+      columns: 2,
+      lines: [
+        { kind: "comment", text: " Primary" },
+        { kind: "color", name: "Sky Blue", rgb: { r: 0, g: 150, b: 255 } },
+        { kind: "color", name: "", rgb: { r: 7, g: 77, b: 177 } },
+      ],
+    });
+
+    expect(formatted).toBe(
+      [
+        "GIMP Palette",
+        "Name: Brand Colors",
+        "Columns: 2",
+        "# Primary",
+        "  0 150 255\tSky Blue",
+        "  7  77 177",
+        "",
+      ].join("\n"),
+    );
+    expect(parseGimpPalette(formatted).palette).toEqual({
+      name: "Brand Colors",
+      columns: 2,
+      lines: [
+        { kind: "comment", text: " Primary" },
+        { kind: "color", name: "Sky Blue", rgb: { r: 0, g: 150, b: 255 } },
+        { kind: "color", name: "", rgb: { r: 7, g: 77, b: 177 } },
+      ],
+    });
+  });
+
+  it("imports an exported palette under its Name header", async () => {
+    const previous = setStorage(new MemoryStorage());
+
+    try {
+      await exportToGPL(
+        [color("Sky Blue", 0, 150, 255), color("Deep Red", 139, 0, 0)],
+        "/exports/brand.gpl",
+        "Brand Colors",
+        ["Made for the website"],
+      );
+
+      const { palettes, skipped } =
+        await importSwatchFile("/exports/brand.gpl");
+
+      expect(skipped).toEqual([]);
+      expect(palettes).toHaveLength(1);
+      expect(palettes[0].name).toBe("Brand Colors");
+      expect(
+        palettes[0].colors.map(({ name, rgb }) => ({ name, rgb })),
+      ).toEqual([
+        { name: "Sky Blue", rgb: { r: 0, g: 150, b: 255 } },
+        { name: "Deep Red", rgb: { r: 139, g: 0, b: 0 } },
+      ]);
+    } finally {
+      setStorage(previous);
+    }
+  });
+});
+
+describe("describeImportNearDuplicates", () => {
+  it("reports colors that look like existing or earlier imported ones", () => {
+    const existing = [color("Red", 255, 0, 0)];
+    const imported = [
+      color("Almost Red", 254, 1, 0),
+      color("Blue", 0, 0, 255),
+      color("Also Blue", 0, 1, 254),
+    ];
+
+    const described = describeImportNearDuplicates(imported, existing);
+
+    expect(described).toHaveLength(2);
+    expect(described[0]).toMatch(/^"Almost Red" looks like "Red"/);
+    expect(described[1]).toMatch(/^"Also Blue" looks like "Blue"/);
+  });
+});
@@ -1,7 +1,61 @@
-import { promises as fs } from "fs";
-import { ColorEntry } from "../types";
+import { basename, extname } from "path";
+import { ColorEntry, Palette, RGB, getColorEntryIssue } from "../types";
 import { validateColorEntry } from "../validators/colorValidators";
-import { FileOperationError } from "../utils/errorUtils";
+import {
+  ColorParseError,
+  FileOperationError,
+  MaxColorsReachedError,
+  UnsupportedSchemaVersionError,
+} from "../utils/errorUtils";
+import { ensureUniqueIds } from "./idUtils";
+import {
+  COLOR_NAME_MAX_LENGTH,
+  EXPORT_FORMAT_VERSION,
+} from "../constants/appConstants";
+import { assertSupportedFormatVersion } from "../services/colorService/schemaMigrations";
+import { assertWithinColorLimit } from "./settingsUtils";
+import { getStorage } from "../services/storage";
+import {
+  formatAsColorFunction,
+  formatAsHex,
+  formatAsRgb,
+} from "./colorFormatUtils";
+import { parseColorValue } from "./colorParserUtils";
+import { isOutOfSrgbGamut } from "./gamutUtils";
+import { findNearDuplicates, formatDeltaE } from "./colorDifferenceUtils";
+import { WcagLevel } from "./contrastUtils";
+import {
+  ReportFormat,
+  createAccessibilityReport,
+} from "./accessibilityReportUtils";
+import {
+  aseSwatchToRgb,
+  decodeAse,
+  encodeAse,
+  isAseFile,
+  rgbToAseSwatch,
+} from "./aseUtils";
+import {
+  acoColorToRgb,
+  decodeAco,
+  encodeAco,
+  isAcoFile,
+  rgbToAcoColor,
+} from "./acoUtils";
+import {
+  createDesignTokens,
+  isDesignTokenFile,
+  parseDesignTokens,
+} from "./designTokenUtils";
+import {
+  TailwindColorGroup,
+  TailwindThemeFormat,
+  createTailwindColors,
+  createTailwindPaletteColors,
+  formatTailwindConfig,
+  formatTailwindTheme,
+  toColorSlug,
+} from "./tailwindUtils";
 
 /**
  * Export format for color palettes
@@ -24,13 +78,13 @@ export async function exportColorPalette(
   try {
     const exportData: ColorPaletteExport = {
       name: paletteName,
-      version: "1.0.0",
+      version: EXPORT_FORMAT_VERSION,
       colors: colors.map((color, index) => ({ ...color, index })),
       exportedAt: new Date().toISOString(),
     };
 
     const jsonData = JSON.stringify(exportData, null, 2);
-    await fs.writeFile(filePath, jsonData, "utf-8");
+    await getStorage().write(filePath, jsonData);
   } catch (error) {
     throw new FileOperationError(
       `Failed to export color palette: ${error}`,
@@ -40,47 +94,269 @@ export async function exportColorPalette(
 }
 
 /**
- * Imports color palette from JSON file
+ * Keys that may hold a CSS color string instead of an rgb object
+ */
+const COLOR_STRING_KEYS = ["value", "color", "hex"];
+
+/**
+ * Turns an imported item into a color entry candidate
+ * Accepts entries with an rgb object, entries with a CSS color string under
+ * "value", "color" or "hex", and bare color strings (named after the string)
+ * Throws ColorParseError for malformed color strings
+ */
+function resolveImportedColor(item: unknown): unknown {
+  if (typeof item === "string") {
+    return {
+      name: item.trim().slice(0, COLOR_NAME_MAX_LENGTH),
+      index: 0,
+      ...parseColorValue(item),
+    };
+  }
+
+  if (!item || typeof item !== "object" || "rgb" in item) {
+    return item;
+  }
+
+  const record = item as Record<string, unknown>;
+  const key = COLOR_STRING_KEYS.find((k) => typeof record[k] === "string");
+
+  if (!key) {
+    return item;
+  }
+
+  const value = record[key] as string;
+  const color: Record<string, unknown> = {
+    index: 0,
+    name: value.trim().slice(0, COLOR_NAME_MAX_LENGTH),
+    ...record,
+    ...parseColorValue(value),
+  };
+  delete color[key];
+
+  return color;
+}
+
+/**
+ * Named color read from a swatch or token file
+ */
+type SwatchColor = Pick<ColorEntry, "name" | "rgb"> &
+  Partial<Pick<ColorEntry, "id" | "precise" | "description" | "token">>;
+
+/**
+ * Turns a named color read from a swatch file into a color entry candidate
+ * Swatches without a name are named after their hex value
+ */
+function toSwatchCandidate({
+  name,
+  rgb,
+  ...optional
+}: SwatchColor): Omit<ColorEntry, "id"> & { id?: string } {
+  const candidate = {
+    index: 0,
+    name: (name.trim() || formatAsHex(rgb)).slice(0, COLOR_NAME_MAX_LENGTH),
+    rgb,
+  };
+
+  // Leave out optional values that are not set
+  return Object.assign(
+    candidate,
+    Object.fromEntries(
+      Object.entries(optional).filter(([, value]) => value !== undefined),
+    ),
+  );
+}
+
+/**
+ * Reads the colors of a Photoshop swatch file; colors in color spaces that
+ * cannot be converted are left out and described in `skipped`
+ */
+function readAcoColors(data: Uint8Array): {
+  colors: SwatchColor[];
+  skipped: string[];
+} {
+  const colors: SwatchColor[] = [];
+  const skipped: string[] = [];
+
+  decodeAco(data).forEach((color, position) => {
+    if (color) {
+      colors.push({ name: color.name, rgb: acoColorToRgb(color) });
+    } else {
+      skipped.push(`Color ${position + 1} is in an unsupported color space`);
+    }
+  });
+
+  return { colors, skipped };
+}
+
+/**
+ * Reads the colors of a swatch file (ACO, ASE with groups flattened, or GIMP
+ * palette) and what was skipped; returns undefined if the data is not a
+ * known swatch format
+ */
+function decodeSwatchColors(
+  data: Uint8Array,
+): { colors: Omit<ColorEntry, "id">[]; skipped: string[] } | undefined {
+  if (isAseFile(data)) {
+    const document = decodeAse(data);
+    return {
+      colors: [
+        ...document.swatches,
+        ...document.groups.flatMap((group) => group.swatches),
+      ].map((swatch) =>
+        toSwatchCandidate({ name: swatch.name, rgb: aseSwatchToRgb(swatch) }),
+      ),
+      skipped: document.skipped,
+    };
+  }
+
+  const read = isAcoFile(data)
+    ? readAcoColors(data)
+    : isGimpPalette(data)
+      ? readGimpPaletteColors(Buffer.from(data).toString("utf-8"))
+      : undefined;
+
+  return read
+    ? { colors: read.colors.map(toSwatchCandidate), skipped: read.skipped }
+    : undefined;
+}
+
+/**
+ * Describes why an imported color candidate cannot be stored, or returns
+ * null if it can
+ */
+function getImportedColorIssue(candidate: unknown): string | null {
+  if (validateColorEntry(candidate as ColorEntry)) {
+    return null;
+  }
+
+  return (
+    getColorEntryIssue(candidate) ??
+    `Name is blank or longer than ${COLOR_NAME_MAX_LENGTH} characters`
+  );
+}
+
+/**
+ * Describes imported colors that are near-identical to an existing color or
+ * to an earlier color of the same import
+ */
+export function describeImportNearDuplicates(
+  importedColors: ColorEntry[],
+  existingColors: ColorEntry[] = [],
+): string[] {
+  return importedColors.flatMap((color, position) => {
+    const [closest] = findNearDuplicates(color.rgb, [
+      ...existingColors,
+      ...importedColors.slice(0, position),
+    ]);
+
+    return closest
+      ? [
+          `"${color.name}" looks like "${closest.color.name}" (${formatDeltaE(closest.deltaE)})`,
+        ]
+      : [];
+  });
+}
+
+/**
+ * Imports color palette from JSON file (palette export, color array or DTCG
+ * design tokens) or from a Photoshop (.aco), Adobe Swatch Exchange (.ase) or
+ * GIMP (.gpl) file, detected from the file content
+ * Color ids from the file are kept; ids already in `existingIds` are replaced
+ * Colors that cannot be read are left out and described in `skipped`
  */
 export async function importColorPalette(
   filePath: string,
-): Promise<ColorEntry[]> {
+  existingIds: Iterable<string> = [],
+): Promise<{ colors: ColorEntry[]; skipped: string[] }> {
   try {
-    const fileContent = await fs.readFile(filePath, "utf-8");
-    const importData = JSON.parse(fileContent);
+    const fileContent = await getStorage().readBinary(filePath);
 
-    // Validate import data structure
-    if (!importData || typeof importData !== "object") {
-      throw new Error("Invalid file format");
-    }
-
-    // Handle different import formats
+    // Handle different import formats, remembering why colors were skipped
     let colors: unknown[];
+    const parseErrors: string[] = [];
+    const swatches = decodeSwatchColors(fileContent);
 
-    if (Array.isArray(importData)) {
-      // Direct array of colors
-      colors = importData;
-    } else if (importData.colors && Array.isArray(importData.colors)) {
-      // Palette export format
-      colors = importData.colors;
+    if (swatches) {
+      // Swatch file, recognized by its leading bytes
+      colors = swatches.colors;
+      parseErrors.push(...swatches.skipped);
     } else {
-      throw new Error("No valid color data found in file");
+      const importData = JSON.parse(Buffer.from(fileContent).toString("utf-8"));
+
+      // Validate import data structure
+      if (!importData || typeof importData !== "object") {
+        throw new Error("Invalid file format");
+      }
+
+      if (Array.isArray(importData)) {
+        // Direct array of colors
+        colors = importData;
+      } else if (importData.colors && Array.isArray(importData.colors)) {
+        // Palette export format, refuse exports from a newer format version
+        assertSupportedFormatVersion(importData.version, EXPORT_FORMAT_VERSION);
+        colors = importData.colors;
+      } else if (isDesignTokenFile(importData)) {
+        // Design token file, palettes flattened
+        const { palettes, errors } = parseDesignTokens(importData, "");
+        colors = palettes
+          .flatMap((palette) => palette.colors)
+          .map(toSwatchCandidate);
+        parseErrors.push(...errors);
+      } else {
+        throw new Error("No valid color data found in file");
+      }
     }
 
-    // Validate and filter colors
-    const validColors = colors
-      .filter((item: unknown) => validateColorEntry(item as ColorEntry))
-      .map((color, index) => ({ ...(color as ColorEntry), index }));
+    // Parse color strings and validate the entries, remembering why each
+    // skipped one was left out
+    const validColors = ensureUniqueIds(
+      colors
+        .flatMap((item, position) => {
+          let issue: string | null;
+          let candidate: unknown;
+
+          try {
+            candidate = resolveImportedColor(item);
+            issue = getImportedColorIssue(candidate);
+          } catch (error) {
+            if (!(error instanceof ColorParseError)) {
+              throw error;
+            }
+            issue = error.message;
+          }
+
+          if (issue) {
+            parseErrors.push(`Color ${position + 1}: ${issue}`);
+            return [];
+          }
+          return [candidate as ColorEntry];
+        })
+        .map((color, index) => ({ ...color, index })),
+      new Set(existingIds),
+    );
 
     if (validColors.length === 0) {
-      throw new Error("No valid colors found in import file");
+      throw new Error(
+        parseErrors.length > 0
+          ? `No valid colors found in import file. ${parseErrors.slice(0, 3).join("; ")}`
+          : "No valid colors found in import file",
+      );
     }
 
-    return validColors;
+    // Reject oversized imports instead of silently dropping colors
+    assertWithinColorLimit(validColors.length);
+
+    return { colors: validColors, skipped: parseErrors };
   } catch (error) {
     if (error instanceof SyntaxError) {
       throw new FileOperationError("Invalid JSON file format", filePath);
     }
+    if (
+      error instanceof UnsupportedSchemaVersionError ||
+      error instanceof MaxColorsReachedError
+    ) {
+      throw error;
+    }
     throw new FileOperationError(
       `Failed to import color palette: ${error}`,
       filePath,
@@ -89,23 +365,73 @@ export async function importColorPalette(
 }
 
 /**
- * Exports colors to Adobe Swatch Exchange (ASE) format (simplified)
- * Note: This is a basic implementation for demonstration
+ * Colors read from a swatch file, grouped into the palette they belong to
+ */
+export interface ImportedPalette {
+  name: string;
+  colors: ColorEntry[];
+}
+
+/**
+ * Palettes read from a swatch file, with the colors or lines that could not
+ * be read (e.g. swatches in an unsupported color model)
+ */
+export interface ImportedSwatches {
+  palettes: ImportedPalette[];
+  skipped: string[];
+}
+
+/**
+ * Turns named colors read from a swatch file into validated color entries
+ * Ids are unique against `usedIds`,
+ * which ensureUniqueIds extends with the new ids; why each invalid color was
+ * left out is added to `skipped`
+ */
+function toImportedColors(
+  items: SwatchColor[],
+  usedIds: Set<string>,
+  skipped: string[],
+): ColorEntry[] {
+  const colors = ensureUniqueIds(
+    items
+      .map(toSwatchCandidate)
+      .flatMap((candidate) => {
+        const issue = getImportedColorIssue(candidate);
+
+        if (issue) {
+          skipped.push(`"${candidate.name}": ${issue}`);
+          return [];
+        }
+        return [candidate as ColorEntry];
+      })
+      .map((color, index) => ({ ...color, index })),
+    usedIds,
+  );
+
+  assertWithinColorLimit(colors.length);
+
+  return colors;
+}
+
+/**
+ * Exports colors to a binary Adobe Swatch Exchange (ASE) file
+ * Colors are written as global RGB swatches, inside a group if one is named
  */
 export async function exportToASE(
   colors: ColorEntry[],
   filePath: string,
+  groupName?: string,
 ): Promise<void> {
+  const swatches = colors.map((color) => rgbToAseSwatch(color.name, color.rgb));
+
   try {
-    // Create a simple text-based ASE-like format for demonstration
-    const aseContent = colors
-      .map((color) => {
-        const { r, g, b } = color.rgb;
-        return `${color.name}\t${r / 255}\t${g / 255}\t${b / 255}\tRGB`;
-      })
-      .join("\n");
+    const aseContent = encodeAse(
+      groupName
+        ? { swatches: [], groups: [{ name: groupName, swatches }] }
+        : { swatches, groups: [] },
+    );
 
-    await fs.writeFile(filePath, aseContent, "utf-8");
+    await getStorage().writeBinary(filePath, aseContent);
   } catch (error) {
     throw new FileOperationError(
       `Failed to export ASE file: ${error}`,
@@ -114,28 +440,514 @@ export async function exportToASE(
   }
 }
 
+/**
+ * Exports palettes to one ASE file with a swatch group per palette
+ */
+export async function exportPalettesToASE(
+  palettes: Palette[],
+  filePath: string,
+): Promise<void> {
+  try {
+    const aseContent = encodeAse({
+      swatches: [],
+      groups: palettes.map((palette) => ({
+        name: palette.name,
+        swatches: palette.colors.map((color) =>
+          rgbToAseSwatch(color.name, color.rgb),
+        ),
+      })),
+    });
+
+    await getStorage().writeBinary(filePath, aseContent);
+  } catch (error) {
+    throw new FileOperationError(
+      `Failed to export ASE file: ${error}`,
+      filePath,
+    );
+  }
+}
+
+/**
+ * Imports an ASE file as one palette per swatch group
+ * Swatches outside any group go into a palette named `defaultName`; RGB, CMYK,
+ * LAB and Gray swatches are converted to sRGB
+ */
+export async function importFromASE(
+  filePath: string,
+  defaultName: string,
+  existingIds: Iterable<string> = [],
+): Promise<ImportedSwatches> {
+  try {
+    const document = decodeAse(await getStorage().readBinary(filePath));
+    const usedIds = new Set(existingIds);
+    const skipped = [...document.skipped];
+    const groups = [
+      { name: defaultName, swatches: document.swatches },
+      ...document.groups,
+    ];
+
+    // Groups whose every swatch was skipped do not become palettes
+    const palettes = groups
+      .map((group) => ({
+        name: group.name.trim() || defaultName,
+        colors: toImportedColors(
+          group.swatches.map((swatch) => ({
+            name: swatch.name,
+            rgb: aseSwatchToRgb(swatch),
+          })),
+          usedIds,
+          skipped,
+        ),
+      }))
+      .filter((palette) => palette.colors.length > 0);
+
+    if (palettes.length === 0) {
+      throw new Error(
+        skipped.length > 0
+          ? `No readable swatches found in ASE file. ${skipped.slice(0, 3).join("; ")}`
+          : "No swatches found in ASE file",
+      );
+    }
+
+    return { palettes, skipped };
+  } catch (error) {
+    if (error instanceof MaxColorsReachedError) {
+      throw error;
+    }
+    throw new FileOperationError(
+      `Failed to import ASE file: ${error}`,
+      filePath,
+    );
+  }
+}
+
+/**
+ * Exports colors to a Photoshop color swatch (.aco) file
+ * Colors are written as 16-bit RGB, with names in the version 2 section
+ */
+export async function exportToACO(
+  colors: ColorEntry[],
+  filePath: string,
+): Promise<void> {
+  try {
+    const acoContent = encodeAco(
+      colors.map((color) => rgbToAcoColor(color.name, color.rgb)),
+    );
+
+    await getStorage().writeBinary(filePath, acoContent);
+  } catch (error) {
+    throw new FileOperationError(
+      `Failed to export ACO file: ${error}`,
+      filePath,
+    );
+  }
+}
+
+/**
+ * Imports a Photoshop color swatch (.aco) file as a palette named `name`
+ * RGB, HSB, CMYK and Lab colors are converted to sRGB; colors in other color
+ * spaces are skipped
+ */
+export async function importFromACO(
+  filePath: string,
+  name: string,
+  existingIds: Iterable<string> = [],
+): Promise<ImportedSwatches> {
+  try {
+    const { colors, skipped } = readAcoColors(
+      await getStorage().readBinary(filePath),
+    );
+    const importedColors = toImportedColors(
+      colors,
+      new Set(existingIds),
+      skipped,
+    );
+
+    if (importedColors.length === 0) {
+      throw new Error("No supported colors found in ACO file");
+    }
+
+    return { palettes: [{ name, colors: importedColors }], skipped };
+  } catch (error) {
+    if (error instanceof MaxColorsReachedError) {
+      throw error;
+    }
+    throw new FileOperationError(
+      `Failed to import ACO file: ${error}`,
+      filePath,
+    );
+  }
+}
+
+/**
+ * Line of a GIMP palette: a comment (text after "#") or a color
+ */
+export type GimpPaletteLine =
+  | { kind: "comment"; text: string }
+  | { kind: "color"; name: string; rgb: RGB };
+
+/**
+ * GIMP/Inkscape palette (.gpl) with its comments kept in place
+ */
+export interface GimpPalette {
+  name?: string;
+  columns?: number;
+  lines: GimpPaletteLine[];
+}
+
+const GIMP_PALETTE_HEADER = "GIMP Palette";
+
+/**
+ * Checks whether a file is a GIMP palette, ignoring a byte order mark and
+ * leading whitespace
+ */
+function isGimpPalette(data: Uint8Array): boolean {
+  return Buffer.from(data.subarray(0, 64))
+    .toString("utf-8")
+    .replace(/^\uFEFF/, "")
+    .trimStart()
+    .toLowerCase()
+    .startsWith(GIMP_PALETTE_HEADER.toLowerCase());
+}
+
+/**
+ * Parses a GIMP palette
+ * Any mix of spaces and tabs separates values, line endings may be LF, CRLF
+ * or CR, and header keys are case-insensitive. Color lines that cannot be
+ * read are reported in `errors` and left out
+ */
+export function parseGimpPalette(content: string): {
+  palette: GimpPalette;
+  errors: string[];
+} {
+  const lines = content.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
+  const headerIndex = lines.findIndex((line) => line.trim() !== "");
+
+  if (
+    headerIndex === -1 ||
+    lines[headerIndex].trim().toLowerCase() !==
+      GIMP_PALETTE_HEADER.toLowerCase()
+  ) {
+    throw new Error(`Missing "${GIMP_PALETTE_HEADER}" header`);
+  }
+
+  const palette: GimpPalette = { lines: [] };
+  const errors: string[] = [];
+
+  lines.slice(headerIndex + 1).forEach((line, position) => {
+    const trimmed = line.trim();
+    const lineNumber = headerIndex + position + 2;
+    const header = trimmed.match(/^(name|columns)\s*:\s*(.*)$/i);
+
+    if (trimmed === "") {
+      return;
+    }
+
+    if (trimmed.startsWith("#")) {
+      palette.lines.push({ kind: "comment", text: trimmed.slice(1) });
+    } else if (header && header[1].toLowerCase() === "name") {
+      palette.name = header[2];
+    } else if (header) {
+      const columns = Number.parseInt(header[2], 10);
+      if (Number.isInteger(columns) && columns >= 0) {
+        palette.columns = columns;
+      } else {
+        errors.push(`Line ${lineNumber}: invalid column count "${header[2]}"`);
+      }
+    } else {
+      const match = trimmed.match(/^(\d+)\s+(\d+)\s+(\d+)(?:\s+(.*))?$/);
+      const [r, g, b] = match ? match.slice(1, 4).map(Number) : [];
+
+      if (!match || [r, g, b].some((channel) => channel > 255)) {
+        errors.push(
+          `Line ${lineNumber}: expected "R G B Name" with values 0-255`,
+        );
+      } else {
+        palette.lines.push({
+          kind: "color",
+          name: (match[4] ?? "").trim(),
+          rgb: { r, g, b },
+        });
+      }
+    }
+  });
+
+  return { palette, errors };
+}
+
+/**
+ * Formats a GIMP palette the way GIMP writes it: headers, then each line,
+ * with channels right-aligned and the name, if any, after a tab
+ */
+export function formatGimpPalette(palette: GimpPalette): string {
+  const pad = (channel: number) => String(Math.round(channel)).padStart(3);
+  const clean = (text: string) => text.replace(/[\r\n]+/g, " ");
+
+  return [
+    GIMP_PALETTE_HEADER,
+    ...(palette.name !== undefined ? [`Name: ${clean(palette.name)}`] : []),
+    ...(palette.columns !== undefined ? [`Columns: ${palette.columns}`] : []),
+    ...palette.lines.map((line) =>
+      line.kind === "comment"
+        ? `#${line.text}`
+        : `${pad(line.rgb.r)} ${pad(line.rgb.g)} ${pad(line.rgb.b)}${line.name ? `\t${clean(line.name)}` : ""}`,
+    ),
+    "",
+  ].join("\n");
+}
+
+/**
+ * Reads the colors of a GIMP palette; malformed lines are described in
+ * `skipped`
+ */
+function readGimpPaletteColors(content: string): {
+  palette: GimpPalette;
+  colors: SwatchColor[];
+  skipped: string[];
+} {
+  const { palette, errors } = parseGimpPalette(content);
+
+  return {
+    palette,
+    skipped: errors,
+    colors: palette.lines.flatMap((line) =>
+      line.kind === "color" ? [{ name: line.name, rgb: line.rgb }] : [],
+    ),
+  };
+}
+
+/**
+ * Exports colors to a GIMP/Inkscape palette (.gpl) file
+ * `comments` are written below the headers; alpha is dropped
+ */
+export async function exportToGPL(
+  colors: ColorEntry[],
+  filePath: string,
+  paletteName: string = "MyColor Palette",
+  comments: string[] = [],
+): Promise<void> {
+  try {
+    const gplContent = formatGimpPalette({
+      name: paletteName,
+      lines: [
+        { kind: "comment", text: "" },
+        ...comments.map((text) => ({
+          kind: "comment" as const,
+          text: ` ${text}`,
+        })),
+        ...colors.map((color) => ({
+          kind: "color" as const,
+          name: color.name,
+          rgb: color.rgb,
+        })),
+      ],
+    });
+
+    await getStorage().write(filePath, gplContent);
+  } catch (error) {
+    throw new FileOperationError(
+      `Failed to export GPL file: ${error}`,
+      filePath,
+    );
+  }
+}
+
+/**
+ * Imports a GIMP/Inkscape palette (.gpl) file as one palette, named after
+ * its Name: header or `defaultName`
+ */
+export async function importFromGPL(
+  filePath: string,
+  defaultName: string,
+  existingIds: Iterable<string> = [],
+): Promise<ImportedSwatches> {
+  try {
+    const { palette, colors, skipped } = readGimpPaletteColors(
+      await getStorage().read(filePath),
+    );
+    const importedColors = toImportedColors(
+      colors,
+      new Set(existingIds),
+      skipped,
+    );
+
+    if (importedColors.length === 0) {
+      throw new Error("No valid colors found in GPL file");
+    }
+
+    return {
+      palettes: [
+        { name: palette.name?.trim() || defaultName, colors: importedColors },
+      ],
+      skipped,
+    };
+  } catch (error) {
+    if (error instanceof MaxColorsReachedError) {
+      throw error;
+    }
+    throw new FileOperationError(
+      `Failed to import GPL file: ${error}`,
+      filePath,
+    );
+  }
+}
+
+/**
+ * Parses a file as JSON design tokens, returning undefined for other content
+ */
+function tryReadDesignTokens(data: Uint8Array): unknown | undefined {
+  try {
+    const json = JSON.parse(Buffer.from(data).toString("utf-8"));
+    return isDesignTokenFile(json) ? json : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Exports palettes to a W3C Design Tokens (DTCG) JSON file
+ * Each palette becomes a group of color tokens; ids, original names and
+ * wide-gamut values are kept in $extensions so the file imports back as is
+ */
+export async function exportToDesignTokens(
+  palettes: Palette[],
+  filePath: string,
+): Promise<void> {
+  try {
+    const jsonData = JSON.stringify(createDesignTokens(palettes), null, 2);
+    await getStorage().write(filePath, jsonData);
+  } catch (error) {
+    throw new FileOperationError(
+      `Failed to export design tokens: ${error}`,
+      filePath,
+    );
+  }
+}
+
+/**
+ * Imports a W3C Design Tokens (DTCG) JSON file as one palette per top-level
+ * group; top-level color tokens go into a palette named `defaultName`
+ */
+export async function importFromDesignTokens(
+  filePath: string,
+  defaultName: string,
+  existingIds: Iterable<string> = [],
+): Promise<ImportedSwatches> {
+  try {
+    const data = JSON.parse(await getStorage().read(filePath));
+    const usedIds = new Set(existingIds);
+
+    const { palettes: tokenPalettes, errors } = parseDesignTokens(
+      data,
+      defaultName,
+    );
+    const palettes = tokenPalettes
+      .map((palette) => ({
+        name: palette.name.trim() || defaultName,
+        colors: toImportedColors(palette.colors, usedIds, errors),
+      }))
+      .filter((palette) => palette.colors.length > 0);
+
+    if (palettes.length === 0) {
+      throw new Error("No color tokens found in design token file");
+    }
+
+    return { palettes, skipped: errors };
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new FileOperationError("Invalid JSON file format", filePath);
+    }
+    if (error instanceof MaxColorsReachedError) {
+      throw error;
+    }
+    throw new FileOperationError(
+      `Failed to import design tokens: ${error}`,
+      filePath,
+    );
+  }
+}
+
+/**
+ * Imports a swatch file as palettes, detecting its format from its content
+ * Palettes without a group name are named after the file; files that are no
+ * swatch or token file are read as a MyColor JSON export into one palette
+ */
+export async function importSwatchFile(
+  filePath: string,
+  existingIds: Iterable<string> = [],
+): Promise<ImportedSwatches> {
+  const defaultName = basename(filePath, extname(filePath)).replace(
+    /\.tokens$/,
+    "",
+  );
+  const header = await getStorage().readBinary(filePath);
+
+  if (isAseFile(header)) {
+    return importFromASE(filePath, defaultName, existingIds);
+  }
+  if (isAcoFile(header)) {
+    return importFromACO(filePath, defaultName, existingIds);
+  }
+  if (isGimpPalette(header)) {
+    return importFromGPL(filePath, defaultName, existingIds);
+  }
+  if (tryReadDesignTokens(header) !== undefined) {
+    return importFromDesignTokens(filePath, defaultName, existingIds);
+  }
+
+  // Anything else is read as a MyColor JSON export or a plain color list
+  const { colors, skipped } = await importColorPalette(filePath, existingIds);
+
+  return { palettes: [{ name: defaultName, colors }], skipped };
+}
+
+/**
+ * Converts a color name into a CSS custom property name
+ */
+function toCssVariableName(name: string): string {
+  return `--color-${toColorSlug(name)}`;
+}
+
 /**
  * Exports colors to CSS custom properties format
+ * Wide-gamut colors get their sRGB fallback first and the precise color()
+ * value inside an @supports block for displays that can show it
  */
 export async function exportToCSS(
   colors: ColorEntry[],
   filePath: string,
 ): Promise<void> {
   try {
-    const cssContent = [
+    const wideGamutColors = colors.filter((color) =>
+      isOutOfSrgbGamut(color.precise),
+    );
+
+    const cssLines = [
       ":root {",
-      ...colors.map((color) => {
-        const { r, g, b } = color.rgb;
-        const varName = color.name
-          .toLowerCase()
-          .replace(/\s+/g, "-")
-          .replace(/[^a-z0-9-]/g, "");
-        return `  --color-${varName}: rgb(${r}, ${g}, ${b});`;
-      }),
+      ...colors.map(
+        (color) =>
+          `  ${toCssVariableName(color.name)}: ${formatAsRgb(color.rgb)};`,
+      ),
       "}",
-    ].join("\n");
+    ];
+
+    if (wideGamutColors.length > 0) {
+      cssLines.push(
+        "",
+        "@supports (color: color(display-p3 1 1 1)) {",
+        "  :root {",
+        ...wideGamutColors.map(
+          (color) =>
+            `    ${toCssVariableName(color.name)}: ${formatAsColorFunction(color.rgb, color.precise)};`,
+        ),
+        "  }",
+        "}",
+      );
+    }
+
+    const cssContent = cssLines.join("\n");
 
-    await fs.writeFile(filePath, cssContent, "utf-8");
+    await getStorage().write(filePath, cssContent);
   } catch (error) {
     throw new FileOperationError(
       `Failed to export CSS file: ${error}`,
@@ -143,3 +955,92 @@ export async function exportToCSS(
     );
   }
 }
+
+/**
+ * Writes Tailwind theme colors as a `tailwind.config` fragment or a
+ * Tailwind v4 `@theme` block
+ */
+async function writeTailwindTheme(
+  theme: TailwindColorGroup,
+  filePath: string,
+  format: TailwindThemeFormat,
+): Promise<void> {
+  const content =
+    format === "css"
+      ? formatTailwindTheme(theme)
+      : formatTailwindConfig(theme, format);
+
+  await getStorage().write(filePath, content);
+}
+
+/**
+ * Exports colors as Tailwind CSS theme colors: a `tailwind.config` fragment
+ * extending `theme.colors`, or a Tailwind v4 `@theme` block
+ * Tonal scale colors are grouped under their base name, e.g. `brand.500`;
+ * colors that would share a Tailwind name are refused rather than renamed
+ */
+export async function exportToTailwind(
+  colors: ColorEntry[],
+  filePath: string,
+  format: TailwindThemeFormat,
+): Promise<void> {
+  try {
+    await writeTailwindTheme(createTailwindColors(colors), filePath, format);
+  } catch (error) {
+    throw new FileOperationError(
+      `Failed to export Tailwind theme: ${error}`,
+      filePath,
+    );
+  }
+}
+
+/**
+ * Exports several palettes as Tailwind CSS theme colors, one group per
+ * palette keyed by its slug (e.g. `brand.primary`, or
+ * `--color-brand-primary` in the `@theme` block)
+ */
+export async function exportPalettesToTailwind(
+  palettes: Palette[],
+  filePath: string,
+  format: TailwindThemeFormat,
+): Promise<void> {
+  try {
+    await writeTailwindTheme(
+      createTailwindPaletteColors(palettes),
+      filePath,
+      format,
+    );
+  } catch (error) {
+    throw new FileOperationError(
+      `Failed to export Tailwind theme: ${error}`,
+      filePath,
+    );
+  }
+}
+
+/**
+ * Exports the palette-wide contrast matrix as a Markdown or HTML report
+ */
+export async function exportAccessibilityReport(
+  colors: ColorEntry[],
+  filePath: string,
+  format: ReportFormat,
+  paletteName: string = "MyColor Palette",
+  minimumLevel?: WcagLevel,
+): Promise<void> {
+  try {
+    const report = createAccessibilityReport(
+      colors,
+      format,
+      paletteName,
+      minimumLevel,
+    );
+
+    await getStorage().write(filePath, report);
+  } catch (error) {
+    throw new FileOperationError(
+      `Failed to export accessibility report: ${error}`,
+      filePath,
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import { RGB } from "../types";
+import { CSS_COLOR_NAMES, XKCD_COLOR_NAMES } from "../constants/colorNames";
+import { Vector3 } from "./colorSpaceUtils";
+import { getLabDeltaE2000, rgbToLab } from "./colorDifferenceUtils";
+import { hexToRgb } from "./colorFormatUtils";
+
+/**
+ * Nearest named color lookup over the bundled CSS and xkcd naming lists
+ * Distances are CIEDE2000, so matches are perceptually closest
+ */
+
+/**
+ * Naming lists a color name can come from
+ */
+export type ColorNameSource = "css" | "xkcd";
+
+export const COLOR_NAME_SOURCE_LABELS: Record<ColorNameSource, string> = {
+  css: "CSS",
+  xkcd: "xkcd",
+};
+
+/**
+ * Color with a name from one of the naming lists
+ */
+export interface NamedColor {
+  name: string;
+  hex: string;
+  rgb: RGB;
+  source: ColorNameSource;
+}
+
+/**
+ * Named color close to a given color
+ */
+export interface NamedColorMatch {
+  namedColor: NamedColor;
+  deltaE: number; // CIEDE2000 difference from the given color
+}
+
+/**
+ * Named colors with their Lab values, built on first use
+ */
+let namedColorIndex: { namedColor: NamedColor; lab: Vector3 }[] | undefined;
+
+/**
+ * Gets the named colors of every list, CSS names first
+ */
+function getNamedColorIndex(): { namedColor: NamedColor; lab: Vector3 }[] {
+  if (!namedColorIndex) {
+    const lists: [ColorNameSource, ReadonlyArray<readonly [string, string]>][] =
+      [
+        ["css", CSS_COLOR_NAMES],
+        ["xkcd", XKCD_COLOR_NAMES],
+      ];
+
+    namedColorIndex = lists.flatMap(([source, names]) =>
+      names.map(([name, hex]) => {
+        const rgb = hexToRgb(hex) as RGB;
+        return { namedColor: { name, hex, rgb, source }, lab: rgbToLab(rgb) };
+      }),
+    );
+  }
+
+  return namedColorIndex;
+}
+
+/**
+ * Finds the named colors closest to a color, closest first
+ * On equal distance CSS names win over xkcd names; alpha is ignored
+ */
+export function findNearestNamedColors(
+  rgb: RGB,
+  limit: number = 5,
+  sources: ColorNameSource[] = ["css", "xkcd"],
+): NamedColorMatch[] {
+  const lab = rgbToLab(rgb);
+
+  return getNamedColorIndex()
+    .filter(({ namedColor }) => sources.includes(namedColor.source))
+    .map(({ namedColor, lab: namedLab }) => ({
+      namedColor,
+      deltaE: getLabDeltaE2000(lab, namedLab),
+    }))
+    .sort((a, b) => a.deltaE - b.deltaE)
+    .slice(0, limit);
+}
+
+/**
+ * Finds the named color closest to a color
+ */
+export function findNearestNamedColor(
+  rgb: RGB,
+  sources?: ColorNameSource[],
+): NamedColorMatch | undefined {
+  return findNearestNamedColors(rgb, 1, sources)[0];
+}
+
+/**
+ * Formats a match for display, e.g. "Steel Blue (ΔE 2.1)"
+ */
+export function formatNamedColorMatch(match: NamedColorMatch): string {
+  return `${match.namedColor.name} (ΔE ${match.deltaE.toFixed(1)})`;
+}
@@ -1,5 +1,15 @@
+import { showToast, Toast } from "@raycast/api";
 import { ColorEntry, RGB } from "../types";
 import { ColorFormat } from "../constants/appConstants";
+import {
+  WCAG_THRESHOLDS,
+  formatContrastRatio,
+  getContrastRatio,
+} from "./contrastUtils";
+import { createAccessibilityReport } from "./accessibilityReportUtils";
+import { formatHarmonyColorName, generateHarmony } from "./harmonyUtils";
+import { formatErrorMessage } from "./errorUtils";
+import { addColor } from "../services/colorService";
 
 /**
  * Plugin interface for extending color functionality
@@ -137,20 +147,33 @@ export const colorHarmonyPlugin: ColorPlugin = {
       id: "generate-complementary",
       title: "Generate Complementary Color",
       handler: async (color: ColorEntry) => {
-        const { r, g, b } = color.rgb;
-        const complementary: RGB = {
-          r: 255 - r,
-          g: 255 - g,
-          b: 255 - b,
-        };
-
-        console.log(`Complementary color for ${color.name}:`, complementary);
-        // Implementation would add the complementary color to the collection
+        // Rotate the hue by 180° instead of inverting the RGB channels
+        const [complementary] = generateHarmony(color.rgb, "complementary");
+        const name = formatHarmonyColorName(color.name, "complementary", 180);
+
+        try {
+          await addColor(name, complementary.rgb);
+
+          await showToast({
+            style: Toast.Style.Success,
+            title: "Complementary Color Added",
+            message: `"${name}" added`,
+          });
+        } catch (error) {
+          await showToast({
+            style: Toast.Style.Failure,
+            title: "Failed to Add Color",
+            message: formatErrorMessage(error),
+          });
+        }
       },
     },
   ],
 };
 
+const WHITE: RGB = { r: 255, g: 255, b: 255 };
+const BLACK: RGB = { r: 0, g: 0, b: 0 };
+
 /**
  * Example plugin: Color accessibility checker
  */
@@ -160,25 +183,41 @@ export const accessibilityPlugin: ColorPlugin = {
   description: "Checks color accessibility and contrast ratios",
 
   validateColor: (color: ColorEntry): boolean => {
-    // Simple brightness check (real implementation would be more sophisticated)
-    const { r, g, b } = color.rgb;
-    const brightness = (r * 299 + g * 587 + b * 114) / 1000;
-
-    // Warn if color is too dark or too light for accessibility
-    if (brightness < 50 || brightness > 200) {
-      console.warn(`Color ${color.name} may have accessibility issues`);
+    // Warn about backgrounds the color cannot be used on as normal text
+    const failing = [
+      { name: "white", rgb: WHITE },
+      { name: "black", rgb: BLACK },
+    ].filter(
+      (background) =>
+        getContrastRatio(color.rgb, background.rgb) < WCAG_THRESHOLDS.AA_NORMAL,
+    );
+
+    if (failing.length > 0) {
+      console.warn(
+        `Color ${color.name} fails WCAG AA for normal text on ${failing.map((background) => background.name).join(" and ")}`,
+      );
     }
 
     return true; // Don't block the color, just warn
   },
 
+  // Palette-wide contrast matrix of every passing text/background pair
+  exportColors: (colors: ColorEntry[]): string =>
+    createAccessibilityReport(colors, "markdown", "Colors"),
+
   customActions: [
     {
       id: "check-contrast",
       title: "Check Contrast Ratio",
       handler: async (color: ColorEntry) => {
-        // Implementation would check contrast against common backgrounds
-        console.log(`Checking contrast for ${color.name}`);
+        const onWhite = getContrastRatio(color.rgb, WHITE);
+        const onBlack = getContrastRatio(color.rgb, BLACK);
+
+        await showToast({
+          style: Toast.Style.Success,
+          title: `Contrast of ${color.name}`,
+          message: `White ${formatContrastRatio(onWhite)} · Black ${formatContrastRatio(onBlack)}`,
+        });
       },
     },
   ],
@@ -0,0 +1,95 @@
+import { MemoryStorage, StorageBackend, setStorage } from "../services/storage";
+import { DEFAULT_MAX_COLORS } from "../constants/appConstants";
+import { MaxColorsReachedError } from "./errorUtils";
+import { importSwatchFile } from "./importExportUtils";
+import { assertWithinColorLimit, getUserPreferences } from "./settingsUtils";
+
+let mockPreferences: Record<string, unknown> = {};
+
+// The Raycast runtime is not available in tests
+jest.mock(
+  "@raycast/api",
+  () => ({
+    getPreferenceValues: () => mockPreferences,
+    environment: { supportPath: "/tmp/mycolor-test" },
+  }),
+  { virtual: true },
+);
+
+describe("color limit preference", () => {
+  beforeEach(() => {
+    mockPreferences = {};
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each([
+    ["", null],
+    ["0", null],
+    [" 0 ", null],
+    [0, null],
+    ["25", 25],
+    [12.7, 12],
+    [undefined, DEFAULT_MAX_COLORS],
+  ])("reads %p as %p", (maxColors, expected) => {
+    mockPreferences = { maxColors };
+
+    expect(getUserPreferences().maxColors).toBe(expected);
+  });
+
+  it.each(["-3", "many", Number.NaN])(
+    "falls back to the default for %p",
+    (maxColors) => {
+      jest.spyOn(console, "warn").mockImplementation(() => undefined);
+      mockPreferences = { maxColors };
+
+      expect(getUserPreferences().maxColors).toBe(DEFAULT_MAX_COLORS);
+      expect(console.warn).toHaveBeenCalled();
+    },
+  );
+
+  it("only rejects counts above a set limit", () => {
+    expect(() => assertWithinColorLimit(2, 2)).not.toThrow();
+    expect(() => assertWithinColorLimit(10000, null)).not.toThrow();
+    expect(() => assertWithinColorLimit(3, 2)).toThrow(MaxColorsReachedError);
+    expect(() => assertWithinColorLimit(3, 2)).toThrow(
+      "3 colors exceed the limit of 2 colors",
+    );
+  });
+});
+
+describe("importing above the color limit", () => {
+  let storage: MemoryStorage;
+  let previous: StorageBackend;
+
+  beforeEach(async () => {
+    storage = new MemoryStorage();
+    previous = setStorage(storage);
+    await storage.write(
+      "/imports/brand.json",
+      JSON.stringify(["#ff0000", "#00ff00", "#0000ff"]),
+    );
+  });
+
+  afterEach(() => {
+    setStorage(previous);
+  });
+
+  it("rejects the whole file instead of truncating it", async () => {
+    mockPreferences = { maxColors: "2" };
+
+    await expect(importSwatchFile("/imports/brand.json")).rejects.toThrow(
+      MaxColorsReachedError,
+    );
+  });
+
+  it("imports every color when the limit is empty", async () => {
+    mockPreferences = { maxColors: "" };
+
+    const { palettes } = await importSwatchFile("/imports/brand.json");
+
+    expect(palettes[0].colors).toHaveLength(3);
+  });
+});
@@ -1,18 +1,21 @@
 import { getPreferenceValues } from "@raycast/api";
 import {
   ColorFormat,
+  DEFAULT_MAX_COLORS,
   SUPPORTED_COLOR_FORMATS,
 } from "../constants/appConstants";
+import { MaxColorsReachedError } from "./errorUtils";
 
 /**
  * User preferences interface
  */
 export interface UserPreferences {
   defaultColorFormat: ColorFormat;
-  maxColors: number;
+  maxColors: number | null; // Colors per palette, null means unlimited
   showColorPreview: boolean;
   enableKeyboardShortcuts: boolean;
   autoCloseAfterCopy: boolean;
+  dataDirectory: string | null; // Overrides the platform storage location
 }
 
 /**
@@ -20,10 +23,11 @@ export interface UserPreferences {
  */
 const DEFAULT_PREFERENCES: UserPreferences = {
   defaultColorFormat: "hex",
-  maxColors: 15,
+  maxColors: DEFAULT_MAX_COLORS,
   showColorPreview: true,
   enableKeyboardShortcuts: true,
   autoCloseAfterCopy: true,
+  dataDirectory: null,
 };
 
 /**
@@ -31,15 +35,16 @@ const DEFAULT_PREFERENCES: UserPreferences = {
  */
 export function getUserPreferences(): UserPreferences {
   try {
-    const preferences = getPreferenceValues<Partial<UserPreferences>>();
+    const preferences =
+      getPreferenceValues<
+        Partial<Omit<UserPreferences, "maxColors"> & { maxColors: unknown }>
+      >();
 
     return {
       defaultColorFormat:
         validateColorFormat(preferences.defaultColorFormat) ||
         DEFAULT_PREFERENCES.defaultColorFormat,
-      maxColors:
-        validateMaxColors(preferences.maxColors) ||
-        DEFAULT_PREFERENCES.maxColors,
+      maxColors: validateMaxColors(preferences.maxColors),
       showColorPreview:
         preferences.showColorPreview ?? DEFAULT_PREFERENCES.showColorPreview,
       enableKeyboardShortcuts:
@@ -48,6 +53,8 @@ export function getUserPreferences(): UserPreferences {
       autoCloseAfterCopy:
         preferences.autoCloseAfterCopy ??
         DEFAULT_PREFERENCES.autoCloseAfterCopy,
+      dataDirectory:
+        preferences.dataDirectory?.trim() || DEFAULT_PREFERENCES.dataDirectory,
     };
   } catch (error) {
     console.warn("Failed to load user preferences, using defaults:", error);
@@ -70,10 +77,33 @@ function validateColorFormat(format: unknown): ColorFormat | null {
 
 /**
  * Validates max colors preference
+ * Text field preferences arrive as strings; empty or "0" means unlimited
  */
 function validateMaxColors(maxColors: unknown): number | null {
-  if (typeof maxColors === "number" && maxColors > 0 && maxColors <= 50) {
-    return Math.floor(maxColors);
+  if (maxColors === undefined || maxColors === null) {
+    return DEFAULT_PREFERENCES.maxColors;
+  }
+
+  const value =
+    typeof maxColors === "string" ? Number(maxColors.trim() || 0) : maxColors;
+
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+    console.warn(`Ignoring invalid color limit preference: ${maxColors}`);
+    return DEFAULT_PREFERENCES.maxColors;
+  }
+
+  return value === 0 ? null : Math.floor(value);
+}
+
+/**
+ * Throws if a palette with the given number of colors exceeds the limit
+ * Used by import and restore so that colors are rejected, never truncated
+ */
+export function assertWithinColorLimit(
+  colorCount: number,
+  maxColors: number | null = getUserPreferences().maxColors,
+): void {
+  if (maxColors !== null && colorCount > maxColors) {
+    throw new MaxColorsReachedError(maxColors, colorCount);
   }
-  return null;
 }
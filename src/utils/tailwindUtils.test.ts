@@ -0,0 +1,113 @@
+import { ColorEntry, Palette } from "../types";
+import {
+  createTailwindColors,
+  createTailwindPaletteColors,
+  formatTailwindConfig,
+  formatTailwindTheme,
+} from "./tailwindUtils";
+
+const color = (name: string, hex: string): ColorEntry => ({
+  id: name,
+  index: 0,
+  name,
+  rgb: {
+    r: parseInt(hex.slice(1, 3), 16),
+    g: parseInt(hex.slice(3, 5), 16),
+    b: parseInt(hex.slice(5, 7), 16),
+  },
+});
+
+const palette = (name: string, colors: ColorEntry[]): Palette => ({
+  id: name,
+  name,
+  colors,
+});
+
+/**
+ * Evaluates a CommonJS config fragment and returns its colors
+ */
+function readConfigColors(source: string): unknown {
+  const module = { exports: {} as { theme: { extend: { colors: unknown } } } };
+  new Function("module", source)(module);
+  return module.exports.theme.extend.colors;
+}
+
+describe("createTailwindColors", () => {
+  it("groups tonal scales under their base name with DEFAULT", () => {
+    const theme = createTailwindColors([
+      color("Brand 500", "#0000c8"),
+      color("Brand", "#0000ff"),
+      color("Brand 50", "#fafaff"),
+      color("Sky Blue", "#0096ff"),
+      color("Blue 2", "#030303"),
+    ]);
+
+    expect(readConfigColors(formatTailwindConfig(theme, "js"))).toEqual({
+      brand: { DEFAULT: "#0000ff", 50: "#fafaff", 500: "#0000c8" },
+      "sky-blue": "#0096ff",
+      "blue-2": "#030303",
+    });
+    expect(formatTailwindTheme(theme)).toBe(
+      [
+        "@theme {",
+        "  --color-brand: #0000ff;",
+        "  --color-brand-500: #0000c8;",
+        "  --color-brand-50: #fafaff;",
+        "  --color-sky-blue: #0096ff;",
+        "  --color-blue-2: #030303;",
+        "}",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("refuses colors that would share a name instead of renaming them", () => {
+    expect(() =>
+      createTailwindColors([
+        color("Sky Blue", "#0096ff"),
+        color("sky-blue", "#0000ff"),
+      ]),
+    ).toThrow(/"Sky Blue" and "sky-blue" would both be named "sky-blue"/);
+    expect(() =>
+      createTailwindColors([
+        color("Brand 500", "#0000c8"),
+        color("Brand-500", "#0000ff"),
+      ]),
+    ).toThrow(/would both be named "brand-500"/);
+  });
+});
+
+describe("createTailwindPaletteColors", () => {
+  it("keeps same-named colors under their own palette", () => {
+    const theme = createTailwindPaletteColors([
+      palette("Brand", [
+        color("Primary 500", "#0000c8"),
+        color("Red", "#ff0000"),
+      ]),
+      palette("Marketing Site", [color("Red", "#ee0000")]),
+    ]);
+
+    expect(readConfigColors(formatTailwindConfig(theme, "js"))).toEqual({
+      brand: { primary: { 500: "#0000c8" }, red: "#ff0000" },
+      "marketing-site": { red: "#ee0000" },
+    });
+    expect(formatTailwindTheme(theme)).toContain(
+      "  --color-brand-primary-500: #0000c8;\n  --color-brand-red: #ff0000;\n  --color-marketing-site-red: #ee0000;",
+    );
+  });
+
+  it("refuses palettes and colors whose names clash once flattened", () => {
+    expect(() =>
+      createTailwindPaletteColors([
+        palette("Brand", []),
+        palette("brand!", []),
+      ]),
+    ).toThrow(/Palettes "Brand" and "brand!" would both be named "brand"/);
+    expect(() =>
+      createTailwindPaletteColors([
+        palette("Brand", [color("Sky Blue", "#0096ff")]),
+        palette("Brand Sky", [color("Blue", "#0000ff")]),
+      ]),
+    ).toThrow(/would both be named "brand-sky-blue"/);
+  });
+});
@@ -0,0 +1,319 @@
+import { ColorEntry, Palette } from "../types";
+import { formatAsColorFunction, formatAsHex } from "./colorFormatUtils";
+import { isOutOfSrgbGamut } from "./gamutUtils";
+
+/**
+ * Tailwind CSS theme colors
+ * Colors are keyed by their slugged names; tonal scale colors such as
+ * "Brand 500" are grouped under their base name (`brand.500`), and a color
+ * named like the scale itself becomes the group's DEFAULT. Several palettes
+ * are grouped under their own slugs (`brand.primary.500`). Names are never
+ * changed to make them unique: colors that would share a Tailwind name are
+ * reported instead
+ */
+
+/**
+ * Kind of theme file: a `tailwind.config` fragment (Tailwind v3) or an
+ * `@theme` block (Tailwind v4)
+ */
+export type TailwindThemeFormat = "js" | "ts" | "css";
+
+export const TAILWIND_THEME_FORMATS: TailwindThemeFormat[] = [
+  "js",
+  "ts",
+  "css",
+];
+
+export const TAILWIND_THEME_FORMAT_LABELS: Record<TailwindThemeFormat, string> =
+  {
+    js: "Config (JavaScript)",
+    ts: "Config (TypeScript)",
+    css: "Theme CSS (v4)",
+  };
+
+export const TAILWIND_THEME_FILE_EXTENSIONS: Record<
+  TailwindThemeFormat,
+  string
+> = {
+  js: "tailwind.js",
+  ts: "tailwind.ts",
+  css: "theme.css",
+};
+
+/**
+ * Theme colors keyed by slug: colors, scale groups and, when several
+ * palettes are exported, palette groups
+ * Maps keep the order colors were added in, which plain objects do not for
+ * numeric keys such as scale steps
+ */
+export type TailwindColorGroup = Map<string, ColorEntry | TailwindColorGroup>;
+
+const DEFAULT_KEY = "DEFAULT";
+const SCALE_NAME_PATTERN = /^(.*\S)\s+(\d+)$/;
+
+/**
+ * Converts a color name into the lowercase, hyphenated slug used for CSS
+ * custom properties and Tailwind color names, e.g. "Sky Blue" → "sky-blue"
+ */
+export function toColorSlug(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .replace(/[^a-z0-9-]/g, "");
+}
+
+/**
+ * Checks whether a theme entry is a group rather than a color
+ */
+function isColorGroup(
+  value: ColorEntry | TailwindColorGroup,
+): value is TailwindColorGroup {
+  return value instanceof Map;
+}
+
+/**
+ * Splits a scale color name into its base name and step, e.g. "Brand 500"
+ * Only Tailwind-like steps (multiples of 50 from 50 to 950) count, so names
+ * such as "Blue 2" stay as they are
+ */
+function parseScaleName(
+  name: string,
+): { baseName: string; step: string } | undefined {
+  const match = name.trim().match(SCALE_NAME_PATTERN);
+  const step = match ? Number(match[2]) : NaN;
+
+  return match && step >= 50 && step <= 950 && step % 50 === 0
+    ? { baseName: match[1], step: String(step) }
+    : undefined;
+}
+
+/**
+ * Lists the entries of a group with DEFAULT first
+ */
+function getGroupEntries(
+  group: TailwindColorGroup,
+): [string, ColorEntry | TailwindColorGroup][] {
+  return [...group.entries()].sort(
+    ([a], [b]) => Number(b === DEFAULT_KEY) - Number(a === DEFAULT_KEY),
+  );
+}
+
+/**
+ * Lists every color of a group with its flattened Tailwind name, e.g.
+ * "brand-500" for `brand.500` and "brand" for `brand.DEFAULT`
+ */
+function flattenColors(
+  group: TailwindColorGroup,
+  prefix: string = "",
+): [string, ColorEntry][] {
+  return getGroupEntries(group).flatMap(([key, value]) => {
+    const name =
+      key === DEFAULT_KEY ? prefix : prefix ? `${prefix}-${key}` : key;
+    return isColorGroup(value) ? flattenColors(value, name) : [[name, value]];
+  });
+}
+
+/**
+ * Error for colors that would share a Tailwind name
+ */
+function createNameClashError(
+  name: string,
+  first: ColorEntry,
+  second: ColorEntry,
+): Error {
+  return new Error(
+    `"${first.name}" and "${second.name}" would both be named "${name}" in the Tailwind theme; rename one of them`,
+  );
+}
+
+/**
+ * Adds a color to a group, under its base name if it is a scale color
+ * A plain color with the scale's name becomes the scale's DEFAULT
+ */
+function addThemeColor(theme: TailwindColorGroup, color: ColorEntry): void {
+  const scale = parseScaleName(color.name);
+  const key = toColorSlug(scale ? scale.baseName : color.name) || "color";
+  const existing = theme.get(key);
+
+  if (!scale) {
+    if (existing === undefined) {
+      theme.set(key, color);
+      return;
+    }
+
+    const current = isColorGroup(existing)
+      ? existing.get(DEFAULT_KEY)
+      : existing;
+    if (current !== undefined) {
+      throw createNameClashError(key, current as ColorEntry, color);
+    }
+
+    (existing as TailwindColorGroup).set(DEFAULT_KEY, color);
+    return;
+  }
+
+  const group: TailwindColorGroup =
+    existing === undefined
+      ? new Map()
+      : isColorGroup(existing)
+        ? existing
+        : new Map([[DEFAULT_KEY, existing]]);
+  const current = group.get(scale.step);
+
+  if (current !== undefined) {
+    throw createNameClashError(
+      `${key}-${scale.step}`,
+      current as ColorEntry,
+      color,
+    );
+  }
+
+  group.set(scale.step, color);
+  theme.set(key, group);
+}
+
+/**
+ * Checks that no two colors end up with the same flattened name, e.g.
+ * "brand-sky" + "blue" and "brand" + "sky-blue"
+ */
+function assertUniqueNames(theme: TailwindColorGroup): void {
+  const named = new Map<string, ColorEntry>();
+
+  flattenColors(theme).forEach(([name, color]) => {
+    const other = named.get(name);
+    if (other) {
+      throw createNameClashError(name, other, color);
+    }
+    named.set(name, color);
+  });
+}
+
+/**
+ * Groups the colors of one palette into Tailwind theme colors
+ * Throws if two colors would get the same Tailwind name
+ */
+export function createTailwindColors(colors: ColorEntry[]): TailwindColorGroup {
+  const theme: TailwindColorGroup = new Map();
+
+  colors.forEach((color) => addThemeColor(theme, color));
+  assertUniqueNames(theme);
+
+  return theme;
+}
+
+/**
+ * Groups the colors of several palettes into Tailwind theme colors, one
+ * group per palette keyed by the palette's slug
+ * Throws if two palettes or two colors would get the same Tailwind name
+ */
+export function createTailwindPaletteColors(
+  palettes: Palette[],
+): TailwindColorGroup {
+  const theme: TailwindColorGroup = new Map();
+  const paletteNames = new Map<string, string>();
+
+  palettes.forEach((palette) => {
+    const key = toColorSlug(palette.name) || "palette";
+    const other = paletteNames.get(key);
+
+    if (other !== undefined) {
+      throw new Error(
+        `Palettes "${other}" and "${palette.name}" would both be named "${key}" in the Tailwind theme; rename one of them`,
+      );
+    }
+
+    const group: TailwindColorGroup = new Map();
+    palette.colors.forEach((color) => addThemeColor(group, color));
+    paletteNames.set(key, palette.name);
+    theme.set(key, group);
+  });
+
+  assertUniqueNames(theme);
+
+  return theme;
+}
+
+/**
+ * Quotes an object key unless it is an identifier or a number
+ */
+function formatObjectKey(key: string): string {
+  return /^([A-Za-z_$][\w$]*|[1-9]\d*)$/.test(key) ? key : JSON.stringify(key);
+}
+
+/**
+ * Formats theme colors as the body of a JavaScript object literal
+ * Values are hex, which every Tailwind v3 opacity modifier understands
+ */
+function formatColorsObject(
+  group: TailwindColorGroup,
+  indent: string,
+): string[] {
+  return getGroupEntries(group).flatMap(([key, value]) =>
+    isColorGroup(value)
+      ? [
+          `${indent}${formatObjectKey(key)}: {`,
+          ...formatColorsObject(value, `${indent}  `),
+          `${indent}},`,
+        ]
+      : [
+          `${indent}${formatObjectKey(key)}: ${JSON.stringify(formatAsHex(value.rgb))},`,
+        ],
+  );
+}
+
+/**
+ * Formats theme colors as a `tailwind.config` fragment that extends the
+ * default colors, as CommonJS for JavaScript or an ES module for TypeScript
+ */
+export function formatTailwindConfig(
+  theme: TailwindColorGroup,
+  language: "js" | "ts",
+): string {
+  const body = [
+    "  theme: {",
+    "    extend: {",
+    "      colors: {",
+    ...formatColorsObject(theme, "        "),
+    "      },",
+    "    },",
+    "  },",
+  ];
+
+  const lines =
+    language === "ts"
+      ? [
+          'import type { Config } from "tailwindcss";',
+          "",
+          "export default {",
+          ...body,
+          "} satisfies Partial<Config>;",
+        ]
+      : [
+          "/** @type {import('tailwindcss').Config} */",
+          "module.exports = {",
+          ...body,
+          "};",
+        ];
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Formats theme colors as a Tailwind v4 `@theme` block
+ * Groups are flattened into `--color-brand-500` or, per palette,
+ * `--color-<palette>-<name>` variables, and DEFAULT into `--color-brand`;
+ * wide-gamut colors keep their precise color() value, which every browser
+ * Tailwind v4 supports can show
+ */
+export function formatTailwindTheme(theme: TailwindColorGroup): string {
+  const lines = flattenColors(theme).map(
+    ([name, color]) =>
+      `  --color-${name}: ${
+        isOutOfSrgbGamut(color.precise)
+          ? formatAsColorFunction(color.rgb, color.precise)
+          : formatAsHex(color.rgb)
+      };`,
+  );
+
+  return ["@theme {", ...lines, "}", ""].join("\n");
+}
@@ -0,0 +1,190 @@
+import { RGB } from "../types";
+import {
+  Vector3,
+  convertFromSrgb,
+  convertToSrgb,
+  normalizeHue,
+} from "./colorSpaceUtils";
+import { gamutMapToSrgb } from "./gamutUtils";
+
+/**
+ * Tailwind-style tonal scales (50-950) generated in OKLCH
+ * Lightness runs from the lightest to the darkest step, passing through the
+ * base color, which keeps its exact value at the step closest to its lightness
+ */
+
+/**
+ * Easing of the lightness between the ends of the scale and the base color
+ */
+export type ScaleEasing = "linear" | "ease-in" | "ease-out" | "ease-in-out";
+
+export const SCALE_EASINGS: ScaleEasing[] = [
+  "linear",
+  "ease-in",
+  "ease-out",
+  "ease-in-out",
+];
+
+export const SCALE_EASING_LABELS: Record<ScaleEasing, string> = {
+  linear: "Linear",
+  "ease-in": "Ease In",
+  "ease-out": "Ease Out",
+  "ease-in-out": "Ease In-Out",
+};
+
+/**
+ * Step labels of the Tailwind CSS color scales
+ */
+export const TAILWIND_SCALE_STEPS = [
+  50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950,
+];
+
+/**
+ * Numbers of steps offered for a scale
+ */
+export const SCALE_STEP_COUNTS = [5, 7, 9, 11];
+
+/**
+ * Options for generating a tonal scale
+ */
+export interface TonalScaleOptions {
+  stepCount: number; // 11 gives the Tailwind 50-950 steps
+  easing: ScaleEasing;
+  lightest: number; // OKLCH lightness of the first step (0-1)
+  darkest: number; // OKLCH lightness of the last step (0-1)
+}
+
+export const DEFAULT_TONAL_SCALE_OPTIONS: TonalScaleOptions = {
+  stepCount: 11,
+  easing: "linear",
+  lightest: 0.97,
+  darkest: 0.27,
+};
+
+/**
+ * One color of a tonal scale
+ */
+export interface TonalScaleStep {
+  step: number; // Step label, e.g. 500
+  rgb: RGB;
+  isBase: boolean; // The step holding the original color
+}
+
+/**
+ * Share of the base chroma kept at the light and dark ends of the scale
+ */
+const END_CHROMA = { LIGHT: 0.15, DARK: 0.6 } as const;
+
+/**
+ * Applies an easing curve to a position between 0 and 1
+ */
+function applyEasing(t: number, easing: ScaleEasing): number {
+  switch (easing) {
+    case "ease-in":
+      return t * t;
+    case "ease-out":
+      return 1 - (1 - t) * (1 - t);
+    case "ease-in-out":
+      return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+    case "linear":
+      return t;
+  }
+}
+
+/**
+ * Gets the step labels of a scale with the given number of steps
+ * 11 steps use the Tailwind labels, other counts are spread over 100-900
+ */
+export function getScaleStepLabels(stepCount: number): number[] {
+  if (stepCount === TAILWIND_SCALE_STEPS.length) {
+    return [...TAILWIND_SCALE_STEPS];
+  }
+  if (stepCount === 1) {
+    return [500];
+  }
+
+  return Array.from(
+    { length: stepCount },
+    (_, index) => Math.round((100 + (800 * index) / (stepCount - 1)) / 50) * 50,
+  );
+}
+
+/**
+ * Converts an OKLCH color into an sRGB color, gamut mapping out-of-range values
+ */
+function oklchToRgb(oklch: Vector3, alpha?: number): RGB {
+  const [r, g, b] = gamutMapToSrgb(convertToSrgb("oklch", oklch)).map(
+    (channel) => Math.round(channel * 255),
+  );
+  return alpha !== undefined ? { r, g, b, a: alpha } : { r, g, b };
+}
+
+/**
+ * Generates a tonal scale from a color, lightest step first
+ * The base color is placed at the step whose lightness is closest to its own;
+ * lighter and darker steps are interpolated towards the ends in OKLCH, with
+ * chroma tapering off so the ends stay within gamut. Alpha is kept
+ */
+export function generateTonalScale(
+  rgb: RGB,
+  options: Partial<TonalScaleOptions> = {},
+): TonalScaleStep[] {
+  const { stepCount, easing, lightest, darkest } = {
+    ...DEFAULT_TONAL_SCALE_OPTIONS,
+    ...options,
+  };
+  const labels = getScaleStepLabels(Math.max(1, Math.round(stepCount)));
+  const [baseL, baseC, baseH] = convertFromSrgb("oklch", [
+    rgb.r / 255,
+    rgb.g / 255,
+    rgb.b / 255,
+  ]);
+
+  // Place the base color where an evenly eased scale would have its lightness
+  const anchorIndex = labels.reduce((closest, _, index) => {
+    const lightness = (i: number) =>
+      lightest +
+      (darkest - lightest) *
+        applyEasing(labels.length > 1 ? i / (labels.length - 1) : 0, easing);
+    return Math.abs(lightness(index) - baseL) <
+      Math.abs(lightness(closest) - baseL)
+      ? index
+      : closest;
+  }, 0);
+
+  return labels.map((step, index) => {
+    if (index === anchorIndex) {
+      return { step, rgb: { ...rgb }, isBase: true };
+    }
+
+    // Interpolate from the light end to the base, or from the base to the dark end
+    const isLighter = index < anchorIndex;
+    const t = isLighter
+      ? index / anchorIndex
+      : (index - anchorIndex) / (labels.length - 1 - anchorIndex);
+    const eased = applyEasing(t, easing);
+
+    const [fromL, fromC] = isLighter
+      ? [Math.max(lightest, baseL), baseC * END_CHROMA.LIGHT]
+      : [baseL, baseC];
+    const [toL, toC] = isLighter
+      ? [baseL, baseC]
+      : [Math.min(darkest, baseL), baseC * END_CHROMA.DARK];
+
+    const lightness = fromL + (toL - fromL) * eased;
+    const chroma = fromC + (toC - fromC) * eased;
+
+    return {
+      step,
+      rgb: oklchToRgb([lightness, chroma, normalizeHue(baseH)], rgb.a),
+      isBase: false,
+    };
+  });
+}
+
+/**
+ * Names a scale color after its base color, e.g. "Brand 500"
+ */
+export function formatScaleColorName(baseName: string, step: number): string {
+  return `${baseName.trim()} ${step}`;
+}
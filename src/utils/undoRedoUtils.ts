@@ -19,7 +19,8 @@ export interface UndoableAction {
 
   // Action-specific data
   actionData?: {
-    colorIndex?: number;
+    paletteId?: string;
+    colorId?: string;
     colorData?: ColorEntry;
     previousColorData?: ColorEntry;
   };
@@ -109,6 +110,20 @@ export class UndoRedoManager {
     return action.newState;
   }
 
+  /**
+   * Returns the action that the next undo would revert, without undoing it
+   */
+  peekUndo(): UndoableAction | null {
+    return this.undoStack[this.undoStack.length - 1] ?? null;
+  }
+
+  /**
+   * Returns the action that the next redo would reapply, without redoing it
+   */
+  peekRedo(): UndoableAction | null {
+    return this.redoStack[this.redoStack.length - 1] ?? null;
+  }
+
   /**
    * Checks if undo is available
    */
@@ -180,22 +195,24 @@ export const ActionCreators = {
     previousState: ColorEntry[],
     newState: ColorEntry[],
     addedColor: ColorEntry,
+    paletteId?: string,
   ): UndoableAction => {
     return undoRedoManager.createAction(
       "add",
       `Add color "${addedColor.name}"`,
       previousState,
       newState,
-      { colorData: addedColor },
+      { paletteId, colorData: addedColor },
     );
   },
 
   editColor: (
     previousState: ColorEntry[],
     newState: ColorEntry[],
-    colorIndex: number,
+    colorId: string,
     previousColor: ColorEntry,
     newColor: ColorEntry,
+    paletteId?: string,
   ): UndoableAction => {
     return undoRedoManager.createAction(
       "edit",
@@ -203,7 +220,8 @@ export const ActionCreators = {
       previousState,
       newState,
       {
-        colorIndex,
+        paletteId,
+        colorId,
         previousColorData: previousColor,
         colorData: newColor,
       },
@@ -214,25 +232,43 @@ export const ActionCreators = {
     previousState: ColorEntry[],
     newState: ColorEntry[],
     deletedColor: ColorEntry,
+    paletteId?: string,
   ): UndoableAction => {
     return undoRedoManager.createAction(
       "delete",
       `Delete color "${deletedColor.name}"`,
       previousState,
       newState,
-      { colorData: deletedColor },
+      { paletteId, colorData: deletedColor },
+    );
+  },
+
+  deleteColors: (
+    previousState: ColorEntry[],
+    newState: ColorEntry[],
+    deletedColors: ColorEntry[],
+    paletteId?: string,
+  ): UndoableAction => {
+    return undoRedoManager.createAction(
+      "delete",
+      `Delete ${deletedColors.length} colors`,
+      previousState,
+      newState,
+      { paletteId },
     );
   },
 
   reorderColors: (
     previousState: ColorEntry[],
     newState: ColorEntry[],
+    paletteId?: string,
   ): UndoableAction => {
     return undoRedoManager.createAction(
       "reorder",
       "Reorder colors",
       previousState,
       newState,
+      { paletteId },
     );
   },
 };
@@ -0,0 +1,131 @@
+import { RGB } from "../types";
+import {
+  VisionDeficiency,
+  getVisionDeficiencyLabel,
+  simulateVisionDeficiency,
+} from "./visionSimulationUtils";
+
+type Matrix = number[][];
+
+/**
+ * Severity 1.0 and 0.5 matrices as published by Machado, Oliveira and
+ * Fernandes (2009)
+ */
+const PUBLISHED_MATRICES: Record<
+  Exclude<VisionDeficiency, "achromat">,
+  { full: Matrix; half: Matrix }
+> = {
+  protan: {
+    full: [
+      [0.152286, 1.052583, -0.204868],
+      [0.114503, 0.786281, 0.099216],
+      [-0.003882, -0.048116, 1.051998],
+    ],
+    half: [
+      [0.458064, 0.679578, -0.137642],
+      [0.092785, 0.846313, 0.060902],
+      [-0.007494, -0.016807, 1.024301],
+    ],
+  },
+  deutan: {
+    full: [
+      [0.367322, 0.860646, -0.227968],
+      [0.280085, 0.672501, 0.047413],
+      [-0.01182, 0.04294, 0.968881],
+    ],
+    half: [
+      [0.547494, 0.607765, -0.155259],
+      [0.181692, 0.781742, 0.036566],
+      [-0.01041, 0.027275, 0.983136],
+    ],
+  },
+  tritan: {
+    full: [
+      [1.255528, -0.076749, -0.178779],
+      [-0.078411, 0.930809, 0.147602],
+      [0.004733, 0.691367, 0.3039],
+    ],
+    half: [
+      [1.017277, 0.027029, -0.044306],
+      [-0.006113, 0.958479, 0.047634],
+      [0.006379, 0.248708, 0.744913],
+    ],
+  },
+};
+
+const COLORS: RGB[] = [
+  { r: 255, g: 0, b: 0 },
+  { r: 0, g: 255, b: 0 },
+  { r: 0, g: 0, b: 255 },
+  { r: 255, g: 128, b: 0 },
+  { r: 51, g: 102, b: 204 },
+];
+
+/**
+ * Applies a matrix to a color in linear sRGB, the way the paper describes
+ */
+function applyMatrix(matrix: Matrix, { r, g, b }: RGB): RGB {
+  const toLinear = (value: number) => {
+    const channel = value / 255;
+    return channel <= 0.04045
+      ? channel / 12.92
+      : Math.pow((channel + 0.055) / 1.055, 2.4);
+  };
+  const toByte = (value: number) => {
+    const channel = Math.max(0, Math.min(1, value));
+    return Math.round(
+      (channel <= 0.0031308
+        ? channel * 12.92
+        : 1.055 * Math.pow(channel, 1 / 2.4) - 0.055) * 255,
+    );
+  };
+
+  const linear = [toLinear(r), toLinear(g), toLinear(b)];
+  const [sr, sg, sb] = matrix.map((row) =>
+    toByte(row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2]),
+  );
+
+  return { r: sr, g: sg, b: sb };
+}
+
+describe("simulateVisionDeficiency", () => {
+  it.each(Object.entries(PUBLISHED_MATRICES))(
+    "applies the published %s matrices",
+    (deficiency, { full, half }) => {
+      COLORS.forEach((rgb) => {
+        expect(
+          simulateVisionDeficiency(rgb, deficiency as VisionDeficiency),
+        ).toEqual(applyMatrix(full, rgb));
+        expect(
+          simulateVisionDeficiency(rgb, deficiency as VisionDeficiency, 0.5),
+        ).toEqual(applyMatrix(half, rgb));
+      });
+    },
+  );
+
+  it("keeps neutral colors and leaves colors unchanged at severity 0", () => {
+    (["protan", "deutan", "tritan", "achromat"] as VisionDeficiency[]).forEach(
+      (deficiency) => {
+        expect(
+          simulateVisionDeficiency({ r: 255, g: 255, b: 255 }, deficiency),
+        ).toEqual({ r: 255, g: 255, b: 255 });
+        COLORS.forEach((rgb) =>
+          expect(simulateVisionDeficiency(rgb, deficiency, 0)).toEqual(rgb),
+        );
+      },
+    );
+  });
+
+  it("reduces achromatopsia to luminance and keeps alpha", () => {
+    expect(
+      simulateVisionDeficiency({ r: 255, g: 0, b: 0, a: 0.5 }, "achromat"),
+    ).toEqual({ r: 127, g: 127, b: 127, a: 0.5 });
+  });
+});
+
+describe("getVisionDeficiencyLabel", () => {
+  it("names full and partial deficiencies", () => {
+    expect(getVisionDeficiencyLabel("deutan")).toBe("Deuteranopia");
+    expect(getVisionDeficiencyLabel("protan", 0.6)).toBe("Protanomaly (60%)");
+  });
+});
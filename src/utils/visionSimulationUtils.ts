@@ -0,0 +1,333 @@
+import { ColorEntry, RGB } from "../types";
+import { Vector3, linearToSrgb, srgbToLinear } from "./colorSpaceUtils";
+import { getDeltaE2000 } from "./colorDifferenceUtils";
+
+/**
+ * Color vision deficiency (CVD) simulation
+ * Dichromacy and anomalous trichromacy use the Machado, Oliveira and
+ * Fernandes (2009) model, applied to linear sRGB; achromatopsia reduces
+ * colors to their luminance
+ */
+
+/**
+ * Kind of color vision deficiency
+ * Protan, deutan and tritan affect the long, medium and short wavelength
+ * cones; achromat is the loss of all color vision
+ */
+export type VisionDeficiency = "protan" | "deutan" | "tritan" | "achromat";
+
+export const VISION_DEFICIENCIES: VisionDeficiency[] = [
+  "protan",
+  "deutan",
+  "tritan",
+  "achromat",
+];
+
+/**
+ * Names of each deficiency at full severity (-opia) and partial (-anomaly)
+ */
+const VISION_DEFICIENCY_NAMES: Record<
+  VisionDeficiency,
+  { full: string; partial: string }
+> = {
+  protan: { full: "Protanopia", partial: "Protanomaly" },
+  deutan: { full: "Deuteranopia", partial: "Deuteranomaly" },
+  tritan: { full: "Tritanopia", partial: "Tritanomaly" },
+  achromat: { full: "Achromatopsia", partial: "Achromatomaly" },
+};
+
+type Matrix3 = [Vector3, Vector3, Vector3];
+
+const IDENTITY: Matrix3 = [
+  [1, 0, 0],
+  [0, 1, 0],
+  [0, 0, 1],
+];
+
+/**
+ * Machado et al. simulation matrices for severities 0.1 to 1.0 in steps of 0.1
+ * Severity 0 is the identity
+ */
+const MACHADO_MATRICES: Record<
+  Exclude<VisionDeficiency, "achromat">,
+  Matrix3[]
+> = {
+  protan: [
+    [
+      [0.856167, 0.182038, -0.038205],
+      [0.029342, 0.955115, 0.015544],
+      [-0.00288, -0.001563, 1.004443],
+    ],
+    [
+      [0.734766, 0.334872, -0.069637],
+      [0.05184, 0.919198, 0.028963],
+      [-0.004928, -0.004209, 1.009137],
+    ],
+    [
+      [0.630323, 0.465641, -0.095964],
+      [0.069181, 0.890046, 0.040773],
+      [-0.006308, -0.007724, 1.014032],
+    ],
+    [
+      [0.539009, 0.579343, -0.118352],
+      [0.082546, 0.866121, 0.051332],
+      [-0.007136, -0.011959, 1.019095],
+    ],
+    [
+      [0.458064, 0.679578, -0.137642],
+      [0.092785, 0.846313, 0.060902],
+      [-0.007494, -0.016807, 1.024301],
+    ],
+    [
+      [0.38545, 0.769005, -0.154455],
+      [0.100526, 0.829802, 0.069673],
+      [-0.007442, -0.02219, 1.029632],
+    ],
+    [
+      [0.319627, 0.849633, -0.169261],
+      [0.106241, 0.815969, 0.07779],
+      [-0.007025, -0.028051, 1.035076],
+    ],
+    [
+      [0.259411, 0.923008, -0.18242],
+      [0.110296, 0.80434, 0.085364],
+      [-0.006276, -0.034346, 1.040622],
+    ],
+    [
+      [0.203876, 0.990338, -0.194214],
+      [0.112975, 0.794542, 0.092483],
+      [-0.005222, -0.041043, 1.046265],
+    ],
+    [
+      [0.152286, 1.052583, -0.204868],
+      [0.114503, 0.786281, 0.099216],
+      [-0.003882, -0.048116, 1.051998],
+    ],
+  ],
+  deutan: [
+    [
+      [0.866435, 0.177704, -0.044139],
+      [0.049567, 0.939063, 0.01137],
+      [-0.003453, 0.007233, 0.99622],
+    ],
+    [
+      [0.760729, 0.319078, -0.079807],
+      [0.090568, 0.889315, 0.020117],
+      [-0.006027, 0.013325, 0.992702],
+    ],
+    [
+      [0.675425, 0.43385, -0.109275],
+      [0.125303, 0.847755, 0.026942],
+      [-0.00795, 0.018572, 0.989378],
+    ],
+    [
+      [0.605511, 0.52856, -0.134071],
+      [0.155318, 0.812366, 0.032316],
+      [-0.009376, 0.023176, 0.9862],
+    ],
+    [
+      [0.547494, 0.607765, -0.155259],
+      [0.181692, 0.781742, 0.036566],
+      [-0.01041, 0.027275, 0.983136],
+    ],
+    [
+      [0.498864, 0.674741, -0.173604],
+      [0.205199, 0.754872, 0.039929],
+      [-0.011131, 0.030969, 0.980162],
+    ],
+    [
+      [0.457771, 0.731899, -0.18967],
+      [0.226409, 0.731012, 0.042579],
+      [-0.011595, 0.034333, 0.977261],
+    ],
+    [
+      [0.422823, 0.781057, -0.203881],
+      [0.245752, 0.709602, 0.044646],
+      [-0.011843, 0.037423, 0.974421],
+    ],
+    [
+      [0.392952, 0.82361, -0.216562],
+      [0.263559, 0.69021, 0.046232],
+      [-0.01191, 0.040281, 0.97163],
+    ],
+    [
+      [0.367322, 0.860646, -0.227968],
+      [0.280085, 0.672501, 0.047413],
+      [-0.01182, 0.04294, 0.968881],
+    ],
+  ],
+  tritan: [
+    [
+      [0.92667, 0.092514, -0.019184],
+      [0.021191, 0.964503, 0.014306],
+      [0.008437, 0.054813, 0.93675],
+    ],
+    [
+      [0.89572, 0.13333, -0.02905],
+      [0.029997, 0.9454, 0.024603],
+      [0.013027, 0.104707, 0.882266],
+    ],
+    [
+      [0.905871, 0.127791, -0.033662],
+      [0.026856, 0.941251, 0.031893],
+      [0.01341, 0.148296, 0.838294],
+    ],
+    [
+      [0.948035, 0.08949, -0.037526],
+      [0.014364, 0.946792, 0.038844],
+      [0.010853, 0.193991, 0.795156],
+    ],
+    [
+      [1.017277, 0.027029, -0.044306],
+      [-0.006113, 0.958479, 0.047634],
+      [0.006379, 0.248708, 0.744913],
+    ],
+    [
+      [1.104996, -0.046633, -0.058363],
+      [-0.032137, 0.971635, 0.060503],
+      [0.001336, 0.317922, 0.680742],
+    ],
+    [
+      [1.193214, -0.109812, -0.083402],
+      [-0.058496, 0.97941, 0.079086],
+      [-0.002346, 0.403492, 0.598854],
+    ],
+    [
+      [1.257728, -0.139648, -0.118081],
+      [-0.078003, 0.975409, 0.102594],
+      [-0.003316, 0.501214, 0.502102],
+    ],
+    [
+      [1.278864, -0.125333, -0.153531],
+      [-0.084748, 0.957674, 0.127074],
+      [-0.000989, 0.601151, 0.399838],
+    ],
+    [
+      [1.255528, -0.076749, -0.178779],
+      [-0.078411, 0.930809, 0.147602],
+      [0.004733, 0.691367, 0.3039],
+    ],
+  ],
+};
+
+/**
+ * Clamps a severity into 0-1
+ */
+function clampSeverity(severity: number): number {
+  return Math.max(0, Math.min(1, severity));
+}
+
+/**
+ * Gets the display name of a deficiency, e.g. "Deuteranomaly (60%)"
+ */
+export function getVisionDeficiencyLabel(
+  deficiency: VisionDeficiency,
+  severity: number = 1,
+): string {
+  const clamped = clampSeverity(severity);
+  const names = VISION_DEFICIENCY_NAMES[deficiency];
+
+  return clamped >= 1
+    ? names.full
+    : `${names.partial} (${Math.round(clamped * 100)}%)`;
+}
+
+/**
+ * Linearly interpolates the simulation matrix between the tabulated severities
+ */
+function getMachadoMatrix(
+  deficiency: Exclude<VisionDeficiency, "achromat">,
+  severity: number,
+): Matrix3 {
+  const matrices = [IDENTITY, ...MACHADO_MATRICES[deficiency]];
+  const position = clampSeverity(severity) * 10;
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, 10);
+  const weight = position - lower;
+
+  return matrices[lower].map((row, i) =>
+    row.map((value, j) => value + (matrices[upper][i][j] - value) * weight),
+  ) as Matrix3;
+}
+
+/**
+ * Simulates how a color looks with a color vision deficiency
+ * Severity 1 is the full deficiency (dichromacy or achromatopsia), lower
+ * values the anomalous variants; alpha is kept
+ */
+export function simulateVisionDeficiency(
+  rgb: RGB,
+  deficiency: VisionDeficiency,
+  severity: number = 1,
+): RGB {
+  const linear = srgbToLinear([rgb.r / 255, rgb.g / 255, rgb.b / 255]);
+  let simulated: Vector3;
+
+  if (deficiency === "achromat") {
+    const luminance =
+      0.2126 * linear[0] + 0.7152 * linear[1] + 0.0722 * linear[2];
+    const amount = clampSeverity(severity);
+    simulated = linear.map(
+      (channel) => channel + (luminance - channel) * amount,
+    ) as Vector3;
+  } else {
+    const matrix = getMachadoMatrix(deficiency, severity);
+    simulated = matrix.map(
+      (row) => row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2],
+    ) as Vector3;
+  }
+
+  const [r, g, b] = linearToSrgb(
+    simulated.map((channel) => Math.max(0, Math.min(1, channel))) as Vector3,
+  ).map((channel) => Math.round(channel * 255));
+
+  return rgb.a !== undefined ? { r, g, b, a: rgb.a } : { r, g, b };
+}
+
+/**
+ * Pair of colors that become hard to tell apart with a deficiency
+ */
+export interface ConfusablePair {
+  first: ColorEntry;
+  second: ColorEntry;
+  originalDeltaE: number; // CIEDE2000 with typical color vision
+  simulatedDeltaE: number; // CIEDE2000 of the simulated colors
+}
+
+/**
+ * Finds pairs of colors that are distinct with typical color vision but whose
+ * simulated colors differ by less than the delta E threshold
+ * Pairs that are already that close without a deficiency are left out
+ */
+export function findConfusablePairs(
+  colors: ColorEntry[],
+  deficiency: VisionDeficiency,
+  severity: number,
+  threshold: number,
+): ConfusablePair[] {
+  const simulated = colors.map((color) =>
+    simulateVisionDeficiency(color.rgb, deficiency, severity),
+  );
+  const pairs: ConfusablePair[] = [];
+
+  for (let i = 0; i < colors.length; i++) {
+    for (let j = i + 1; j < colors.length; j++) {
+      const originalDeltaE = getDeltaE2000(colors[i].rgb, colors[j].rgb);
+      if (originalDeltaE < threshold) {
+        continue;
+      }
+
+      const simulatedDeltaE = getDeltaE2000(simulated[i], simulated[j]);
+      if (simulatedDeltaE < threshold) {
+        pairs.push({
+          first: colors[i],
+          second: colors[j],
+          originalDeltaE,
+          simulatedDeltaE,
+        });
+      }
+    }
+  }
+
+  return pairs.sort((a, b) => a.simulatedDeltaE - b.simulatedDeltaE);
+}
@@ -1,5 +1,12 @@
-import { RGB, ColorEntry } from "../types";
-import { isValidHex } from "../utils/colorFormatUtils";
+import {
+  RGB,
+  ColorEntry,
+  PreciseColor,
+  isValidDesignTokenSource,
+  isValidPreciseColor,
+} from "../types";
+import { getColorParseError } from "../utils/colorParserUtils";
+import { PALETTE_NAME_MAX_LENGTH } from "../constants/appConstants";
 
 /**
  * Validates RGB value input (0-255)
@@ -24,6 +31,29 @@ export function validateRgbValue(
   return undefined;
 }
 
+/**
+ * Validates alpha input as a percentage (0-100)
+ * Empty input is allowed and means fully opaque
+ */
+export function validateAlphaValue(value: string): string | undefined {
+  const trimmedValue = value.trim().replace(/%$/, "");
+
+  if (!trimmedValue) {
+    return undefined;
+  }
+
+  const numValue = Number(trimmedValue);
+  if (isNaN(numValue)) {
+    return "Alpha must be a number";
+  }
+
+  if (numValue < 0 || numValue > 100) {
+    return "Alpha must be between 0 and 100";
+  }
+
+  return undefined;
+}
+
 /**
  * Validates color name input
  */
@@ -40,6 +70,22 @@ export function validateColorName(name: string): string | undefined {
   return undefined;
 }
 
+/**
+ * Validates palette name input
+ */
+export function validatePaletteName(name: string): string | undefined {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    return "Palette name is required";
+  }
+
+  if (trimmedName.length > PALETTE_NAME_MAX_LENGTH) {
+    return `Palette name must be ${PALETTE_NAME_MAX_LENGTH} characters or less`;
+  }
+
+  return undefined;
+}
+
 /**
  * Validates RGB object values
  */
@@ -53,7 +99,9 @@ export function validateRgbObject(rgb: RGB): boolean {
     rgb.g >= 0 &&
     rgb.g <= 255 &&
     rgb.b >= 0 &&
-    rgb.b <= 255
+    rgb.b <= 255 &&
+    (rgb.a === undefined ||
+      (typeof rgb.a === "number" && rgb.a >= 0 && rgb.a <= 1))
   );
 }
 
@@ -62,43 +110,71 @@ export function validateRgbObject(rgb: RGB): boolean {
  */
 export function validateColorEntry(color: ColorEntry): boolean {
   return (
+    (color.id === undefined ||
+      (typeof color.id === "string" && color.id.length > 0)) &&
     typeof color.index === "number" &&
     typeof color.name === "string" &&
     color.index >= 0 &&
     color.name.trim().length > 0 &&
     color.name.length <= 50 &&
-    validateRgbObject(color.rgb)
+    validateRgbObject(color.rgb) &&
+    (color.precise === undefined || isValidPreciseColor(color.precise)) &&
+    (color.description === undefined ||
+      typeof color.description === "string") &&
+    (color.token === undefined || isValidDesignTokenSource(color.token))
   );
 }
 
 /**
- * Validates hex color code input
+ * Validates color string input in any CSS color syntax
+ * (hex, named colors, rgb(), hsl(), hwb(), lab(), lch(), oklab(), oklch(), color())
  */
-export function validateHexColor(hex: string): string | undefined {
-  const trimmedHex = hex.trim();
-
-  if (!trimmedHex) {
-    return undefined; // Allow empty hex input (optional field)
+export function validateColorString(value: string): string | undefined {
+  if (!value.trim()) {
+    return undefined; // Allow empty input (optional field)
   }
 
-  if (!isValidHex(trimmedHex)) {
-    return "Invalid hex color format. Use #RRGGBB or #RGB format (e.g., #FF5A5A or #F5A)";
-  }
+  return getColorParseError(value);
+}
 
-  return undefined;
+/**
+ * Validates hex color code input
+ * @deprecated Use validateColorString instead, which also accepts hex codes
+ */
+export function validateHexColor(hex: string): string | undefined {
+  return validateColorString(hex);
 }
 
 /**
  * Sanitizes RGB values to ensure they're within valid range
+ * Alpha is clamped to 0-1 and dropped when the color is fully opaque
  */
-export function sanitizeRgbValues(rgb: {
-  r: number;
-  g: number;
-  b: number;
-}): RGB {
-  return {
+export function sanitizeRgbValues(rgb: RGB): RGB {
+  const sanitized: RGB = {
     r: Math.max(0, Math.min(255, Math.round(rgb.r))),
     g: Math.max(0, Math.min(255, Math.round(rgb.g))),
     b: Math.max(0, Math.min(255, Math.round(rgb.b))),
   };
+
+  if (rgb.a !== undefined && !isNaN(rgb.a)) {
+    const alpha = Math.round(Math.max(0, Math.min(1, rgb.a)) * 1000) / 1000;
+    if (alpha < 1) {
+      sanitized.a = alpha;
+    }
+  }
+
+  return sanitized;
+}
+
+/**
+ * Sanitizes a precise color, trimming float noise
+ * Channels outside 0-1 are kept: they are part of the color the user entered
+ */
+export function sanitizePreciseColor(precise: PreciseColor): PreciseColor {
+  return {
+    space: precise.space,
+    coords: precise.coords.map(
+      (value) => Math.round(value * 1e6) / 1e6,
+    ) as PreciseColor["coords"],
+  };
 }